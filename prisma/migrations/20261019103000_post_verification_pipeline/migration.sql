@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "TorrentTask" ADD COLUMN "savePath" TEXT;
+ALTER TABLE "TorrentTask" ADD COLUMN "deleteLocalAttempts" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "TorrentTask" ADD COLUMN "deleteQbTaskAttempts" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "TorrentTask" ADD COLUMN "uploadBytesTotal" BIGINT;
+ALTER TABLE "TorrentTask" ADD COLUMN "uploadBytesTransferred" BIGINT;
+ALTER TABLE "TorrentTask" ADD COLUMN "uploadEtaSeconds" INTEGER;
+ALTER TABLE "TorrentTask" ADD COLUMN "uploadProgressAt" DATETIME;
+ALTER TABLE "TorrentTask" ADD COLUMN "uploadProgressPercent" REAL;
+ALTER TABLE "TorrentTask" ADD COLUMN "uploadSpeedBps" REAL;
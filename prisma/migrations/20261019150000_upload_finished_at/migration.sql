@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "TorrentTask" ADD COLUMN "uploadFinishedAt" DATETIME;
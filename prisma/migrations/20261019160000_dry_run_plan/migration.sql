@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "DryRunPlan" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "hash" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "eligible" BOOLEAN NOT NULL,
+    "reasons" TEXT NOT NULL,
+    "ruleIndex" INTEGER,
+    "ruleDescription" TEXT,
+    "remotePath" TEXT,
+    "actions" TEXT NOT NULL,
+    "existingTaskStatus" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "evaluatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DryRunPlan_hash_key" ON "DryRunPlan"("hash");
+
+-- CreateIndex
+CREATE INDEX "DryRunPlan_eligible_idx" ON "DryRunPlan"("eligible");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "TorrentTask" ADD COLUMN "nextAttemptAt" DATETIME;
+ALTER TABLE "TorrentTask" ADD COLUMN "lastFailedStatus" TEXT;
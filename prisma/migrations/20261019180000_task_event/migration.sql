@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "TaskEvent" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "taskId" TEXT NOT NULL,
+    "fromStatus" TEXT,
+    "toStatus" TEXT NOT NULL,
+    "message" TEXT,
+    "attempt" INTEGER,
+    "exitCode" INTEGER,
+    "stderrExcerpt" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "TaskEvent_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "TorrentTask" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "TaskEvent_taskId_createdAt_idx" ON "TaskEvent"("taskId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "TaskEvent_createdAt_idx" ON "TaskEvent"("createdAt");
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "TorrentTask" ADD COLUMN "instance" TEXT NOT NULL DEFAULT 'default';
+ALTER TABLE "DryRunPlan" ADD COLUMN "instance" TEXT NOT NULL DEFAULT 'default';
+
+-- DropIndex
+DROP INDEX "TorrentTask_hash_key";
+DROP INDEX "DryRunPlan_hash_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TorrentTask_instance_hash_key" ON "TorrentTask"("instance", "hash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DryRunPlan_instance_hash_key" ON "DryRunPlan"("instance", "hash");
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "TaskDestination" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "taskId" TEXT NOT NULL,
+    "destination" TEXT NOT NULL,
+    "remotePath" TEXT NOT NULL,
+    "required" BOOLEAN NOT NULL DEFAULT true,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "uploadAttempts" INTEGER NOT NULL DEFAULT 0,
+    "verificationAttempts" INTEGER NOT NULL DEFAULT 0,
+    "uploadDurationMs" INTEGER,
+    "errorMessage" TEXT,
+    "uploadedAt" DATETIME,
+    "verifiedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "TaskDestination_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "TorrentTask" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TaskDestination_taskId_destination_key" ON "TaskDestination"("taskId", "destination");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "TaskDestination" ADD COLUMN "verifyMode" TEXT;
+ALTER TABLE "TaskDestination" ADD COLUMN "verificationMethod" TEXT;
@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "TorrentTask" ADD COLUMN "manifestBuiltAt" DATETIME;
+
+-- CreateTable
+CREATE TABLE "TaskManifestFile" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "taskId" TEXT NOT NULL,
+    "relativePath" TEXT NOT NULL,
+    "size" BIGINT NOT NULL,
+    "sha256" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "TaskManifestFile_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "TorrentTask" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TaskManifestFile_taskId_relativePath_key" ON "TaskManifestFile"("taskId", "relativePath");
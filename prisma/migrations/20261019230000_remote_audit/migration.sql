@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "TorrentTask" ADD COLUMN "remoteVerifiedAt" DATETIME;
+ALTER TABLE "TorrentTask" ADD COLUMN "lastAuditAt" DATETIME;
+
+-- AlterTable
+ALTER TABLE "TaskDestination" ADD COLUMN "auditedAt" DATETIME;
+
+-- CreateIndex
+CREATE INDEX "TorrentTask_status_remoteVerifiedAt_idx" ON "TorrentTask"("status", "remoteVerifiedAt");
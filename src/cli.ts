@@ -0,0 +1,494 @@
+#!/usr/bin/env node
+// src/cli.ts
+import { parseArgs } from 'node:util';
+import winston from 'winston';
+import config from './services/config.service';
+import logger from './services/logger.service';
+import prisma, { disconnect } from './services/db.service';
+import { TaskProcessorService } from './core/task-processor.service';
+import { getTaskSummary } from './core/task-stats';
+import { listTaskEvents } from './core/task-events';
+import { resolveRemotePath } from './core/archiving-rules';
+import { loadTaskManifest } from './core/checksum-manifest';
+import { QBittorrentTorrent } from './core/qbittorrent.service';
+import { formatBytes, formatDuration } from './utils/format.utils';
+
+const USAGE = `用法: qb-cloud-sync <命令> [参数]
+
+命令:
+  status                    按状态汇总任务，并列出正在上传和最近失败的任务
+  retry <hash|id>           重试失败、出错或已跳过的任务 (重置尝试次数)。
+                            同一种子存在于多个 qB 实例时可写作 <实例名:hash>
+  skip <hash|id>            跳过任务 (标记为 SKIPPED)
+  history <hash|id>         列出任务的状态变更记录 (每次尝试的结果、错误信息和 rclone 退出码)，
+                            加 --verbose 同时显示 rclone stderr 摘录
+  manifest <hash|id>        列出任务上传前生成的文件清单 (相对路径、大小和 SHA-256)
+  explain <hash>            从 qB 获取种子，说明处理资格、匹配的归档规则及最终远程路径
+  rules test <name>         用一个虚构的种子测试归档规则 (默认实例的规则)，不需要连接 qB
+      --category <分类>  --tags <a,b>  --size <Bytes>  --tracker <URL>
+      --save-path <路径>  --files <a.mkv,b.srt>  --ratio <分享率>
+  enqueue <hash>            立即处理一个已下载完成的种子 (供 qB 的 "Torrent 完成时运行外部程序" 调用，
+                            参数填 %I)。优先通知守护进程的控制 API，无法连接时直接写入数据库
+  run-once                  执行一次完整的处理周期并等待本次任务处理完毕后退出
+  audit [数量]              立即执行一次远程巡检 (检查已完成任务的远程内容是否缺失或不一致)，
+                            默认检查 REMOTE_AUDIT_BATCH_SIZE 个任务
+  plan [--all]              列出试运行 (DRY_RUN=true) 记录的处理计划，默认只列出将被处理的种子
+
+通用选项:
+  --instance <名称>         指定 qB 实例 (explain、enqueue、rules test)。explain 和 enqueue
+                            未指定时在所有实例中查找，rules test 未指定时使用默认实例
+  --verbose                 在控制台输出 info 级别日志 (run-once 默认开启)
+  -h, --help                显示此帮助
+
+注意: run-once 与守护进程同时运行时可能重复处理同一任务，请先停止守护进程。`;
+
+class UsageError extends Error {}
+
+function printTable(headers: string[], rows: string[][]): void {
+  const widths = headers.map((header, i) =>
+    Math.max(header.length, ...rows.map((row) => (row[i] ?? '').length))
+  );
+  const format = (cells: string[]) =>
+    cells.map((cell, i) => (cell ?? '').padEnd(widths[i])).join('  ');
+  console.log(format(headers));
+  console.log(widths.map((width) => '-'.repeat(width)).join('  '));
+  rows.forEach((row) => console.log(format(row)));
+}
+
+function truncate(value: string, max: number): string {
+  return value.length > max ? `${value.slice(0, max - 1)}…` : value;
+}
+
+function requireArg(value: string | undefined, name: string): string {
+  if (!value) throw new UsageError(`缺少参数 <${name}>`);
+  return value;
+}
+
+async function commandStatus(): Promise<number> {
+  const summary = await getTaskSummary(prisma, { days: 7, failureLimit: 10 });
+  printTable(
+    ['状态', '数量'],
+    Object.entries(summary.statusCounts)
+      .filter(([, count]) => count > 0)
+      .map(([status, count]) => [status, String(count)])
+  );
+
+  if (summary.activeUploads.length > 0) {
+    console.log('\n正在上传:');
+    printTable(
+      ['名称', '进度', '速度', '剩余时间'],
+      summary.activeUploads.map((task) => [
+        truncate(task.name, 60),
+        task.uploadProgressPercent !== null ? `${task.uploadProgressPercent.toFixed(1)}%` : '-',
+        task.uploadSpeedBps ? `${formatBytes(task.uploadSpeedBps)}/s` : '-',
+        task.uploadEtaSeconds !== null ? formatDuration(task.uploadEtaSeconds * 1000) : '-',
+      ])
+    );
+  }
+
+  if (summary.recentFailures.length > 0) {
+    console.log('\n最近失败:');
+    printTable(
+      ['实例', '哈希', '名称', '状态', '错误信息'],
+      summary.recentFailures.map((task) => [
+        task.instance,
+        task.hash.slice(0, 12),
+        truncate(task.name, 40),
+        task.status,
+        truncate((task.errorMessage || '-').replace(/\s+/g, ' '), 80),
+      ])
+    );
+  }
+
+  console.log('\n最近 7 天上传:');
+  printTable(
+    ['日期', '任务数', '上传量', '平均速度'],
+    summary.dailyThroughput.map((day) => [
+      day.date,
+      String(day.tasks),
+      formatBytes(day.bytes),
+      day.avgSpeedBps ? `${formatBytes(day.avgSpeedBps)}/s` : '-',
+    ])
+  );
+  return 0;
+}
+
+async function commandTaskAction(
+  processor: TaskProcessorService,
+  action: 'retry' | 'skip',
+  idOrHash: string
+): Promise<number> {
+  const task = await processor.resolveTask(idOrHash);
+  if (!task) {
+    console.error(`找不到任务: ${idOrHash}`);
+    return 1;
+  }
+  const result =
+    action === 'retry' ? await processor.retryTask(task.id) : await processor.skipTask(task.id);
+  (result.success ? console.log : console.error)(`${task.name}: ${result.message}`);
+  return result.success ? 0 : 1;
+}
+
+async function commandHistory(
+  processor: TaskProcessorService,
+  idOrHash: string,
+  showStderr: boolean
+): Promise<number> {
+  const task = await processor.resolveTask(idOrHash);
+  if (!task) {
+    console.error(`找不到任务: ${idOrHash}`);
+    return 1;
+  }
+  const events = (await listTaskEvents(prisma, task.id)).reverse();
+  console.log(`任务: ${task.name} (ID: ${task.id})，当前状态 ${task.status}\n`);
+  const destinations = await prisma.taskDestination.findMany({
+    where: { taskId: task.id },
+    orderBy: [{ createdAt: 'asc' }],
+  });
+  if (destinations.length > 0) {
+    printTable(
+      ['上传目标', '状态', '上传/验证次数', '验证方式', '远程路径', '错误信息'],
+      destinations.map((destination) => [
+        `${destination.destination}${destination.required ? '' : ' (非必需)'}`,
+        destination.status,
+        `${destination.uploadAttempts}/${destination.verificationAttempts}`,
+        destination.verificationMethod ?? destination.verifyMode ?? '-',
+        destination.remotePath,
+        truncate((destination.errorMessage || '-').replace(/\s+/g, ' '), 60),
+      ])
+    );
+    console.log('');
+  }
+  if (events.length === 0) {
+    console.log('没有状态变更记录。');
+    return 0;
+  }
+  printTable(
+    ['时间', '状态变更', '尝试', '退出码', '信息'],
+    events.map((event) => [
+      event.createdAt.toLocaleString(),
+      `${event.fromStatus ?? '-'} -> ${event.toStatus}`,
+      event.attempt !== null ? String(event.attempt) : '-',
+      event.exitCode !== null ? String(event.exitCode) : '-',
+      truncate((event.message || '-').replace(/\s+/g, ' '), 100),
+    ])
+  );
+  if (showStderr) {
+    for (const event of events.filter((e) => e.stderrExcerpt)) {
+      console.log(`\n--- ${event.createdAt.toLocaleString()} ${event.toStatus} stderr ---`);
+      console.log(event.stderrExcerpt);
+    }
+  } else if (events.some((event) => event.stderrExcerpt)) {
+    console.log('\n使用 --verbose 查看 rclone stderr 摘录。');
+  }
+  return 0;
+}
+
+async function commandManifest(processor: TaskProcessorService, idOrHash: string): Promise<number> {
+  const task = await processor.resolveTask(idOrHash);
+  if (!task) {
+    console.error(`找不到任务: ${idOrHash}`);
+    return 1;
+  }
+  const manifest = await loadTaskManifest(prisma, task);
+  if (!manifest) {
+    console.log(
+      `任务 "${task.name}" 尚未生成文件清单 (清单在上传前生成，见 BUILD_CHECKSUM_MANIFEST)。`
+    );
+    return 0;
+  }
+  const totalSize = manifest.reduce((sum, entry) => sum + entry.size, 0);
+  console.log(
+    `任务: ${task.name} (ID: ${task.id})，清单生成于 ${task.manifestBuiltAt?.toLocaleString()}，共 ${manifest.length} 个文件 (${formatBytes(totalSize)})\n`
+  );
+  printTable(
+    ['SHA-256', '大小', '路径'],
+    manifest.map((entry) => [entry.sha256, formatBytes(entry.size), entry.relativePath])
+  );
+  return 0;
+}
+
+async function commandExplain(
+  processor: TaskProcessorService,
+  hash: string,
+  instance: string | undefined
+): Promise<number> {
+  const explanation = await processor.explainTorrent(hash, instance);
+  if (!explanation) {
+    console.error(`qBittorrent 中找不到哈希为 ${hash} 的种子。`);
+    return 1;
+  }
+  const { torrent, eligibility, match } = explanation;
+  console.log(`种子:     ${torrent.name}`);
+  console.log(`哈希:     ${torrent.hash}`);
+  console.log(`qB 实例:  ${explanation.instance}`);
+  console.log(
+    `状态:     ${torrent.state}, 进度 ${(torrent.progress * 100).toFixed(1)}%, 分类 "${torrent.category}", 标签 "${torrent.tags}"`
+  );
+
+  console.log(
+    `\n处理资格: ${eligibility.eligible ? '符合' : '不符合'}${eligibility.forced ? ' (强制放行)' : ''}${eligibility.override ? ` [覆盖规则: ${eligibility.override.description || eligibility.override.category || eligibility.override.tag}]` : ''}`
+  );
+  eligibility.reasons.forEach((reason) => console.log(`  - ${reason}`));
+  if (torrent.progress < 1) {
+    console.log('  - 种子尚未下载完成，不会被处理');
+  }
+
+  if (match.rule && !match.isDefault) {
+    console.log(
+      `\n归档规则: #${match.ruleIndex} ${match.rule.description || JSON.stringify(match.rule.if)}`
+    );
+  } else if (match.rule) {
+    console.log(`\n归档规则: #${match.ruleIndex} (默认规则)`);
+  } else {
+    console.log('\n归档规则: 无 (使用备用路径结构)');
+  }
+  match.reasons.forEach((reason) => console.log(`  - ${reason}`));
+  console.log(`路径模板: ${explanation.template}`);
+  console.log(`相对路径: ${explanation.relativePath}`);
+  explanation.destinations.forEach((destination) =>
+    console.log(
+      `上传目标: [${destination.name}]${destination.required ? '' : ' (非必需)'} ${destination.remotePath} (验证方式: ${destination.verifyMode ?? config.rclone.verifyMode})`
+    )
+  );
+
+  const task = await processor.resolveTask(`${explanation.instance}:${torrent.hash}`);
+  console.log(
+    `\n数据库任务: ${task ? `${task.status} (ID: ${task.id}, 记录的路径: ${task.calculatedRemotePath ?? '-'})` : '无'}`
+  );
+  return 0;
+}
+
+async function commandRulesTest(name: string, values: Record<string, unknown>): Promise<number> {
+  const instanceName = typeof values.instance === 'string' ? values.instance : undefined;
+  const instance = instanceName
+    ? config.qbittorrentInstances.find((candidate) => candidate.name === instanceName)
+    : config.qbittorrentInstances[0];
+  if (!instance) throw new UsageError(`未配置名为 "${instanceName}" 的 qB 实例`);
+
+  const nowSec = Math.floor(Date.now() / 1000);
+  const str = (key: string) => (typeof values[key] === 'string' ? values[key] : undefined);
+  const num = (key: string, defaultValue: number) => {
+    const raw = str(key);
+    if (raw === undefined) return defaultValue;
+    const parsed = Number(raw);
+    if (!Number.isFinite(parsed)) throw new UsageError(`--${key} 必须是数字: ${raw}`);
+    return parsed;
+  };
+  const files = (str('files') ?? '')
+    .split(',')
+    .map((file) => file.trim())
+    .filter((file) => file !== '');
+
+  // 只填充规则匹配和路径模板会用到的字段
+  const torrent = {
+    name,
+    hash: '0'.repeat(40),
+    category: str('category') ?? '',
+    tags: str('tags') ?? '',
+    size: num('size', 0),
+    tracker: str('tracker') ?? '',
+    save_path: str('save-path') ?? '',
+    ratio: num('ratio', 0),
+    added_on: nowSec,
+    completion_on: nowSec,
+    state: 'stoppedUP',
+    progress: 1,
+  } as QBittorrentTorrent;
+
+  const { match, template, relativePath } = await resolveRemotePath(
+    instance.archivingRules,
+    { torrent, now: new Date(), getFileNames: () => Promise.resolve(files) },
+    config.rclone.pathSanitizeMode,
+    (_rule, index, error) =>
+      console.error(`规则 #${index} 判断出错: ${error instanceof Error ? error.message : error}`)
+  );
+  console.log(`qB 实例 [${instance.name}] 共 ${instance.archivingRules.length} 条规则`);
+  if (match.rule && !match.isDefault) {
+    console.log(
+      `匹配规则: #${match.ruleIndex} ${match.rule.description || JSON.stringify(match.rule.if)}`
+    );
+  } else if (match.rule) {
+    console.log(`匹配规则: #${match.ruleIndex} (默认规则)`);
+  } else {
+    console.log('匹配规则: 无 (使用备用路径结构)');
+  }
+  match.reasons.forEach((reason) => console.log(`  - ${reason}`));
+  console.log(`路径模板: ${template}`);
+  console.log(`相对路径: ${relativePath}`);
+  return 0;
+}
+
+async function commandPlan(showAll: boolean): Promise<number> {
+  const plans = await prisma.dryRunPlan.findMany({
+    where: showAll ? {} : { eligible: true, existingTaskStatus: null },
+    orderBy: [{ eligible: 'desc' }, { name: 'asc' }],
+  });
+  if (plans.length === 0) {
+    console.log('没有试运行计划。请设置 DRY_RUN=true 后运行守护进程或 run-once。');
+    return 0;
+  }
+  printTable(
+    ['实例', '名称', '符合条件', '规则', '远程路径'],
+    plans.map((plan) => [
+      plan.instance,
+      truncate(plan.name, 60),
+      plan.existingTaskStatus
+        ? `已有任务 (${plan.existingTaskStatus})`
+        : plan.eligible
+          ? '是'
+          : '否',
+      plan.ruleIndex !== null ? `#${plan.ruleIndex}` : '-',
+      plan.remotePath ?? '-',
+    ])
+  );
+  const latest = plans.reduce((a, b) => (a.evaluatedAt > b.evaluatedAt ? a : b));
+  console.log(`\n共 ${plans.length} 条计划，最近评估于 ${latest.evaluatedAt.toLocaleString()}。`);
+  return 0;
+}
+
+async function commandEnqueue(
+  processor: TaskProcessorService,
+  hash: string,
+  instance: string | undefined
+): Promise<number> {
+  const { enabled, host, port, token } = config.controlApi;
+  if (enabled && token) {
+    const apiHost = host === '0.0.0.0' || host === '::' ? '127.0.0.1' : host;
+    const query = instance ? `?instance=${encodeURIComponent(instance)}` : '';
+    try {
+      const response = await fetch(
+        `http://${apiHost}:${port}/api/torrents/${encodeURIComponent(hash)}/enqueue${query}`,
+        {
+          method: 'POST',
+          headers: { Authorization: `Bearer ${token}` },
+          signal: AbortSignal.timeout(30000),
+        }
+      );
+      const body = (await response.json()) as { message?: string; error?: string };
+      (response.ok ? console.log : console.error)(
+        body.message ?? body.error ?? response.statusText
+      );
+      return response.ok ? 0 : 1;
+    } catch (error) {
+      console.error(
+        `无法连接守护进程的控制 API (${error instanceof Error ? error.message : error})，将直接写入数据库。`
+      );
+    }
+  }
+  // 未运行守护进程 (或无法连接) 时: 只创建任务，由守护进程在下次轮询时处理
+  const result = await processor.enqueueTorrent(hash, instance);
+  (result.success ? console.log : console.error)(result.message);
+  return result.success ? 0 : 1;
+}
+
+async function commandAudit(
+  processor: TaskProcessorService,
+  limitArg: string | undefined
+): Promise<number> {
+  const limit = limitArg === undefined ? undefined : Number(limitArg);
+  if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0)) {
+    throw new UsageError(`无效的数量: ${limitArg}`);
+  }
+  const result = await processor.runRemoteAudit(limit);
+  if (!result) {
+    console.error('另一次远程巡检正在进行中。');
+    return 1;
+  }
+  if (result.checked === 0) {
+    console.log('没有需要检查的已完成任务。');
+    return 0;
+  }
+  console.log(
+    `检查 ${result.checked} 个任务: 通过 ${result.passed}，发现问题 ${result.failed}，无法确认 ${result.inconclusive}。`
+  );
+  if (result.failed > 0) {
+    console.log('发现问题的任务已标记为 REMOTE_AUDIT_FAILED，可用 history 查看详情。');
+  }
+  return result.failed > 0 ? 1 : 0;
+}
+
+async function commandRunOnce(processor: TaskProcessorService): Promise<number> {
+  const startedAt = Date.now();
+  await processor.runOnce();
+  console.log(`单次处理周期已完成，耗时 ${formatDuration(Date.now() - startedAt)}。`);
+  return 0;
+}
+
+async function run(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      help: { type: 'boolean', short: 'h' },
+      verbose: { type: 'boolean' },
+      all: { type: 'boolean' },
+      instance: { type: 'string' },
+      category: { type: 'string' },
+      tags: { type: 'string' },
+      size: { type: 'string' },
+      tracker: { type: 'string' },
+      'save-path': { type: 'string' },
+      files: { type: 'string' },
+      ratio: { type: 'string' },
+    },
+  });
+  const [command, ...args] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return values.help ? 0 : 2;
+  }
+
+  // 控制台只输出警告和错误，避免日志淹没命令输出 (日志文件不受影响)
+  const verbose = values.verbose || command === 'run-once';
+  for (const transport of logger.transports) {
+    if (transport instanceof winston.transports.Console) {
+      transport.level = verbose ? config.logLevel : 'warn';
+    }
+  }
+
+  const processor = new TaskProcessorService(config, prisma);
+  switch (command) {
+    case 'status':
+      return commandStatus();
+    case 'retry':
+    case 'skip':
+      return commandTaskAction(processor, command, requireArg(args[0], 'hash|id'));
+    case 'history':
+      return commandHistory(processor, requireArg(args[0], 'hash|id'), values.verbose === true);
+    case 'manifest':
+      return commandManifest(processor, requireArg(args[0], 'hash|id'));
+    case 'explain':
+      return commandExplain(processor, requireArg(args[0], 'hash'), values.instance);
+    case 'rules':
+      if (args[0] !== 'test') throw new UsageError(`未知的 rules 子命令: ${args[0] ?? ''}`);
+      return commandRulesTest(requireArg(args.slice(1).join(' '), 'name'), values);
+    case 'enqueue':
+      return commandEnqueue(processor, requireArg(args[0], 'hash'), values.instance);
+    case 'run-once':
+      return commandRunOnce(processor);
+    case 'audit':
+      return commandAudit(processor, args[0]);
+    case 'plan':
+      return commandPlan(values.all === true);
+    default:
+      throw new UsageError(`未知命令: ${command}`);
+  }
+}
+
+run(process.argv.slice(2))
+  .catch((error: unknown) => {
+    if (
+      error instanceof UsageError ||
+      (error as { code?: string })?.code?.startsWith('ERR_PARSE_ARGS')
+    ) {
+      console.error(`${(error as Error).message}\n\n${USAGE}`);
+      return 2;
+    }
+    console.error('命令执行失败:', error);
+    return 1;
+  })
+  .then(async (exitCode) => {
+    await disconnect();
+    process.exit(exitCode);
+  });
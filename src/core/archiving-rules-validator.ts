@@ -0,0 +1,297 @@
+// src/core/archiving-rules-validator.ts
+import { IArchivingRule } from '../interfaces/config.types';
+import {
+  listTemplatePlaceholders,
+  TEMPLATE_MODIFIERS,
+  TEMPLATE_PLACEHOLDERS,
+} from './path-template';
+import { VERIFICATION_MODES, isVerificationMode } from './verification-modes';
+
+export interface RuleValidationIssue {
+  ruleIndex: number;
+  field: string; // 出错字段的路径，如 "if.all[1].name_matches"
+  message: string;
+}
+
+export interface RuleValidationResult {
+  rules: IArchivingRule[]; // 通过校验的规则 (宽松模式下使用)
+  issues: RuleValidationIssue[];
+}
+
+type FieldKind = 'string' | 'stringOrList' | 'regex' | 'number' | 'conditionList' | 'condition';
+
+const CONDITION_FIELDS: Record<string, FieldKind> = {
+  category: 'string',
+  tags: 'stringOrList',
+  name_matches: 'regex',
+  all: 'conditionList',
+  any: 'conditionList',
+  not: 'condition',
+  minSize: 'number',
+  maxSize: 'number',
+  tracker: 'stringOrList',
+  save_path_matches: 'regex',
+  minAddedAgeDays: 'number',
+  maxAddedAgeDays: 'number',
+  minCompletedAgeDays: 'number',
+  maxCompletedAgeDays: 'number',
+  minRatio: 'number',
+  maxRatio: 'number',
+  file_extensions: 'stringOrList',
+};
+
+const RANGE_FIELDS: [string, string][] = [
+  ['minSize', 'maxSize'],
+  ['minAddedAgeDays', 'maxAddedAgeDays'],
+  ['minCompletedAgeDays', 'maxCompletedAgeDays'],
+  ['minRatio', 'maxRatio'],
+];
+
+const RULE_KEYS = ['if', 'then', 'description'];
+const ACTION_KEYS = ['remotePath', 'remotes', 'verify'];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+class IssueCollector {
+  public readonly issues: RuleValidationIssue[] = [];
+  constructor(private ruleIndex: number) {}
+
+  public add(field: string, message: string): void {
+    this.issues.push({ ruleIndex: this.ruleIndex, field, message });
+  }
+}
+
+function validateField(kind: FieldKind, value: unknown, field: string, out: IssueCollector): void {
+  switch (kind) {
+    case 'string':
+      if (typeof value !== 'string' || value === '') {
+        out.add(field, `expected a non-empty string, got ${describeType(value)}`);
+      }
+      return;
+    case 'stringOrList': {
+      const items = Array.isArray(value) ? value : [value];
+      if (items.length === 0) {
+        out.add(field, 'expected a string or a non-empty array of strings');
+      }
+      items.forEach((item, i) => {
+        if (typeof item !== 'string' || item === '') {
+          const itemField = Array.isArray(value) ? `${field}[${i}]` : field;
+          out.add(itemField, `expected a non-empty string, got ${describeType(item)}`);
+        }
+      });
+      return;
+    }
+    case 'regex':
+      if (typeof value !== 'string' || value === '') {
+        out.add(field, `expected a regular expression string, got ${describeType(value)}`);
+        return;
+      }
+      try {
+        new RegExp(value, 'i');
+      } catch (error) {
+        out.add(field, `invalid regular expression: ${(error as Error).message}`);
+      }
+      return;
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+        out.add(field, `expected a non-negative number, got ${JSON.stringify(value)}`);
+      }
+      return;
+    case 'conditionList':
+      if (!Array.isArray(value) || value.length === 0) {
+        out.add(field, 'expected a non-empty array of conditions');
+        return;
+      }
+      value.forEach((sub, i) => validateCondition(sub, `${field}[${i}]`, out));
+      return;
+    case 'condition':
+      validateCondition(value, field, out);
+      return;
+  }
+}
+
+function validateCondition(condition: unknown, field: string, out: IssueCollector): void {
+  if (!isPlainObject(condition)) {
+    out.add(field, `expected a condition object, got ${describeType(condition)}`);
+    return;
+  }
+  const keys = Object.keys(condition);
+  if (keys.length === 0) {
+    out.add(field, 'empty condition never matches');
+    return;
+  }
+  for (const key of keys) {
+    const kind = CONDITION_FIELDS[key];
+    if (!kind) {
+      out.add(`${field}.${key}`, `unknown condition key "${key}"`);
+      continue;
+    }
+    validateField(kind, condition[key], `${field}.${key}`, out);
+  }
+  for (const [minKey, maxKey] of RANGE_FIELDS) {
+    const min = condition[minKey];
+    const max = condition[maxKey];
+    if (typeof min === 'number' && typeof max === 'number' && min > max) {
+      out.add(`${field}.${minKey}`, `${minKey} (${min}) is greater than ${maxKey} (${max})`);
+    }
+  }
+}
+
+/**
+ * 校验远程路径模板中的占位符和修饰符是否都是已知的。
+ */
+export function validateRemotePathTemplate(template: string): string[] {
+  const problems: string[] = [];
+  if (/\{[^}]*$|^[^{]*\}/.test(template)) {
+    problems.push('unbalanced braces');
+  }
+  for (const placeholder of listTemplatePlaceholders(template)) {
+    if (!(TEMPLATE_PLACEHOLDERS as readonly string[]).includes(placeholder.name)) {
+      problems.push(
+        `unknown placeholder ${placeholder.raw} (available: ${TEMPLATE_PLACEHOLDERS.join(', ')})`
+      );
+    }
+    for (const modifier of placeholder.modifiers) {
+      if (!(TEMPLATE_MODIFIERS as readonly string[]).includes(modifier)) {
+        problems.push(
+          `unknown modifier "${modifier}" in ${placeholder.raw} (available: ${TEMPLATE_MODIFIERS.join(', ')})`
+        );
+      }
+    }
+  }
+  return problems;
+}
+
+function validateRemotes(
+  remotes: unknown,
+  destinations: string[] | undefined,
+  out: IssueCollector
+): void {
+  const names = typeof remotes === 'string' ? [remotes] : remotes;
+  if (!Array.isArray(names) || names.length === 0) {
+    out.add('then.remotes', `expected a non-empty string or array, got ${describeType(remotes)}`);
+    return;
+  }
+  names.forEach((name: unknown, i) => {
+    if (typeof name !== 'string' || name.trim() === '') {
+      out.add(`then.remotes[${i}]`, `expected a non-empty string, got ${describeType(name)}`);
+    } else if (destinations && !destinations.includes(name)) {
+      out.add(
+        `then.remotes[${i}]`,
+        `unknown destination "${name}" (configured: ${destinations.join(', ')})`
+      );
+    }
+  });
+}
+
+function validateAction(
+  action: unknown,
+  destinations: string[] | undefined,
+  out: IssueCollector
+): void {
+  if (!isPlainObject(action)) {
+    out.add('then', `expected an object, got ${describeType(action)}`);
+    return;
+  }
+  for (const key of Object.keys(action)) {
+    if (!ACTION_KEYS.includes(key)) {
+      out.add(`then.${key}`, `unknown action key "${key}"`);
+    }
+  }
+  if (action.remotes !== undefined) {
+    validateRemotes(action.remotes, destinations, out);
+  }
+  if (action.verify !== undefined && !isVerificationMode(action.verify)) {
+    out.add(
+      'then.verify',
+      `unknown verification mode ${JSON.stringify(action.verify)} (available: ${VERIFICATION_MODES.join(', ')})`
+    );
+  }
+  const remotePath = action.remotePath;
+  if (typeof remotePath !== 'string' || remotePath.trim() === '') {
+    out.add('then.remotePath', `expected a non-empty string, got ${describeType(remotePath)}`);
+    return;
+  }
+  for (const problem of validateRemotePathTemplate(remotePath)) {
+    out.add('then.remotePath', problem);
+  }
+}
+
+/**
+ * 严格校验归档规则列表: 未知字段、无效正则、未知占位符、未配置的上传目标、多条默认规则等。
+ * 返回所有问题 (而不是遇到第一个就停止)，以及通过校验的规则。
+ * @param destinations 已配置的上传目标名称；不传时不检查 then.remotes 中的名称是否存在。
+ */
+export function validateArchivingRules(
+  value: unknown,
+  destinations?: string[]
+): RuleValidationResult {
+  if (!Array.isArray(value)) {
+    return {
+      rules: [],
+      issues: [{ ruleIndex: -1, field: '', message: 'archiving rules must be a JSON array' }],
+    };
+  }
+  const rules: IArchivingRule[] = [];
+  const issues: RuleValidationIssue[] = [];
+  let defaultRuleIndex: number | undefined;
+
+  value.forEach((rule: unknown, index) => {
+    const out = new IssueCollector(index);
+    if (!isPlainObject(rule)) {
+      out.add('', `expected a rule object, got ${describeType(rule)}`);
+    } else {
+      for (const key of Object.keys(rule)) {
+        if (!RULE_KEYS.includes(key)) {
+          out.add(key, `unknown rule key "${key}"`);
+        }
+      }
+      if (rule.if === 'default') {
+        if (defaultRuleIndex !== undefined) {
+          out.add(
+            'if',
+            `more than one default rule (already defined by rule #${defaultRuleIndex})`
+          );
+        } else {
+          defaultRuleIndex = index;
+        }
+      } else if (typeof rule.if === 'string') {
+        out.add('if', `expected a condition object or "default", got "${rule.if}"`);
+      } else if (rule.if === undefined) {
+        out.add('if', 'missing condition');
+      } else {
+        validateCondition(rule.if, 'if', out);
+      }
+      if (rule.then === undefined) {
+        out.add('then', 'missing action');
+      } else {
+        validateAction(rule.then, destinations, out);
+      }
+      if (rule.description !== undefined && typeof rule.description !== 'string') {
+        out.add('description', `expected a string, got ${describeType(rule.description)}`);
+      }
+    }
+    if (out.issues.length === 0) {
+      rules.push(rule as IArchivingRule);
+    }
+    issues.push(...out.issues);
+  });
+
+  return { rules, issues };
+}
+
+export function formatRuleValidationIssue(issue: RuleValidationIssue): string {
+  if (issue.ruleIndex < 0) return issue.message;
+  const location = issue.field
+    ? `rule #${issue.ruleIndex} ${issue.field}`
+    : `rule #${issue.ruleIndex}`;
+  return `${location}: ${issue.message}`;
+}
@@ -0,0 +1,296 @@
+// src/core/archiving-rules.ts
+import path from 'node:path';
+import { IArchivingRule, IArchivingRuleCondition } from '../interfaces/config.types';
+import { QBittorrentTorrent } from './qbittorrent.service';
+import { buildTemplateVariables, PathSanitizeMode, renderPathTemplate } from './path-template';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 没有任何规则 (包括默认规则) 匹配时使用的路径结构
+export const FALLBACK_REMOTE_PATH_TEMPLATE = '{tag}/{category}/{torrentName}';
+
+export interface RuleMatchContext {
+  torrent: QBittorrentTorrent;
+  getFileNames: () => Promise<string[]>; // 仅在规则用到 file_extensions 时才会被调用
+  now: Date;
+}
+
+export interface ConditionMatchResult {
+  matched: boolean;
+  reasons: string[]; // 各项条件的判断说明
+}
+
+export interface RuleMatchResult {
+  rule?: IArchivingRule; // 命中的规则 (可能是默认规则)，未命中任何规则时为 undefined
+  ruleIndex?: number;
+  isDefault: boolean;
+  reasons: string[];
+}
+
+export interface RemotePathResolution {
+  match: RuleMatchResult;
+  template: string; // 实际使用的路径模板 (规则的 remotePath 或备用模板)
+  relativePath: string; // 渲染并清理后的远程相对路径
+}
+
+function toArray(value: string[] | string): string[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+function splitTags(tags: string): string[] {
+  return tags
+    .split(',')
+    .map((tag) => tag.trim().toLowerCase())
+    .filter((tag) => tag !== '');
+}
+
+function trackerHost(trackerUrl: string): string | null {
+  if (!trackerUrl) return null;
+  try {
+    return new URL(trackerUrl).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+function normalizeExtension(ext: string): string {
+  return ext.toLowerCase().replace(/^\./, '');
+}
+
+/**
+ * 旧版扁平条件 (category / tags / name_matches) 之间为 "或" 关系。
+ * 若三者都未配置则返回 null，表示此组不参与判断。
+ */
+function matchLegacyGroup(
+  condition: IArchivingRuleCondition,
+  torrent: QBittorrentTorrent
+): ConditionMatchResult | null {
+  if (!condition.category && !condition.tags && !condition.name_matches) return null;
+  const reasons: string[] = [];
+  const category = torrent.category || 'Uncategorized';
+  const torrentTags = splitTags(torrent.tags);
+
+  if (condition.category) {
+    if (category.toLowerCase() === condition.category.toLowerCase()) {
+      return { matched: true, reasons: [`分类 "${category}" 匹配`] };
+    }
+    reasons.push(`分类 "${category}" 不是 "${condition.category}"`);
+  }
+  if (condition.tags) {
+    const wanted = toArray(condition.tags).map((tag) => tag.toLowerCase());
+    const hit = wanted.find((tag) => torrentTags.includes(tag));
+    if (hit) {
+      return { matched: true, reasons: [`包含标签 "${hit}"`] };
+    }
+    reasons.push(`不包含标签 [${wanted.join(', ')}] 中的任何一个`);
+  }
+  if (condition.name_matches) {
+    // 无效的正则表达式会抛出异常，由调用方记录
+    const regex = new RegExp(condition.name_matches, 'i');
+    if (regex.test(torrent.name)) {
+      return { matched: true, reasons: [`名称匹配 /${condition.name_matches}/i`] };
+    }
+    reasons.push(`名称不匹配 /${condition.name_matches}/i`);
+  }
+  return { matched: false, reasons };
+}
+
+function checkRange(
+  label: string,
+  value: number,
+  min: number | undefined,
+  max: number | undefined,
+  unit = ''
+): ConditionMatchResult | null {
+  if (min === undefined && max === undefined) return null;
+  const display = `${Number.isInteger(value) ? value : value.toFixed(2)}${unit}`;
+  if (min !== undefined && value < min) {
+    return { matched: false, reasons: [`${label} ${display} < ${min}${unit}`] };
+  }
+  if (max !== undefined && value > max) {
+    return { matched: false, reasons: [`${label} ${display} > ${max}${unit}`] };
+  }
+  const bounds = [min !== undefined ? `>= ${min}` : '', max !== undefined ? `<= ${max}` : '']
+    .filter(Boolean)
+    .join(' 且 ');
+  return { matched: true, reasons: [`${label} ${display} ${bounds}${unit}`] };
+}
+
+/**
+ * 判断一个条件对象是否匹配种子。
+ * 对象内的各组条件 (旧版条件组、组合条件、其他匹配项) 之间为 "且" 关系。
+ */
+export async function matchCondition(
+  condition: IArchivingRuleCondition,
+  ctx: RuleMatchContext
+): Promise<ConditionMatchResult> {
+  const { torrent, now } = ctx;
+  const parts: ConditionMatchResult[] = [];
+
+  const legacy = matchLegacyGroup(condition, torrent);
+  if (legacy) parts.push(legacy);
+
+  if (condition.all) {
+    const results: ConditionMatchResult[] = [];
+    for (const sub of condition.all) {
+      const result = await matchCondition(sub, ctx);
+      results.push(result);
+      if (!result.matched) break;
+    }
+    const matched = results.every((r) => r.matched);
+    parts.push({
+      matched,
+      reasons: [`all(${results.flatMap((r) => r.reasons).join('; ')})`],
+    });
+  }
+  if (condition.any) {
+    const results: ConditionMatchResult[] = [];
+    for (const sub of condition.any) {
+      const result = await matchCondition(sub, ctx);
+      results.push(result);
+      if (result.matched) break;
+    }
+    const matched = results.some((r) => r.matched);
+    parts.push({
+      matched,
+      reasons: [`any(${results.flatMap((r) => r.reasons).join('; ')})`],
+    });
+  }
+  if (condition.not) {
+    const result = await matchCondition(condition.not, ctx);
+    parts.push({ matched: !result.matched, reasons: [`not(${result.reasons.join('; ')})`] });
+  }
+
+  const sizeResult = checkRange('大小', torrent.size, condition.minSize, condition.maxSize, 'B');
+  if (sizeResult) parts.push(sizeResult);
+
+  if (condition.tracker) {
+    const host = trackerHost(torrent.tracker);
+    const domains = toArray(condition.tracker).map((d) => d.toLowerCase());
+    const hit = host ? domains.find((d) => host === d || host.endsWith(`.${d}`)) : undefined;
+    parts.push(
+      hit
+        ? { matched: true, reasons: [`tracker "${host}" 属于 "${hit}"`] }
+        : {
+            matched: false,
+            reasons: [`tracker "${host ?? '无'}" 不属于 [${domains.join(', ')}]`],
+          }
+    );
+  }
+
+  if (condition.save_path_matches) {
+    const regex = new RegExp(condition.save_path_matches, 'i');
+    const matched = regex.test(torrent.save_path);
+    parts.push({
+      matched,
+      reasons: [
+        `保存路径 "${torrent.save_path}" ${matched ? '匹配' : '不匹配'} /${condition.save_path_matches}/i`,
+      ],
+    });
+  }
+
+  const addedAgeDays = (now.getTime() - torrent.added_on * 1000) / DAY_MS;
+  const addedResult = checkRange(
+    '添加天数',
+    addedAgeDays,
+    condition.minAddedAgeDays,
+    condition.maxAddedAgeDays
+  );
+  if (addedResult) parts.push(addedResult);
+
+  if (condition.minCompletedAgeDays !== undefined || condition.maxCompletedAgeDays !== undefined) {
+    if (torrent.completion_on > 0) {
+      const completedAgeDays = (now.getTime() - torrent.completion_on * 1000) / DAY_MS;
+      parts.push(
+        checkRange(
+          '完成天数',
+          completedAgeDays,
+          condition.minCompletedAgeDays,
+          condition.maxCompletedAgeDays
+        )!
+      );
+    } else {
+      parts.push({ matched: false, reasons: ['种子没有完成时间'] });
+    }
+  }
+
+  const ratioResult = checkRange('分享率', torrent.ratio, condition.minRatio, condition.maxRatio);
+  if (ratioResult) parts.push(ratioResult);
+
+  // 获取文件列表需要额外请求 qB API，仅在其他条件都已满足时才检查
+  if (condition.file_extensions && parts.every((part) => part.matched)) {
+    const wanted = toArray(condition.file_extensions).map(normalizeExtension);
+    const fileNames = await ctx.getFileNames();
+    const hitFile = fileNames.find((name) =>
+      wanted.includes(normalizeExtension(path.extname(name)))
+    );
+    parts.push(
+      hitFile
+        ? { matched: true, reasons: [`包含扩展名匹配的文件 "${hitFile}"`] }
+        : { matched: false, reasons: [`没有扩展名为 [${wanted.join(', ')}] 的文件`] }
+    );
+  }
+
+  if (parts.length === 0) {
+    return { matched: false, reasons: ['空条件'] };
+  }
+  return {
+    matched: parts.every((part) => part.matched),
+    reasons: parts.flatMap((part) => part.reasons),
+  };
+}
+
+/**
+ * 按顺序查找第一条匹配的归档规则；没有命中时返回默认规则 (如果存在)。
+ * 条件中的无效正则表达式会使该规则被跳过，并通过 onRuleError 回调报告。
+ */
+export async function findMatchingRule(
+  rules: IArchivingRule[],
+  ctx: RuleMatchContext,
+  onRuleError?: (rule: IArchivingRule, index: number, error: unknown) => void
+): Promise<RuleMatchResult> {
+  let defaultRuleIndex: number | undefined;
+  for (const [index, rule] of rules.entries()) {
+    if (rule.if === 'default') {
+      defaultRuleIndex = index; // 与旧版行为一致: 多条默认规则时以最后一条为准
+      continue;
+    }
+    try {
+      const result = await matchCondition(rule.if, ctx);
+      if (result.matched) {
+        return { rule, ruleIndex: index, isDefault: false, reasons: result.reasons };
+      }
+    } catch (error) {
+      onRuleError?.(rule, index, error);
+    }
+  }
+  if (defaultRuleIndex !== undefined) {
+    return {
+      rule: rules[defaultRuleIndex],
+      ruleIndex: defaultRuleIndex,
+      isDefault: true,
+      reasons: ['没有规则匹配，使用默认规则'],
+    };
+  }
+  return { isDefault: false, reasons: ['没有规则匹配，也没有默认规则'] };
+}
+
+/**
+ * 查找匹配的规则并渲染其路径模板，得到种子的远程相对路径。
+ * 没有规则匹配且没有默认规则时，使用 FALLBACK_REMOTE_PATH_TEMPLATE。
+ */
+export async function resolveRemotePath(
+  rules: IArchivingRule[],
+  ctx: RuleMatchContext,
+  sanitizeMode: PathSanitizeMode,
+  onRuleError?: (rule: IArchivingRule, index: number, error: unknown) => void
+): Promise<RemotePathResolution> {
+  const match = await findMatchingRule(rules, ctx, onRuleError);
+  const template = match.rule ? match.rule.then.remotePath : FALLBACK_REMOTE_PATH_TEMPLATE;
+  const relativePath = renderPathTemplate(
+    template,
+    buildTemplateVariables(ctx.torrent),
+    sanitizeMode
+  );
+  return { match, template, relativePath };
+}
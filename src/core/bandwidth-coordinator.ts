@@ -0,0 +1,182 @@
+// src/core/bandwidth-coordinator.ts
+import crypto from 'node:crypto';
+import fs from 'node:fs/promises';
+import net from 'node:net';
+import path from 'node:path';
+import axios from 'axios';
+import { Logger } from 'winston';
+import { IBandwidthScheduleEntry } from '../interfaces/config.types';
+import { formatBwlimitRate, getBandwidthLimitAt } from './bandwidth-schedule';
+
+// 有上传在运行时定期重新分配带宽，以跟上时间表的切换和其他进程中上传的开始/结束
+const REBALANCE_INTERVAL_MS = 60 * 1000;
+const RC_REQUEST_TIMEOUT_MS = 5 * 1000;
+
+// 登记目录中每个正在运行的上传对应的文件内容
+interface UploadRegistration {
+  pid: number; // 发起上传的本程序进程
+  port: number; // 该上传的 rclone 远程控制 (rc) 端口，只监听 127.0.0.1
+  user: string;
+  pass: string;
+}
+
+export interface BandwidthLease {
+  rate: string; // 登记时分到的速率 (--bwlimit 的值，如 "2.5M" 或 "off")，之后可能通过 rc 调整
+  flags: string[]; // 追加到 rclone 上传命令的参数 (初始速率与 rc 监听地址)
+  env: Record<string, string>; // rc 认证信息通过环境变量传给 rclone，避免出现在进程参数中
+  release: () => Promise<void>; // 上传结束后调用，剩余上传重新平分带宽
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+function findFreePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as net.AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+/**
+ * 在实际运行的上传之间平分带宽时间表的限制。
+ * 每个上传的 rclone 都开启只监听本机的 rc，并在共享的登记目录中登记；上传开始、结束以及每分钟，
+ * 按当前时段的限制除以登记中的上传数，通过 rc 的 core/bwlimit 更新所有上传的速率。
+ * 守护进程与 run-once 使用同一个登记目录时共享同一份带宽。
+ */
+export class BandwidthCoordinator {
+  private leases = new Set<string>();
+  private rebalanceTimer?: NodeJS.Timeout;
+
+  constructor(
+    private schedule: IBandwidthScheduleEntry[],
+    private stateDir: string, // 登记目录，文件中含 rc 认证信息，只允许当前用户访问
+    private logger: Logger
+  ) {}
+
+  /**
+   * 为即将启动的上传登记一个带宽份额，并立即把其他上传的速率调低。
+   */
+  public async acquire(): Promise<BandwidthLease> {
+    await fs.mkdir(this.stateDir, { recursive: true, mode: 0o700 });
+    const registration: UploadRegistration = {
+      pid: process.pid,
+      port: await findFreePort(),
+      user: 'qbcs',
+      pass: crypto.randomBytes(18).toString('base64url'),
+    };
+    const fileName = `${registration.pid}-${registration.port}.json`;
+    await fs.writeFile(path.join(this.stateDir, fileName), JSON.stringify(registration), {
+      mode: 0o600,
+    });
+    this.leases.add(fileName);
+    this.startRebalanceTimer();
+
+    const registrations = await this.readRegistrations();
+    const rate = formatBwlimitRate(getBandwidthLimitAt(this.schedule), registrations.length);
+    this.logger.debug(`带宽份额: 当前 ${registrations.length} 个上传，每个上传 ${rate}`);
+    await this.applyRate(
+      registrations.filter((entry) => entry.port !== registration.port),
+      rate
+    );
+
+    let released = false;
+    return {
+      rate,
+      flags: ['--bwlimit', rate, '--rc', '--rc-addr', `127.0.0.1:${registration.port}`],
+      env: { RCLONE_RC_USER: registration.user, RCLONE_RC_PASS: registration.pass },
+      release: async () => {
+        if (released) return;
+        released = true;
+        this.leases.delete(fileName);
+        if (this.leases.size === 0) this.stopRebalanceTimer();
+        await fs.rm(path.join(this.stateDir, fileName), { force: true });
+        await this.rebalance();
+      },
+    };
+  }
+
+  /**
+   * 按当前时段的限制与登记的上传数重新设置所有上传的速率。不会抛出异常。
+   */
+  public async rebalance(): Promise<void> {
+    try {
+      const registrations = await this.readRegistrations();
+      if (registrations.length === 0) return;
+      const rate = formatBwlimitRate(getBandwidthLimitAt(this.schedule), registrations.length);
+      this.logger.debug(`带宽份额: 当前 ${registrations.length} 个上传，每个上传 ${rate}`);
+      await this.applyRate(registrations, rate);
+    } catch (error) {
+      this.logger.warn(`重新分配上传带宽失败: ${(error as Error).message}`);
+    }
+  }
+
+  private async readRegistrations(): Promise<UploadRegistration[]> {
+    let fileNames: string[];
+    try {
+      fileNames = await fs.readdir(this.stateDir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+    const registrations: UploadRegistration[] = [];
+    for (const fileName of fileNames.filter((name) => name.endsWith('.json'))) {
+      const filePath = path.join(this.stateDir, fileName);
+      let registration: UploadRegistration;
+      try {
+        registration = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+      } catch {
+        continue; // 正在写入或已被删除
+      }
+      // 进程异常退出时留下的登记不再占用份额
+      if (!isProcessAlive(registration.pid)) {
+        await fs.rm(filePath, { force: true });
+        continue;
+      }
+      registrations.push(registration);
+    }
+    return registrations;
+  }
+
+  private async applyRate(registrations: UploadRegistration[], rate: string): Promise<void> {
+    await Promise.all(
+      registrations.map(async (registration) => {
+        try {
+          await axios.post(
+            `http://127.0.0.1:${registration.port}/core/bwlimit`,
+            { rate },
+            {
+              auth: { username: registration.user, password: registration.pass },
+              timeout: RC_REQUEST_TIMEOUT_MS,
+            }
+          );
+        } catch (error) {
+          // rclone 可能尚未开始监听或刚刚退出，下一次重新分配时会再次设置
+          this.logger.debug(
+            `无法通过 rc (端口 ${registration.port}) 设置上传速率: ${(error as Error).message}`
+          );
+        }
+      })
+    );
+  }
+
+  private startRebalanceTimer(): void {
+    if (this.rebalanceTimer) return;
+    this.rebalanceTimer = setInterval(() => void this.rebalance(), REBALANCE_INTERVAL_MS);
+    this.rebalanceTimer.unref();
+  }
+
+  private stopRebalanceTimer(): void {
+    if (this.rebalanceTimer) clearInterval(this.rebalanceTimer);
+    this.rebalanceTimer = undefined;
+  }
+}
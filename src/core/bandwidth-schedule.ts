@@ -0,0 +1,143 @@
+// src/core/bandwidth-schedule.ts
+import { IBandwidthScheduleEntry } from '../interfaces/config.types';
+
+// rclone 时间表使用的星期缩写，下标与 Date.getDay() 一致
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const RATE_UNITS: Record<string, number> = {
+  B: 1,
+  K: 1024,
+  M: 1024 ** 2,
+  G: 1024 ** 3,
+  T: 1024 ** 4,
+};
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * 解析单个速率 (如 512K、2M、off)，返回 Bytes/s，null 表示不限速。格式错误时抛出异常。
+ */
+export function parseBandwidthRate(value: string, source: string = value): number | null {
+  if (value.toLowerCase() === 'off') return null;
+  const match = value.match(/^(\d+(?:\.\d+)?)([BKMGT])?$/i);
+  if (!match) {
+    throw new Error(
+      `Invalid bandwidth rate "${value}" in "${source}". Expected e.g. 512K, 2M or off.`
+    );
+  }
+  const bytesPerSecond = Math.floor(Number(match[1]) * RATE_UNITS[(match[2] || 'K').toUpperCase()]);
+  // rclone 把 0 视为不限速
+  return bytesPerSecond > 0 ? bytesPerSecond : null;
+}
+
+function slotKey(entry: IBandwidthScheduleEntry): number {
+  return (entry.day ?? 0) * MINUTES_PER_DAY + entry.minuteOfDay;
+}
+
+/**
+ * 解析 rclone --bwlimit 格式的带宽设置: 单个速率 (如 "2M"，全天生效)、
+ * 每日时间表 (如 "08:00,2M 23:00,off") 或每周时间表 (如 "Mon-08:00,2M Sat-00:00,off")。
+ * 速率默认单位为 KiB/s，可用 B/K/M/G/T 后缀，off 表示不限速。格式错误时抛出异常。
+ */
+export function parseBandwidthSchedule(value: string): IBandwidthScheduleEntry[] {
+  const tokens = value.trim().split(/\s+/).filter(Boolean);
+  if (tokens.length === 0) return [];
+  if (tokens.length === 1 && !tokens[0].includes(',')) {
+    return [{ minuteOfDay: 0, bytesPerSecond: parseBandwidthRate(tokens[0], value) }];
+  }
+  const entries = tokens.map((token): IBandwidthScheduleEntry => {
+    const match = token.match(/^(?:([a-z]{3})-)?(\d{1,2}):(\d{2}),(\S+)$/i);
+    const day = match?.[1]
+      ? WEEKDAYS.findIndex((name) => name.toLowerCase() === match[1].toLowerCase())
+      : undefined;
+    const hours = Number(match?.[2]);
+    const minutes = Number(match?.[3]);
+    if (!match || day === -1 || hours > 23 || minutes > 59) {
+      throw new Error(
+        `Invalid bandwidth timetable entry "${token}". Expected [Day-]HH:MM,RATE, e.g. 08:00,2M or Mon-23:00,off.`
+      );
+    }
+    return {
+      day,
+      minuteOfDay: hours * 60 + minutes,
+      bytesPerSecond: parseBandwidthRate(match[4], value),
+    };
+  });
+  const weekly = entries.filter((entry) => entry.day !== undefined).length;
+  if (weekly !== 0 && weekly !== entries.length) {
+    throw new Error(
+      `Bandwidth timetable "${value}" mixes daily (HH:MM) and weekly (Day-HH:MM) entries.`
+    );
+  }
+  entries.sort((a, b) => slotKey(a) - slotKey(b));
+  for (let i = 1; i < entries.length; i++) {
+    if (slotKey(entries[i]) === slotKey(entries[i - 1])) {
+      throw new Error(`Bandwidth timetable "${value}" has more than one entry for the same time.`);
+    }
+  }
+  return entries;
+}
+
+/**
+ * 时间表在指定时刻生效的速率 (Bytes/s)，null 表示不限速。
+ * 早于第一项的时刻沿用上一周期 (前一天或上一周) 的最后一项。
+ */
+export function getBandwidthLimitAt(
+  schedule: IBandwidthScheduleEntry[],
+  date: Date = new Date()
+): number | null {
+  if (schedule.length === 0) return null;
+  const weekly = schedule[0].day !== undefined;
+  const now =
+    (weekly ? date.getDay() * MINUTES_PER_DAY : 0) + date.getHours() * 60 + date.getMinutes();
+  let active = schedule[schedule.length - 1];
+  for (const entry of schedule) {
+    if (slotKey(entry) <= now) active = entry;
+  }
+  return active.bytesPerSecond;
+}
+
+/**
+ * 把速率平分为 shares 份后格式化为 rclone 的速率写法 (KiB/s)，null 表示不限速 (off)。
+ */
+export function formatBwlimitRate(bytesPerSecond: number | null, shares = 1): string {
+  return bytesPerSecond === null
+    ? 'off'
+    : `${Math.max(1, Math.floor(bytesPerSecond / Math.max(1, shares) / 1024))}K`;
+}
+
+/**
+ * 生成 rclone --bwlimit 时间表参数，每一项的速率都除以 shares；不限速的项保持 off。
+ */
+export function formatBwlimitTimetable(schedule: IBandwidthScheduleEntry[], shares = 1): string {
+  const formatRate = (bytesPerSecond: number | null) => formatBwlimitRate(bytesPerSecond, shares);
+  const [first] = schedule;
+  if (schedule.length === 1 && first.day === undefined && first.minuteOfDay === 0) {
+    return formatRate(first.bytesPerSecond);
+  }
+  return schedule
+    .map((entry) => {
+      const hours = String(Math.floor(entry.minuteOfDay / 60)).padStart(2, '0');
+      const minutes = String(entry.minuteOfDay % 60).padStart(2, '0');
+      const day = entry.day !== undefined ? `${WEEKDAYS[entry.day]}-` : '';
+      return `${day}${hours}:${minutes},${formatRate(entry.bytesPerSecond)}`;
+    })
+    .join(' ');
+}
+
+/**
+ * 根据上传大小估算上传超时: 按最坏情况下单个上传分到的速率 (时间表中最低的限速除以 shares，
+ * 且不高于 minBytesPerSecond) 计算传输时间，再加上 baseMs 作为启动与重试的余量。
+ */
+export function estimateUploadTimeoutMs(
+  sizeBytes: number,
+  schedule: IBandwidthScheduleEntry[],
+  shares: number,
+  minBytesPerSecond: number,
+  baseMs = 30 * 60 * 1000
+): number {
+  const limits = schedule
+    .map((entry) => entry.bytesPerSecond)
+    .filter((rate): rate is number => rate !== null);
+  const slowest = limits.length > 0 ? Math.min(...limits) / Math.max(1, shares) : Infinity;
+  const bytesPerSecond = Math.max(1, Math.min(minBytesPerSecond, slowest));
+  return baseMs + Math.ceil((Math.max(0, sizeBytes) / bytesPerSecond) * 1000);
+}
@@ -0,0 +1,151 @@
+// src/core/checksum-manifest.ts
+import { createHash } from 'node:crypto';
+import { createReadStream } from 'node:fs';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { PrismaClient, TorrentTask } from '@prisma/client';
+
+// 上传到远程的清单文件名。内容为目录时放在目录内，单个文件时放在文件旁 (<文件名>.qbcs-manifest.json)
+export const MANIFEST_FILE_NAME = '.qbcs-manifest.json';
+
+// 清单中的一个文件: 相对于上传内容根目录的路径 (以 "/" 分隔)、大小和 SHA-256
+export interface ManifestEntry {
+  relativePath: string;
+  size: number;
+  sha256: string;
+}
+
+async function hashFile(filePath: string): Promise<string> {
+  const hash = createHash('sha256');
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * 遍历本地内容，计算每个文件的大小和 SHA-256。
+ * localPath 为单个文件时，清单只有一项，相对路径为文件名。
+ */
+export async function buildLocalManifest(localPath: string): Promise<ManifestEntry[]> {
+  const stats = await fs.stat(localPath);
+  if (stats.isFile()) {
+    return [
+      {
+        relativePath: path.basename(localPath),
+        size: stats.size,
+        sha256: await hashFile(localPath),
+      },
+    ];
+  }
+  const entries: ManifestEntry[] = [];
+  const walk = async (dir: string): Promise<void> => {
+    const children = await fs.readdir(dir, { withFileTypes: true });
+    children.sort((a, b) => a.name.localeCompare(b.name));
+    for (const child of children) {
+      const childPath = path.join(dir, child.name);
+      if (child.isDirectory()) {
+        await walk(childPath);
+      } else if (child.isFile()) {
+        const { size } = await fs.stat(childPath);
+        entries.push({
+          relativePath: path.relative(localPath, childPath).split(path.sep).join('/'),
+          size,
+          sha256: await hashFile(childPath),
+        });
+      }
+    }
+  };
+  await walk(localPath);
+  return entries;
+}
+
+/**
+ * 判断清单是否对应单个文件 (而不是目录)。本地文件已删除时也能判断:
+ * 单个文件的清单只有一项，且相对路径就是本地路径的文件名。
+ */
+export function isSingleFileManifest(localPath: string, entries: ManifestEntry[]): boolean {
+  return entries.length === 1 && entries[0].relativePath === path.basename(localPath);
+}
+
+/**
+ * 生成 sha256sum 格式的校验文件内容，供 rclone checksum 使用。
+ */
+export function formatSha256SumFile(entries: ManifestEntry[]): string {
+  return entries.map((entry) => `${entry.sha256}  ${entry.relativePath}\n`).join('');
+}
+
+/**
+ * 远程清单文件的完整路径。
+ * @param remotePath 内容的完整远程路径 (remote:path)。
+ * @param isDirectory 上传的内容是否为目录。
+ */
+export function getRemoteManifestPath(remotePath: string, isDirectory: boolean): string {
+  return isDirectory
+    ? `${remotePath.replace(/\/$/, '')}/${MANIFEST_FILE_NAME}`
+    : `${remotePath}${MANIFEST_FILE_NAME}`;
+}
+
+/**
+ * 生成上传到远程的清单 JSON。
+ */
+export function renderManifestJson(task: TorrentTask, entries: ManifestEntry[]): string {
+  return JSON.stringify(
+    {
+      version: 1,
+      generator: 'qb-cloud-sync',
+      name: task.name,
+      hash: task.hash,
+      createdAt: (task.manifestBuiltAt ?? new Date()).toISOString(),
+      files: entries.map((entry) => ({
+        path: entry.relativePath,
+        size: entry.size,
+        sha256: entry.sha256,
+      })),
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * 保存任务的文件清单 (替换已有的清单)，并记录生成时间。
+ */
+export async function saveTaskManifest(
+  prisma: PrismaClient,
+  taskId: string,
+  entries: ManifestEntry[]
+): Promise<TorrentTask> {
+  const [, , task] = await prisma.$transaction([
+    prisma.taskManifestFile.deleteMany({ where: { taskId } }),
+    prisma.taskManifestFile.createMany({
+      data: entries.map((entry) => ({
+        taskId,
+        relativePath: entry.relativePath,
+        size: BigInt(entry.size),
+        sha256: entry.sha256,
+      })),
+    }),
+    prisma.torrentTask.update({ where: { id: taskId }, data: { manifestBuiltAt: new Date() } }),
+  ]);
+  return task;
+}
+
+/**
+ * 读取任务的文件清单，按相对路径排序。任务尚未生成清单时返回 null。
+ */
+export async function loadTaskManifest(
+  prisma: PrismaClient,
+  task: Pick<TorrentTask, 'id' | 'manifestBuiltAt'>
+): Promise<ManifestEntry[] | null> {
+  if (!task.manifestBuiltAt) return null;
+  const files = await prisma.taskManifestFile.findMany({
+    where: { taskId: task.id },
+    orderBy: [{ relativePath: 'asc' }],
+  });
+  return files.map((file) => ({
+    relativePath: file.relativePath,
+    size: Number(file.size),
+    sha256: file.sha256,
+  }));
+}
@@ -0,0 +1,315 @@
+// src/core/control-api.service.ts
+import http, { IncomingMessage, ServerResponse } from 'node:http';
+import crypto from 'node:crypto';
+import { DryRunPlan, Prisma, PrismaClient, TaskStatus, TorrentTask } from '@prisma/client';
+import { Logger } from 'winston';
+import { IControlApiConfig } from '../interfaces/config.types';
+import { TaskActionResult, TaskProcessorService } from './task-processor.service';
+import { getTaskSummary } from './task-stats';
+import { listTaskEvents } from './task-events';
+import { metricsRegistry, refreshTaskStatusMetrics } from './metrics';
+import { renderDashboardPage } from './dashboard-page';
+
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 500;
+
+// 请求处理中可直接转换为 HTTP 响应的错误
+class HttpError extends Error {
+  constructor(
+    public statusCode: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * 本地 HTTP 控制 API: 查询任务、重试/跳过任务、重新计算远程路径、立即触发轮询。
+ * 同时在 / 提供网页仪表盘，在 /metrics 提供 Prometheus 指标。所有 /api 请求都需要 Bearer Token；
+ * 仪表盘页面与 /metrics 有意不做认证: 页面是不含数据的静态 HTML，数据都通过 /api 获取，
+ * 指标只包含计数与耗时，这样 Prometheus 抓取时无需配置 Token。
+ */
+export class ControlApiService {
+  private server?: http.Server;
+
+  constructor(
+    private config: IControlApiConfig,
+    private prisma: PrismaClient,
+    private taskProcessor: TaskProcessorService,
+    private logger: Logger
+  ) {}
+
+  public async start(): Promise<void> {
+    if (this.server) return;
+    const server = http.createServer((req, res) => {
+      void this.handleRequest(req, res);
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.config.port, this.config.host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    this.server = server;
+    this.logger.info(`控制 API 已启动，监听 http://${this.config.host}:${this.config.port}`);
+  }
+
+  public async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = undefined;
+    const closed = new Promise<void>((resolve) => server.close(() => resolve()));
+    server.closeAllConnections();
+    await closed;
+    this.logger.info('控制 API 已停止。');
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const method = req.method || 'GET';
+    const url = new URL(req.url || '/', 'http://localhost');
+    try {
+      // 仪表盘页面本身不含数据，无需认证；页面中的脚本会带上 Token 调用 /api
+      if (url.pathname === '/' || url.pathname === '/dashboard') {
+        this.assertMethod(method, 'GET');
+        this.sendHtml(res, renderDashboardPage());
+        return;
+      }
+      // Prometheus 指标只包含计数与耗时，不含种子名称等信息，同样无需认证
+      if (url.pathname === '/metrics') {
+        this.assertMethod(method, 'GET');
+        await refreshTaskStatusMetrics(this.prisma);
+        res.writeHead(200, { 'Content-Type': metricsRegistry.contentType });
+        res.end(await metricsRegistry.metrics());
+        return;
+      }
+      if (!url.pathname.startsWith('/api/')) {
+        throw new HttpError(404, 'Not found');
+      }
+      if (!this.isAuthorized(req)) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        throw new HttpError(401, 'Unauthorized');
+      }
+      this.logger.debug(`控制 API 请求: ${method} ${url.pathname}${url.search}`);
+      const body = await this.route(method, url);
+      this.sendJson(res, 200, body);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        this.sendJson(res, error.statusCode, { error: error.message });
+        return;
+      }
+      this.logger.error(`控制 API 处理 ${method} ${url.pathname} 时出错:`, error);
+      this.sendJson(res, 500, { error: 'Internal server error' });
+    }
+  }
+
+  private async route(method: string, url: URL): Promise<unknown> {
+    const path = url.pathname.replace(/\/+$/, '');
+
+    if (path === '/api/tasks') {
+      this.assertMethod(method, 'GET');
+      return this.listTasks(url.searchParams);
+    }
+    if (path === '/api/summary') {
+      this.assertMethod(method, 'GET');
+      return getTaskSummary(this.prisma);
+    }
+    if (path === '/api/dry-run-plans') {
+      this.assertMethod(method, 'GET');
+      return this.listDryRunPlans(url.searchParams);
+    }
+    if (path === '/api/poll') {
+      this.assertMethod(method, 'POST');
+      return this.toActionResponse(this.taskProcessor.triggerPoll());
+    }
+
+    // 供 qB 的 "Torrent 完成时运行外部程序" 调用: 立即获取并处理该种子
+    const enqueueMatch = path.match(/^\/api\/torrents\/([^/]+)\/enqueue$/);
+    if (enqueueMatch) {
+      this.assertMethod(method, 'POST');
+      const hash = this.decodePathSegment(enqueueMatch[1]);
+      if (!/^([0-9a-f]{40}|[0-9a-f]{64})$/i.test(hash)) {
+        throw new HttpError(400, `Invalid torrent hash: ${hash}`);
+      }
+      const instance = url.searchParams.get('instance') || undefined;
+      return this.toActionResponse(await this.taskProcessor.enqueueTorrent(hash, instance));
+    }
+
+    const taskMatch = path.match(/^\/api\/tasks\/([^/]+)(?:\/([a-z-]+))?$/);
+    if (taskMatch) {
+      const task = await this.findTask(this.decodePathSegment(taskMatch[1]));
+      const action = taskMatch[2];
+      if (!action) {
+        this.assertMethod(method, 'GET');
+        return {
+          task,
+          active: this.taskProcessor.isTaskActive(task.id),
+          destinations: await this.prisma.taskDestination.findMany({
+            where: { taskId: task.id },
+            orderBy: [{ createdAt: 'asc' }],
+          }),
+          events: await listTaskEvents(this.prisma, task.id),
+        };
+      }
+      this.assertMethod(method, 'POST');
+      switch (action) {
+        case 'retry':
+          return this.toActionResponse(await this.taskProcessor.retryTask(task.id));
+        case 'skip':
+          return this.toActionResponse(await this.taskProcessor.skipTask(task.id));
+        case 'recalculate-path':
+          return this.toActionResponse(await this.taskProcessor.recalculateTaskRemotePath(task.id));
+      }
+    }
+    throw new HttpError(404, 'Not found');
+  }
+
+  private async listTasks(
+    params: URLSearchParams
+  ): Promise<{ total: number; limit: number; offset: number; tasks: TorrentTask[] }> {
+    const where: Prisma.TorrentTaskWhereInput = {};
+    const statusParam = params.get('status');
+    if (statusParam) {
+      const statuses = statusParam
+        .split(',')
+        .map((status) => status.trim().toUpperCase())
+        .filter((status) => status !== '');
+      const unknown = statuses.filter((status) => !(status in TaskStatus));
+      if (unknown.length > 0) {
+        throw new HttpError(400, `Unknown status: ${unknown.join(', ')}`);
+      }
+      where.status = { in: statuses as TaskStatus[] };
+    }
+    const query = params.get('q');
+    if (query) {
+      where.name = { contains: query };
+    }
+    const instance = params.get('instance');
+    if (instance) {
+      where.instance = instance;
+    }
+    const limit = Math.min(
+      this.parseNonNegativeInt(params, 'limit', DEFAULT_LIST_LIMIT),
+      MAX_LIST_LIMIT
+    );
+    const offset = this.parseNonNegativeInt(params, 'offset', 0);
+
+    const [total, tasks] = await Promise.all([
+      this.prisma.torrentTask.count({ where }),
+      this.prisma.torrentTask.findMany({
+        where,
+        orderBy: [{ createdAt: 'desc' }],
+        take: limit,
+        skip: offset,
+      }),
+    ]);
+    return { total, limit, offset, tasks };
+  }
+
+  private async listDryRunPlans(params: URLSearchParams): Promise<{
+    total: number;
+    limit: number;
+    offset: number;
+    plans: (Omit<DryRunPlan, 'actions'> & { actions: string[] })[];
+  }> {
+    const where: Prisma.DryRunPlanWhereInput = {};
+    const eligible = params.get('eligible');
+    if (eligible === 'true' || eligible === 'false') {
+      where.eligible = eligible === 'true';
+    }
+    const instance = params.get('instance');
+    if (instance) {
+      where.instance = instance;
+    }
+    const limit = Math.min(
+      this.parseNonNegativeInt(params, 'limit', DEFAULT_LIST_LIMIT),
+      MAX_LIST_LIMIT
+    );
+    const offset = this.parseNonNegativeInt(params, 'offset', 0);
+    const [total, plans] = await Promise.all([
+      this.prisma.dryRunPlan.count({ where }),
+      this.prisma.dryRunPlan.findMany({
+        where,
+        orderBy: [{ eligible: 'desc' }, { name: 'asc' }],
+        take: limit,
+        skip: offset,
+      }),
+    ]);
+    return {
+      total,
+      limit,
+      offset,
+      plans: plans.map((plan) => ({ ...plan, actions: JSON.parse(plan.actions) as string[] })),
+    };
+  }
+
+  // 路径中的百分号编码无效 (如 "%E0") 时属于请求错误，而不是服务器内部错误
+  private decodePathSegment(segment: string): string {
+    try {
+      return decodeURIComponent(segment);
+    } catch {
+      throw new HttpError(400, `Invalid percent-encoding in path: ${segment}`);
+    }
+  }
+
+  private parseNonNegativeInt(params: URLSearchParams, key: string, defaultValue: number): number {
+    const raw = params.get(key);
+    if (raw === null || raw === '') return defaultValue;
+    const parsed = Number(raw);
+    if (!Number.isInteger(parsed) || parsed < 0) {
+      throw new HttpError(400, `Invalid ${key}: ${raw}`);
+    }
+    return parsed;
+  }
+
+  // 支持按任务 ID 或种子哈希查找
+  private async findTask(idOrHash: string): Promise<TorrentTask> {
+    const task = await this.taskProcessor.resolveTask(idOrHash);
+    if (!task) {
+      throw new HttpError(404, `Task not found: ${idOrHash}`);
+    }
+    return task;
+  }
+
+  private toActionResponse(result: TaskActionResult): TaskActionResult {
+    if (result.notFound) throw new HttpError(404, result.message);
+    if (!result.success) throw new HttpError(409, result.message);
+    return result;
+  }
+
+  private assertMethod(actual: string, expected: string): void {
+    if (actual !== expected) {
+      throw new HttpError(405, `Method ${actual} not allowed, use ${expected}`);
+    }
+  }
+
+  private isAuthorized(req: IncomingMessage): boolean {
+    const header = req.headers.authorization || '';
+    const match = header.match(/^Bearer\s+(.+)$/i);
+    if (!match || !this.config.token) return false;
+    // 比较哈希值以获得等长的缓冲区，避免通过响应时间推断 Token
+    const provided = crypto.createHash('sha256').update(match[1].trim()).digest();
+    const expected = crypto.createHash('sha256').update(this.config.token).digest();
+    return crypto.timingSafeEqual(provided, expected);
+  }
+
+  private sendHtml(res: ServerResponse, html: string): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Cache-Control': 'no-store',
+    });
+    res.end(html);
+  }
+
+  private sendJson(res: ServerResponse, statusCode: number, body: unknown): void {
+    const payload = JSON.stringify(body, (_key, value: unknown) =>
+      typeof value === 'bigint' ? Number(value) : value
+    );
+    res.writeHead(statusCode, {
+      'Content-Type': 'application/json; charset=utf-8',
+      'Cache-Control': 'no-store',
+    });
+    res.end(payload);
+  }
+}
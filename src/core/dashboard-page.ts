@@ -0,0 +1,254 @@
+// src/core/dashboard-page.ts
+
+// 仪表盘页面: 纯静态 HTML，本身不包含任何任务数据。
+// 页面脚本使用用户输入的 Token (保存在浏览器 localStorage 中) 调用 /api 接口获取数据。
+// 注意: 页面脚本中不要使用反引号和 ${}，以免与外层模板字符串冲突。
+const DASHBOARD_HTML = `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>qb-cloud-sync</title>
+<style>
+  body { font-family: -apple-system, "Segoe UI", "PingFang SC", "Microsoft YaHei", sans-serif; margin: 0; background: #f5f6f8; color: #222; }
+  header { background: #263238; color: #fff; padding: 10px 20px; display: flex; align-items: center; gap: 12px; flex-wrap: wrap; }
+  header h1 { font-size: 18px; margin: 0 auto 0 0; }
+  header input { padding: 4px 6px; }
+  main { padding: 16px 20px; max-width: 1400px; margin: 0 auto; }
+  section { background: #fff; border-radius: 6px; padding: 12px 16px; margin-bottom: 16px; box-shadow: 0 1px 2px rgba(0,0,0,.08); }
+  h2 { font-size: 15px; margin: 0 0 10px; }
+  .cards { display: flex; flex-wrap: wrap; gap: 8px; }
+  .card { border: 1px solid #e0e0e0; border-radius: 4px; padding: 6px 10px; min-width: 120px; cursor: pointer; }
+  .card .count { font-size: 20px; font-weight: bold; }
+  .card .label { font-size: 11px; color: #666; }
+  .card.zero { opacity: .45; }
+  .card.failed .count { color: #c62828; }
+  table { border-collapse: collapse; width: 100%; font-size: 13px; }
+  th, td { text-align: left; padding: 5px 6px; border-bottom: 1px solid #eee; vertical-align: top; }
+  th { color: #555; font-weight: 600; }
+  td.name { max-width: 420px; word-break: break-all; }
+  td.error { color: #c62828; max-width: 480px; word-break: break-all; white-space: pre-wrap; }
+  .bar { background: #e3e7ea; border-radius: 3px; height: 10px; width: 160px; overflow: hidden; }
+  .bar > div { background: #43a047; height: 100%; }
+  .throughput .bar > div { background: #1e88e5; }
+  button { font-size: 12px; padding: 2px 8px; margin-right: 4px; cursor: pointer; }
+  .muted { color: #888; }
+  #message { margin-left: 8px; font-size: 13px; }
+  .toolbar { display: flex; gap: 8px; align-items: center; margin-bottom: 8px; flex-wrap: wrap; }
+</style>
+</head>
+<body>
+<header>
+  <h1>qb-cloud-sync</h1>
+  <span id="message" class="muted"></span>
+  <input id="token" type="password" placeholder="API Token" size="24">
+  <button id="save-token">保存 Token</button>
+  <button id="poll">立即轮询</button>
+</header>
+<main>
+  <section><h2>任务状态</h2><div id="status-cards" class="cards"></div></section>
+  <section><h2>正在上传</h2><div id="active-uploads"></div></section>
+  <section><h2>最近失败</h2><div id="recent-failures"></div></section>
+  <section class="throughput"><h2>每日上传吞吐量</h2><div id="throughput"></div></section>
+  <section>
+    <h2>任务列表</h2>
+    <div class="toolbar">
+      <select id="status-filter"><option value="">全部状态</option></select>
+      <input id="search" type="search" placeholder="按名称搜索">
+      <span id="task-total" class="muted"></span>
+    </div>
+    <div id="tasks"></div>
+  </section>
+</main>
+<script>
+(function () {
+  var REFRESH_MS = 5000;
+  var FAILED = ['UPLOAD_FAILED', 'VERIFICATION_FAILED', 'DELETE_LOCAL_FAILED', 'DELETE_QB_TASK_FAILED', 'ERROR', 'REMOTE_AUDIT_FAILED'];
+  var tokenInput = document.getElementById('token');
+  var statusFilter = document.getElementById('status-filter');
+  var searchInput = document.getElementById('search');
+  tokenInput.value = localStorage.getItem('qbCloudSyncToken') || '';
+
+  function h(tag, attrs, children) {
+    var node = document.createElement(tag);
+    Object.keys(attrs || {}).forEach(function (key) {
+      if (key === 'onclick') node.onclick = attrs[key];
+      else if (key === 'style') node.style.cssText = attrs[key];
+      else node.setAttribute(key, attrs[key]);
+    });
+    (children || []).forEach(function (child) {
+      if (child === null || child === undefined) return;
+      node.appendChild(typeof child === 'string' || typeof child === 'number' ? document.createTextNode(String(child)) : child);
+    });
+    return node;
+  }
+
+  function formatBytes(bytes) {
+    if (bytes === null || bytes === undefined) return '-';
+    var units = ['B', 'KB', 'MB', 'GB', 'TB'];
+    var value = Number(bytes);
+    var i = 0;
+    while (value >= 1024 && i < units.length - 1) { value /= 1024; i++; }
+    return value.toFixed(i === 0 ? 0 : 2) + ' ' + units[i];
+  }
+
+  function formatDuration(seconds) {
+    if (seconds === null || seconds === undefined) return '-';
+    seconds = Math.round(seconds);
+    var hh = Math.floor(seconds / 3600), mm = Math.floor((seconds % 3600) / 60), ss = seconds % 60;
+    return (hh > 0 ? hh + 'h ' : '') + (hh > 0 || mm > 0 ? mm + 'm ' : '') + ss + 's';
+  }
+
+  function formatTime(value) {
+    return value ? new Date(value).toLocaleString() : '-';
+  }
+
+  function setMessage(text, isError) {
+    var message = document.getElementById('message');
+    message.textContent = text;
+    message.style.color = isError ? '#ff8a80' : '#b0bec5';
+  }
+
+  function api(method, url) {
+    return fetch(url, { method: method, headers: { Authorization: 'Bearer ' + tokenInput.value } })
+      .then(function (res) {
+        return res.json().then(function (body) {
+          if (!res.ok) throw new Error(body.error || res.statusText);
+          return body;
+        });
+      });
+  }
+
+  function replace(id, node) {
+    var container = document.getElementById(id);
+    container.innerHTML = '';
+    container.appendChild(node);
+  }
+
+  function table(headers, rows, emptyText) {
+    if (rows.length === 0) return h('div', { class: 'muted' }, [emptyText]);
+    return h('table', {}, [
+      h('thead', {}, [h('tr', {}, headers.map(function (title) { return h('th', {}, [title]); }))]),
+      h('tbody', {}, rows)
+    ]);
+  }
+
+  function actionButtons(task) {
+    function run(action, label) {
+      return h('button', {
+        onclick: function () {
+          if (action === 'skip' && !confirm('确定跳过任务 "' + task.name + '" 吗？')) return;
+          api('POST', '/api/tasks/' + encodeURIComponent(task.id) + '/' + action)
+            .then(function (result) { setMessage(label + ': ' + result.message, false); refresh(); })
+            .catch(function (error) { setMessage(label + '失败: ' + error.message, true); });
+        }
+      }, [label]);
+    }
+    return h('td', {}, [run('retry', '重试'), run('skip', '跳过'), run('recalculate-path', '重算路径')]);
+  }
+
+  function renderSummary(summary) {
+    var cards = Object.keys(summary.statusCounts).map(function (status) {
+      var count = summary.statusCounts[status];
+      var cls = 'card' + (count === 0 ? ' zero' : '') + (FAILED.indexOf(status) >= 0 ? ' failed' : '');
+      return h('div', { class: cls, title: '点击筛选', onclick: function () { statusFilter.value = status; refreshTasks(); } }, [
+        h('div', { class: 'count' }, [count]),
+        h('div', { class: 'label' }, [status])
+      ]);
+    });
+    replace('status-cards', h('div', { class: 'cards' }, cards));
+
+    replace('active-uploads', table(['名称', '进度', '已传输', '速度', '剩余时间', '更新于'],
+      summary.activeUploads.map(function (task) {
+        var percent = task.uploadProgressPercent || 0;
+        return h('tr', {}, [
+          h('td', { class: 'name' }, [task.name]),
+          h('td', {}, [h('div', { class: 'bar', title: percent.toFixed(1) + '%' }, [h('div', { style: 'width:' + percent + '%' })]), percent.toFixed(1) + '%']),
+          h('td', {}, [formatBytes(task.uploadBytesTransferred) + ' / ' + formatBytes(task.uploadBytesTotal || task.uploadSize)]),
+          h('td', {}, [task.uploadSpeedBps ? formatBytes(task.uploadSpeedBps) + '/s' : '-']),
+          h('td', {}, [formatDuration(task.uploadEtaSeconds)]),
+          h('td', {}, [formatTime(task.uploadProgressAt)])
+        ]);
+      }), '当前没有正在上传的任务。'));
+
+    replace('recent-failures', table(['名称', '状态', '尝试次数 (上传/验证)', '错误信息', '下次重试', '操作'],
+      summary.recentFailures.map(function (task) {
+        return h('tr', {}, [
+          h('td', { class: 'name' }, [task.name]),
+          h('td', {}, [task.status]),
+          h('td', {}, [task.uploadAttempts + ' / ' + task.verificationAttempts]),
+          h('td', { class: 'error' }, [task.errorMessage || '-']),
+          h('td', {}, [task.status === 'ERROR' ? '不再自动重试' : formatTime(task.nextAttemptAt)]),
+          actionButtons(task)
+        ]);
+      }), '没有失败的任务。'));
+
+    var maxBytes = Math.max.apply(null, summary.dailyThroughput.map(function (day) { return day.bytes; }).concat([1]));
+    replace('throughput', table(['日期', '任务数', '上传量', '', '平均速度'],
+      summary.dailyThroughput.slice().reverse().map(function (day) {
+        return h('tr', {}, [
+          h('td', {}, [day.date]),
+          h('td', {}, [day.tasks]),
+          h('td', {}, [formatBytes(day.bytes)]),
+          h('td', {}, [h('div', { class: 'bar' }, [h('div', { style: 'width:' + (day.bytes / maxBytes * 100) + '%' })])]),
+          h('td', {}, [day.avgSpeedBps ? formatBytes(day.avgSpeedBps) + '/s' : '-'])
+        ]);
+      }), '暂无数据。'));
+
+    if (statusFilter.options.length === 1) {
+      Object.keys(summary.statusCounts).forEach(function (status) {
+        statusFilter.appendChild(h('option', { value: status }, [status]));
+      });
+    }
+  }
+
+  function refreshTasks() {
+    var params = new URLSearchParams({ limit: '100' });
+    if (statusFilter.value) params.set('status', statusFilter.value);
+    if (searchInput.value) params.set('q', searchInput.value);
+    return api('GET', '/api/tasks?' + params.toString()).then(function (result) {
+      document.getElementById('task-total').textContent = '共 ' + result.total + ' 个任务' + (result.total > result.tasks.length ? '，显示最新 ' + result.tasks.length + ' 个' : '');
+      replace('tasks', table(['名称', '状态', '大小', '远程路径', '创建于', '操作'],
+        result.tasks.map(function (task) {
+          return h('tr', {}, [
+            h('td', { class: 'name', title: task.instance + ':' + task.hash }, [task.name]),
+            h('td', {}, [task.status]),
+            h('td', {}, [formatBytes(task.uploadSize)]),
+            h('td', { class: 'name' }, [task.calculatedRemotePath || '-']),
+            h('td', {}, [formatTime(task.createdAt)]),
+            actionButtons(task)
+          ]);
+        }), '没有符合条件的任务。'));
+    });
+  }
+
+  function refresh() {
+    if (!tokenInput.value) { setMessage('请输入 API Token', true); return; }
+    Promise.all([api('GET', '/api/summary').then(renderSummary), refreshTasks()])
+      .then(function () { setMessage('更新于 ' + new Date().toLocaleTimeString(), false); })
+      .catch(function (error) { setMessage('加载失败: ' + error.message, true); });
+  }
+
+  document.getElementById('save-token').onclick = function () {
+    localStorage.setItem('qbCloudSyncToken', tokenInput.value);
+    refresh();
+  };
+  document.getElementById('poll').onclick = function () {
+    api('POST', '/api/poll')
+      .then(function (result) { setMessage(result.message, false); })
+      .catch(function (error) { setMessage('触发轮询失败: ' + error.message, true); });
+  };
+  statusFilter.onchange = refreshTasks;
+  searchInput.oninput = function () { clearTimeout(searchInput.timer); searchInput.timer = setTimeout(refreshTasks, 300); };
+
+  refresh();
+  setInterval(refresh, REFRESH_MS);
+})();
+</script>
+</body>
+</html>
+`;
+
+export function renderDashboardPage(): string {
+  return DASHBOARD_HTML;
+}
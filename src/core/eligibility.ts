@@ -0,0 +1,102 @@
+// src/core/eligibility.ts
+import {
+  IEligibilityCriteria,
+  IEligibilityOverride,
+  IEligibilityPolicy,
+} from '../interfaces/config.types';
+import { QBittorrentTorrent } from './qbittorrent.service';
+
+export interface EligibilityResult {
+  eligible: boolean;
+  forced: boolean; // 是否因 forceAfterDays 强制放行
+  reasons: string[]; // 每项条件的检查说明，用于日志
+  override?: IEligibilityOverride; // 命中的分类/标签覆盖规则
+}
+
+function splitTags(tags: string): string[] {
+  return tags
+    .split(',')
+    .map((tag) => tag.trim().toLowerCase())
+    .filter((tag) => tag !== '');
+}
+
+/**
+ * 为种子找到第一条匹配的覆盖规则 (按分类或标签匹配，不区分大小写)。
+ */
+export function findEligibilityOverride(
+  torrent: QBittorrentTorrent,
+  overrides: IEligibilityOverride[]
+): IEligibilityOverride | undefined {
+  const category = (torrent.category || '').toLowerCase();
+  const tags = splitTags(torrent.tags);
+  return overrides.find(
+    (override) =>
+      (override.category !== undefined && override.category.toLowerCase() === category) ||
+      (override.tag !== undefined && tags.includes(override.tag.toLowerCase()))
+  );
+}
+
+/**
+ * 判断一个已下载完成的种子是否满足处理 (上传归档) 的条件。
+ * 所有配置的条件 (状态、分享率、做种时间、活动时间) 需同时满足；
+ * 若配置了 forceAfterDays 且种子完成时间已超过该天数，则无视其他条件直接放行。
+ */
+export function evaluateEligibility(
+  torrent: QBittorrentTorrent,
+  policy: IEligibilityPolicy,
+  now: Date = new Date()
+): EligibilityResult {
+  const override = findEligibilityOverride(torrent, policy.overrides);
+  const criteria: IEligibilityCriteria = { ...policy, ...override };
+  const reasons: string[] = [];
+  let eligible = true;
+
+  const stateLower = torrent.state.toLowerCase();
+  if (criteria.states && criteria.states.length > 0) {
+    const allowedStates = criteria.states.map((state) => state.toLowerCase());
+    if (allowedStates.includes(stateLower)) {
+      reasons.push(`状态 ${torrent.state} 在允许列表中`);
+    } else {
+      eligible = false;
+      reasons.push(`状态 ${torrent.state} 不在允许列表 [${allowedStates.join(', ')}] 中`);
+    }
+  }
+
+  if (criteria.minRatio !== undefined) {
+    const ok = torrent.ratio >= criteria.minRatio;
+    eligible = eligible && ok;
+    reasons.push(
+      `分享率 ${torrent.ratio.toFixed(2)} ${ok ? '>=' : '<'} 要求的 ${criteria.minRatio}`
+    );
+  }
+
+  if (criteria.minSeedingTimeSec !== undefined) {
+    const ok = torrent.seeding_time >= criteria.minSeedingTimeSec;
+    eligible = eligible && ok;
+    reasons.push(
+      `做种时间 ${torrent.seeding_time}s ${ok ? '>=' : '<'} 要求的 ${criteria.minSeedingTimeSec}s`
+    );
+  }
+
+  if (criteria.minActiveTimeSec !== undefined) {
+    const ok = torrent.time_active >= criteria.minActiveTimeSec;
+    eligible = eligible && ok;
+    reasons.push(
+      `活动时间 ${torrent.time_active}s ${ok ? '>=' : '<'} 要求的 ${criteria.minActiveTimeSec}s`
+    );
+  }
+
+  let forced = false;
+  if (!eligible && criteria.forceAfterDays !== undefined && torrent.completion_on > 0) {
+    const completedDays = (now.getTime() - torrent.completion_on * 1000) / (24 * 60 * 60 * 1000);
+    if (completedDays >= criteria.forceAfterDays) {
+      forced = true;
+      eligible = true;
+      reasons.push(
+        `已完成 ${completedDays.toFixed(1)} 天，超过 ${criteria.forceAfterDays} 天，强制放行`
+      );
+    }
+  }
+
+  return { eligible, forced, reasons, override };
+}
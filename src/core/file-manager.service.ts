@@ -0,0 +1,95 @@
+// src/core/file-manager.service.ts
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { Logger } from 'winston';
+
+export interface FileOperationResult {
+  success: boolean;
+  message?: string;
+}
+
+export class FileManagerService {
+  constructor(private logger: Logger) {}
+
+  /**
+   * 判断 targetPath 是否位于 rootDir 之内 (不包括 rootDir 本身)。
+   */
+  private isInside(targetPath: string, rootDir: string): boolean {
+    const relative = path.relative(path.resolve(rootDir), path.resolve(targetPath));
+    return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+  }
+
+  /**
+   * 删除种子的本地内容 (单个文件或整个目录)。
+   * @param localPath 要删除的文件或目录的绝对路径。
+   * @param rootDir 可选的根目录 (通常是 qB 的 save_path)，localPath 必须位于其内部才允许删除。
+   * @returns Promise<FileOperationResult> 删除结果。
+   */
+  public async deleteLocalContent(
+    localPath: string,
+    rootDir?: string
+  ): Promise<FileOperationResult> {
+    if (rootDir && !this.isInside(localPath, rootDir)) {
+      const message = `拒绝删除: '${localPath}' 不在保存目录 '${rootDir}' 之内。`;
+      this.logger.error(message);
+      return { success: false, message };
+    }
+
+    try {
+      await fs.lstat(localPath);
+    } catch (statError: unknown) {
+      if ((statError as NodeJS.ErrnoException).code === 'ENOENT') {
+        this.logger.warn(`本地路径 '${localPath}' 不存在，视为已删除。`);
+        return { success: true, message: '本地路径不存在，无需删除。' };
+      }
+      const errorMessage = statError instanceof Error ? statError.message : String(statError);
+      this.logger.error(`无法获取本地路径 '${localPath}' 的状态: ${errorMessage}`, statError);
+      return { success: false, message: `无法访问本地路径: ${localPath}. 错误: ${errorMessage}` };
+    }
+
+    try {
+      await fs.rm(localPath, { recursive: true, force: true });
+      this.logger.info(`已删除本地内容: '${localPath}'`);
+      return { success: true };
+    } catch (rmError: unknown) {
+      const errorMessage = rmError instanceof Error ? rmError.message : String(rmError);
+      this.logger.error(`删除本地内容 '${localPath}' 失败: ${errorMessage}`, rmError);
+      return { success: false, message: `删除本地内容失败: ${errorMessage}` };
+    }
+  }
+
+  /**
+   * 从 startDir 开始向上逐级删除空目录，直到遇到非空目录或到达 rootDir 为止。
+   * rootDir 本身以及 rootDir 之外的目录永远不会被删除。
+   * @param startDir 开始清理的目录。
+   * @param rootDir 清理的边界目录 (通常是 qB 的 save_path)。
+   * @returns Promise<string[]> 实际被删除的目录列表。
+   */
+  public async cleanupEmptyDirs(startDir: string, rootDir: string): Promise<string[]> {
+    const removedDirs: string[] = [];
+    let currentDir = path.resolve(startDir);
+
+    while (this.isInside(currentDir, rootDir)) {
+      let entries: string[];
+      try {
+        entries = await fs.readdir(currentDir);
+      } catch (readError: unknown) {
+        if ((readError as NodeJS.ErrnoException).code === 'ENOENT') {
+          currentDir = path.dirname(currentDir);
+          continue;
+        }
+        throw readError;
+      }
+      if (entries.length > 0) {
+        this.logger.debug(`目录 '${currentDir}' 非空，停止清理空目录。`);
+        break;
+      }
+      await fs.rmdir(currentDir);
+      removedDirs.push(currentDir);
+      this.logger.info(`已删除空目录: '${currentDir}'`);
+      currentDir = path.dirname(currentDir);
+    }
+
+    return removedDirs;
+  }
+}
@@ -0,0 +1,75 @@
+// src/core/mail-templates.ts
+import { TorrentTask } from '@prisma/client';
+import { formatBytes, formatDuration } from '../utils/format.utils';
+
+export type TaskNotificationEvent =
+  | 'completed'
+  | 'error'
+  | 'retries_exhausted'
+  | 'remote_audit_failed';
+
+export interface TaskNotificationContext {
+  remotePath?: string; // 完整的远程路径 (remote:base/relative)
+  phase?: string; // 重试耗尽或出错时所处的阶段，如 "上传"、"验证"
+}
+
+export interface RenderedMail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const EVENT_TITLES: Record<TaskNotificationEvent, string> = {
+  completed: '任务完成',
+  error: '任务出错',
+  retries_exhausted: '重试次数已用尽',
+  remote_audit_failed: '远程巡检发现问题',
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * 根据任务事件生成邮件的主题、纯文本正文和 HTML 正文。
+ */
+export function renderTaskNotification(
+  event: TaskNotificationEvent,
+  task: TorrentTask,
+  context: TaskNotificationContext = {}
+): RenderedMail {
+  const title = context.phase ? `${EVENT_TITLES[event]} (${context.phase})` : EVENT_TITLES[event];
+  const subject = `[qb-cloud-sync] ${title}: ${task.name}`;
+
+  const rows: [string, string][] = [
+    ['种子名称', task.name],
+    ['qB 实例', task.instance],
+    ['哈希', task.hash],
+    ['当前状态', task.status],
+    ['远程路径', context.remotePath || task.calculatedRemotePath || 'N/A'],
+    ['大小', formatBytes(task.uploadSize)],
+    ['上传耗时', formatDuration(task.uploadDurationMs)],
+    ['上传尝试次数', String(task.uploadAttempts)],
+    ['验证尝试次数', String(task.verificationAttempts)],
+  ];
+  if (event !== 'completed' || task.errorMessage) {
+    rows.push(['最后错误信息', task.errorMessage || 'N/A']);
+  }
+
+  const text = [title, '', ...rows.map(([label, value]) => `${label}: ${value}`)].join('\n');
+  const html = [
+    `<h3>${escapeHtml(title)}</h3>`,
+    '<table cellpadding="4" cellspacing="0" border="1">',
+    ...rows.map(
+      ([label, value]) =>
+        `<tr><th align="left">${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`
+    ),
+    '</table>',
+  ].join('\n');
+
+  return { subject, text, html };
+}
@@ -0,0 +1,79 @@
+// src/core/mailer.service.ts
+import nodemailer, { Transporter } from 'nodemailer';
+import { TorrentTask } from '@prisma/client';
+import { IMailerConfig } from '../interfaces/config.types';
+import { Logger } from 'winston';
+import {
+  TaskNotificationContext,
+  TaskNotificationEvent,
+  renderTaskNotification,
+} from './mail-templates';
+
+export class MailerService {
+  private transporter: Transporter | null = null;
+
+  constructor(
+    private mailerConfig: IMailerConfig,
+    private logger: Logger
+  ) {
+    if (!this.isEnabled()) {
+      this.logger.info('邮件通知未配置 (缺少 MAILER_HOST 或 MAILER_TO)，将跳过所有邮件发送。');
+      return;
+    }
+    this.transporter = nodemailer.createTransport({
+      host: this.mailerConfig.host,
+      port: this.mailerConfig.port,
+      secure: this.mailerConfig.secure ?? false,
+      // 本地 SMTP 替身 (如 MailHog / smtp4dev) 通常无需认证
+      auth:
+        this.mailerConfig.user && this.mailerConfig.pass
+          ? { user: this.mailerConfig.user, pass: this.mailerConfig.pass }
+          : undefined,
+    });
+    this.logger.info(
+      `邮件通知已启用: ${this.mailerConfig.host}:${this.mailerConfig.port ?? '默认端口'} -> ${this.mailerConfig.to!.join(', ')}`
+    );
+  }
+
+  public isEnabled(): boolean {
+    return !!this.mailerConfig.host && !!this.mailerConfig.to && this.mailerConfig.to.length > 0;
+  }
+
+  /**
+   * 发送一封邮件。未配置或发送失败时不会抛出异常。
+   * @returns Promise<boolean> 是否发送成功。
+   */
+  public async sendMail(subject: string, text: string, html?: string): Promise<boolean> {
+    if (!this.transporter) {
+      this.logger.debug(`邮件通知未启用，跳过发送: "${subject}"`);
+      return false;
+    }
+    try {
+      const info = (await this.transporter.sendMail({
+        from: this.mailerConfig.from || this.mailerConfig.user || 'qb-cloud-sync@localhost',
+        to: this.mailerConfig.to,
+        subject,
+        text,
+        html,
+      })) as { messageId?: string };
+      this.logger.info(`邮件已发送: "${subject}" (Message-ID: ${info.messageId ?? 'N/A'})`);
+      return true;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error(`发送邮件 "${subject}" 失败: ${errorMessage}`, error);
+      return false;
+    }
+  }
+
+  /**
+   * 按模板发送任务相关的通知邮件。
+   */
+  public async notifyTask(
+    event: TaskNotificationEvent,
+    task: TorrentTask,
+    context: TaskNotificationContext = {}
+  ): Promise<boolean> {
+    const { subject, text, html } = renderTaskNotification(event, task, context);
+    return this.sendMail(subject, text, html);
+  }
+}
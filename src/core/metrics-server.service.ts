@@ -0,0 +1,71 @@
+// src/core/metrics-server.service.ts
+import http, { IncomingMessage, ServerResponse } from 'node:http';
+import { PrismaClient } from '@prisma/client';
+import { Logger } from 'winston';
+import { IMetricsConfig } from '../interfaces/config.types';
+import { metricsRegistry, refreshTaskStatusMetrics } from './metrics';
+
+/**
+ * 独立的 Prometheus 指标监听器: 只提供 GET /metrics，无需认证，也不依赖控制 API 是否启用。
+ * 指标只包含计数与耗时，不含种子名称等信息。
+ */
+export class MetricsServerService {
+  private server?: http.Server;
+
+  constructor(
+    private config: IMetricsConfig,
+    private prisma: PrismaClient,
+    private logger: Logger
+  ) {}
+
+  public async start(): Promise<void> {
+    if (this.server) return;
+    const server = http.createServer((req, res) => {
+      void this.handleRequest(req, res);
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.config.port, this.config.host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    this.server = server;
+    this.logger.info(
+      `Prometheus 指标已启动: http://${this.config.host}:${this.config.port}/metrics`
+    );
+  }
+
+  public async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = undefined;
+    const closed = new Promise<void>((resolve) => server.close(() => resolve()));
+    server.closeAllConnections();
+    await closed;
+    this.logger.info('Prometheus 指标监听已停止。');
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (url.pathname !== '/metrics') {
+      res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' });
+      res.end('Not found');
+      return;
+    }
+    if (req.method !== 'GET') {
+      res.writeHead(405, { 'Content-Type': 'text/plain; charset=utf-8', Allow: 'GET' });
+      res.end('Method not allowed');
+      return;
+    }
+    try {
+      await refreshTaskStatusMetrics(this.prisma);
+      res.writeHead(200, { 'Content-Type': metricsRegistry.contentType });
+      res.end(await metricsRegistry.metrics());
+    } catch (error) {
+      this.logger.error('生成 Prometheus 指标时出错:', error);
+      res.writeHead(500, { 'Content-Type': 'text/plain; charset=utf-8' });
+      res.end('Internal server error');
+    }
+  }
+}
@@ -0,0 +1,99 @@
+// src/core/metrics.ts
+import { PrismaClient, TaskStatus } from '@prisma/client';
+import {
+  Counter,
+  Gauge,
+  Histogram,
+  Registry,
+  collectDefaultMetrics,
+  exponentialBuckets,
+} from 'prom-client';
+
+// Prometheus 指标。所有指标注册在同一个 Registry 中，由控制 API 的 /metrics 导出。
+const PREFIX = 'qb_cloud_sync_';
+
+export const metricsRegistry = new Registry();
+collectDefaultMetrics({ register: metricsRegistry, prefix: PREFIX });
+
+export const taskStatusGauge = new Gauge({
+  name: `${PREFIX}tasks`,
+  help: '各状态的任务数量',
+  labelNames: ['status'] as const,
+  registers: [metricsRegistry],
+});
+
+export const uploadsCounter = new Counter({
+  name: `${PREFIX}uploads_total`,
+  help: '上传 (rclone copy) 次数，按上传目标和结果分类 (success / failure / fatal)',
+  labelNames: ['destination', 'result'] as const,
+  registers: [metricsRegistry],
+});
+
+export const verificationsCounter = new Counter({
+  name: `${PREFIX}verifications_total`,
+  help: '验证 (rclone check) 次数，按上传目标和结果分类 (success / failure / fatal)',
+  labelNames: ['destination', 'result'] as const,
+  registers: [metricsRegistry],
+});
+
+export const remoteAuditsCounter = new Counter({
+  name: `${PREFIX}remote_audits_total`,
+  help: '远程巡检次数，按上传目标和结果分类 (passed / failed / error)',
+  labelNames: ['destination', 'result'] as const,
+  registers: [metricsRegistry],
+});
+
+export const uploadDurationHistogram = new Histogram({
+  name: `${PREFIX}upload_duration_seconds`,
+  help: '成功上传的耗时 (秒)，按上传目标分类',
+  labelNames: ['destination'] as const,
+  buckets: [10, 30, 60, 300, 900, 1800, 3600, 7200, 10800],
+  registers: [metricsRegistry],
+});
+
+export const uploadBytesHistogram = new Histogram({
+  name: `${PREFIX}upload_bytes`,
+  help: '成功上传的内容大小 (Bytes)，按上传目标分类',
+  labelNames: ['destination'] as const,
+  buckets: exponentialBuckets(1024 * 1024, 4, 11), // 1 MiB - 1 TiB
+  registers: [metricsRegistry],
+});
+
+export const qbRequestDurationHistogram = new Histogram({
+  name: `${PREFIX}qbittorrent_request_duration_seconds`,
+  help: 'qBittorrent WebAPI 请求耗时 (秒)，instance 为 qB 实例名称',
+  labelNames: ['instance', 'method', 'endpoint'] as const,
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers: [metricsRegistry],
+});
+
+export const qbRequestErrorsCounter = new Counter({
+  name: `${PREFIX}qbittorrent_request_errors_total`,
+  help: 'qBittorrent WebAPI 请求失败次数 (status 为 HTTP 状态码，或 network 表示网络错误)',
+  labelNames: ['instance', 'method', 'endpoint', 'status'] as const,
+  registers: [metricsRegistry],
+});
+
+export const pollDurationHistogram = new Histogram({
+  name: `${PREFIX}poll_duration_seconds`,
+  help: '任务处理周期 (轮询 qB 并创建/分派任务) 的耗时 (秒)',
+  buckets: [0.1, 0.5, 1, 2.5, 5, 10, 30, 60, 120],
+  registers: [metricsRegistry],
+});
+
+export const lastSuccessfulPollGauge = new Gauge({
+  name: `${PREFIX}last_successful_poll_timestamp_seconds`,
+  help: '最近一次成功完成的任务处理周期的时间 (Unix 时间戳，秒)',
+  registers: [metricsRegistry],
+});
+
+/**
+ * 从数据库刷新各状态的任务数量。在每次导出指标前调用。
+ */
+export async function refreshTaskStatusMetrics(prisma: PrismaClient): Promise<void> {
+  const groups = await prisma.torrentTask.groupBy({ by: ['status'], _count: { _all: true } });
+  const counts = new Map(groups.map((group) => [group.status, group._count._all]));
+  for (const status of Object.values(TaskStatus)) {
+    taskStatusGauge.set({ status }, counts.get(status) ?? 0);
+  }
+}
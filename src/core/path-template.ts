@@ -0,0 +1,291 @@
+// src/core/path-template.ts
+import { QBittorrentTorrent } from './qbittorrent.service';
+
+// 远程路径中非法字符的处理方式
+export type PathSanitizeMode = 'none' | 'default' | 'windows';
+
+export interface ParsedReleaseName {
+  title: string;
+  year?: string;
+  season?: string; // 两位数字，如 "02"
+  episode?: string; // 至少两位数字，如 "05"
+  resolution?: string; // 如 "1080p"
+  source?: string; // 如 "BluRay"、"WEB-DL"
+  group?: string; // 发布组
+}
+
+export interface PathTemplateVariables {
+  torrentName: string;
+  category: string;
+  tag: string;
+  hash: string;
+  release: ParsedReleaseName;
+  addedOn?: Date;
+  completedOn?: Date;
+}
+
+// 模板中可用的占位符及修饰符 (供规则校验使用)
+export const TEMPLATE_PLACEHOLDERS = [
+  'torrentName',
+  'category',
+  'tag',
+  'hash',
+  'title',
+  'year',
+  'season',
+  'episode',
+  'resolution',
+  'source',
+  'group',
+  'added',
+  'completed',
+] as const;
+export const TEMPLATE_MODIFIERS = ['lower', 'upper', 'trim', 'default'] as const;
+
+const PLACEHOLDER_PATTERN = /\{([^{}]+)\}/g;
+
+const SOURCE_ALIASES: [RegExp, string][] = [
+  [/^remux$/i, 'REMUX'],
+  [/^blu-?ray$/i, 'BluRay'],
+  [/^(bdrip|brrip)$/i, 'BDRip'],
+  [/^web-?dl$/i, 'WEB-DL'],
+  [/^webrip$/i, 'WEBRip'],
+  [/^web$/i, 'WEB'],
+  [/^hdtv$/i, 'HDTV'],
+  [/^dvdrip$/i, 'DVDRip'],
+  [/^dvd$/i, 'DVD'],
+  [/^hdrip$/i, 'HDRip'],
+];
+
+/**
+ * 从常见的发布名中解析出标题、年份、季、集、分辨率、来源和发布组。
+ * 例如 "Show.Name.S02E05.2023.1080p.WEB-DL.x264-GROUP" 或 "[Group] Anime Title - 05 [1080p]"。
+ */
+export function parseReleaseName(name: string): ParsedReleaseName {
+  let working = name.replace(/\.(mkv|mp4|avi|ts|iso|zip|rar)$/i, '');
+  const result: ParsedReleaseName = { title: '' };
+
+  // 动漫风格的 "[Group] Title" 前缀
+  const leadingGroup = working.match(/^\[([^\]]+)\]\s*/);
+  if (leadingGroup) {
+    result.group = leadingGroup[1].trim();
+    working = working.slice(leadingGroup[0].length);
+  }
+
+  const markers: number[] = [];
+
+  const seasonEpisode =
+    working.match(/\bS(\d{1,2})[ ._-]?E(\d{1,3})/i) || working.match(/\b(\d{1,2})x(\d{2,3})\b/);
+  if (seasonEpisode && seasonEpisode.index !== undefined) {
+    result.season = seasonEpisode[1].padStart(2, '0');
+    result.episode = seasonEpisode[2].padStart(2, '0');
+    markers.push(seasonEpisode.index);
+  } else {
+    const seasonOnly =
+      working.match(/\bS(\d{1,2})\b/i) || working.match(/\bSeason[ ._]?(\d{1,2})\b/i);
+    if (seasonOnly && seasonOnly.index !== undefined) {
+      result.season = seasonOnly[1].padStart(2, '0');
+      markers.push(seasonOnly.index);
+    } else {
+      const animeEpisode = working.match(/\s-\s(\d{2,3})(?:v\d)?\b/);
+      if (animeEpisode && animeEpisode.index !== undefined) {
+        result.episode = animeEpisode[1];
+        markers.push(animeEpisode.index);
+      }
+    }
+  }
+
+  // 年份取最后一个匹配，避免把 "2001.A.Space.Odyssey.1968" 开头的数字当成年份
+  const yearMatches = [...working.matchAll(/(?:^|[\s._([-])((?:19|20)\d{2})(?=$|[\s._)\]-])/g)];
+  const yearMatch = yearMatches.filter((m) => (m.index ?? 0) > 0).pop();
+  if (yearMatch && yearMatch.index !== undefined) {
+    result.year = yearMatch[1];
+    markers.push(yearMatch.index);
+  }
+
+  const resolution = working.match(/\b(4320p|2160p|1080[pi]|720p|576p|480p|4k|8k)\b/i);
+  if (resolution && resolution.index !== undefined) {
+    result.resolution = resolution[1].toLowerCase();
+    markers.push(resolution.index);
+  }
+
+  const source = working.match(
+    /\b(remux|blu-?ray|bdrip|brrip|web-?dl|webrip|web|hdtv|dvdrip|dvd|hdrip)\b/i
+  );
+  if (source && source.index !== undefined) {
+    const alias = SOURCE_ALIASES.find(([pattern]) => pattern.test(source[1]));
+    result.source = alias ? alias[1] : source[1];
+    markers.push(source.index);
+  }
+
+  if (!result.group) {
+    const trailingGroup = working.match(/-([A-Za-z0-9]+)$/);
+    if (trailingGroup && !/^(dl|rip)$/i.test(trailingGroup[1])) {
+      result.group = trailingGroup[1];
+    }
+  }
+
+  const titleEnd = markers.length > 0 ? Math.min(...markers) : working.length;
+  result.title = working
+    .slice(0, titleEnd)
+    .replace(/\[[^\]]*\]/g, ' ')
+    .replace(/[._]/g, ' ')
+    .replace(/[\s([-]+$/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (!result.title) {
+    result.title = working.replace(/[._]/g, ' ').trim();
+  }
+  return result;
+}
+
+function formatDate(date: Date | undefined, format: string): string {
+  if (!date) return '';
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return format
+    .replace(/YYYY/g, String(date.getFullYear()))
+    .replace(/MM/g, pad(date.getMonth() + 1))
+    .replace(/DD/g, pad(date.getDate()));
+}
+
+function resolvePlaceholder(
+  name: string,
+  arg: string | undefined,
+  vars: PathTemplateVariables
+): string | undefined {
+  switch (name) {
+    case 'torrentName':
+      return vars.torrentName;
+    case 'category':
+      return vars.category;
+    case 'tag':
+      return vars.tag;
+    case 'hash':
+      return arg ? vars.hash.slice(0, parseInt(arg, 10) || vars.hash.length) : vars.hash;
+    case 'title':
+      return vars.release.title;
+    case 'year':
+      // 与旧版行为保持一致: 无法识别年份时为 UnknownYear
+      return vars.release.year ?? 'UnknownYear';
+    case 'season':
+      return vars.release.season ?? '';
+    case 'episode':
+      return vars.release.episode ?? '';
+    case 'resolution':
+      return vars.release.resolution ?? '';
+    case 'source':
+      return vars.release.source ?? '';
+    case 'group':
+      return vars.release.group ?? '';
+    case 'added':
+      return formatDate(vars.addedOn, arg || 'YYYY-MM-DD');
+    case 'completed':
+      return formatDate(vars.completedOn, arg || 'YYYY-MM-DD');
+    default:
+      return undefined;
+  }
+}
+
+function applyModifier(value: string, modifier: string, arg: string | undefined): string {
+  switch (modifier) {
+    case 'lower':
+      return value.toLowerCase();
+    case 'upper':
+      return value.toUpperCase();
+    case 'trim':
+      return value.trim();
+    case 'default':
+      return value === '' ? (arg ?? '') : value;
+    default:
+      return value;
+  }
+}
+
+function splitOnce(value: string, separator: string): [string, string | undefined] {
+  const index = value.indexOf(separator);
+  return index === -1 ? [value, undefined] : [value.slice(0, index), value.slice(index + 1)];
+}
+
+/**
+ * 解析模板中所有的占位符，返回 { name, modifiers } 列表 (供规则校验使用)。
+ */
+export function listTemplatePlaceholders(
+  template: string
+): { raw: string; name: string; modifiers: string[] }[] {
+  return [...template.matchAll(PLACEHOLDER_PATTERN)].map((match) => {
+    const [head, ...modifierParts] = match[1].split('|');
+    return {
+      raw: match[0],
+      name: splitOnce(head.trim(), ':')[0],
+      modifiers: modifierParts.map((part) => splitOnce(part.trim(), ':')[0]),
+    };
+  });
+}
+
+/**
+ * 按路径的每一段清理远程存储不支持的字符。
+ * 只由点组成的段 ("." 和 "..") 在任何模式下都替换为下划线，避免渲染出的路径跳出上传根目录。
+ */
+export function sanitizePathSegment(segment: string, mode: PathSanitizeMode): string {
+  if (/^\.+$/.test(segment.trim())) return segment.trim().replace(/\./g, '_');
+  if (mode === 'none') return segment;
+  let cleaned = segment.replace(/[\x00-\x1f\x7f]/g, '');
+  if (mode === 'windows') {
+    // OneDrive / SharePoint / Windows 本地文件系统不允许这些字符，也不允许以空格或点结尾
+    cleaned = cleaned.replace(/[<>:"|?*]/g, '_').replace(/[. ]+$/, '');
+  }
+  return cleaned.trim();
+}
+
+/**
+ * 渲染远程路径模板。
+ * 语法: {name}、{name:参数}，以及以 | 串联的修饰符，如 {category|lower}、{title|default:Unknown}、{hash:8}、{completed:YYYY/MM}。
+ * 未知的占位符原样保留。
+ */
+export function renderPathTemplate(
+  template: string,
+  vars: PathTemplateVariables,
+  sanitizeMode: PathSanitizeMode = 'default'
+): string {
+  const rendered = template.replace(PLACEHOLDER_PATTERN, (raw, inner: string) => {
+    const [head, ...modifierParts] = inner.split('|');
+    const [name, arg] = splitOnce(head.trim(), ':');
+    let value = resolvePlaceholder(name, arg, vars);
+    if (value === undefined) return raw;
+    for (const part of modifierParts) {
+      const [modifier, modifierArg] = splitOnce(part.trim(), ':');
+      value = applyModifier(value, modifier, modifierArg);
+    }
+    return value;
+  });
+
+  const segments = rendered
+    .replace(/\\/g, '/')
+    .split('/')
+    .map((segment) => sanitizePathSegment(segment, sanitizeMode))
+    .filter((segment) => segment !== '');
+  // 清理后不应再有 "." 或 ".." 段；若出现说明清理逻辑有误，宁可报错也不能上传到根目录之外
+  if (segments.some((segment) => segment === '.' || segment === '..')) {
+    throw new Error(`渲染出的远程路径包含 "." 或 ".." 段: ${segments.join('/')}`);
+  }
+  return segments.join('/');
+}
+
+/**
+ * 从 qB 种子信息构建模板变量。
+ */
+export function buildTemplateVariables(torrent: QBittorrentTorrent): PathTemplateVariables {
+  const torrentTags = torrent.tags
+    .split(',')
+    .map((tag) => tag.trim().toLowerCase())
+    .filter((tag) => tag !== '');
+  return {
+    torrentName: torrent.name,
+    category: torrent.category || 'Uncategorized',
+    tag: torrentTags.length > 0 ? torrentTags[0] : 'UnTagged',
+    hash: torrent.hash,
+    release: parseReleaseName(torrent.name),
+    addedOn: torrent.added_on > 0 ? new Date(torrent.added_on * 1000) : undefined,
+    completedOn: torrent.completion_on > 0 ? new Date(torrent.completion_on * 1000) : undefined,
+  };
+}
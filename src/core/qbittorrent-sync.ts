@@ -0,0 +1,154 @@
+// src/core/qbittorrent-sync.ts
+import { Logger } from 'winston';
+import {
+  QBittorrentCategory,
+  QBittorrentMainData,
+  QBittorrentService,
+  QBittorrentTorrent,
+  isDownloadComplete,
+} from './qbittorrent.service';
+
+// 两次同步之间某个种子的状态变化
+export interface TorrentStateChange {
+  hash: string;
+  name: string;
+  previousState: string | null; // 新出现的种子为 null
+  state: string;
+  completed: boolean; // 本次同步中变为 "已下载完成"
+}
+
+export interface TorrentSyncResult {
+  fullUpdate: boolean;
+  initial: boolean; // 首次同步 (此前没有缓存的视图)，此时所有种子都算作新增
+  added: string[]; // 新出现的种子哈希
+  removed: string[]; // 已从 qB 中移除的种子哈希
+  stateChanges: TorrentStateChange[];
+  torrentCount: number;
+}
+
+/**
+ * 基于 /api/v2/sync/maindata 的增量同步客户端。
+ * 在内存中维护种子、分类和标签的视图，每次同步只从 qB 获取自上次 rid 以来的变化并合并。
+ * 同步出错时会丢弃 rid，下次同步重新获取完整数据。
+ */
+export class QBittorrentSyncClient {
+  private rid = 0;
+  private torrents = new Map<string, QBittorrentTorrent>();
+  private categories = new Map<string, QBittorrentCategory>();
+  private tags = new Set<string>();
+
+  constructor(
+    private qbService: QBittorrentService,
+    private logger: Logger
+  ) {}
+
+  public async sync(): Promise<TorrentSyncResult> {
+    let data: QBittorrentMainData;
+    try {
+      data = await this.qbService.getMainData(this.rid);
+    } catch (error) {
+      this.rid = 0;
+      throw error;
+    }
+    const result = this.apply(data);
+    this.logger.debug(
+      `qB 主数据同步完成 (rid=${this.rid}${result.fullUpdate ? ', 完整更新' : ''}): 共 ${result.torrentCount} 个种子，新增 ${result.added.length}，移除 ${result.removed.length}，状态变化 ${result.stateChanges.length}。`
+    );
+    return result;
+  }
+
+  public getTorrents(): QBittorrentTorrent[] {
+    return [...this.torrents.values()];
+  }
+
+  public getTorrent(hash: string): QBittorrentTorrent | undefined {
+    return this.torrents.get(hash.toLowerCase());
+  }
+
+  public getCategories(): QBittorrentCategory[] {
+    return [...this.categories.values()];
+  }
+
+  public getTags(): string[] {
+    return [...this.tags];
+  }
+
+  /**
+   * 丢弃缓存的视图，下次同步时重新获取完整数据。
+   */
+  public reset(): void {
+    this.rid = 0;
+    this.torrents.clear();
+    this.categories.clear();
+    this.tags.clear();
+  }
+
+  private apply(data: QBittorrentMainData): TorrentSyncResult {
+    const fullUpdate = data.full_update === true;
+    const previous = fullUpdate ? this.torrents : undefined;
+    const initial = fullUpdate && this.torrents.size === 0;
+    if (fullUpdate) {
+      this.torrents = new Map();
+      this.categories.clear();
+      this.tags.clear();
+    }
+
+    const added: string[] = [];
+    const stateChanges: TorrentStateChange[] = [];
+    for (const [rawHash, patch] of Object.entries(data.torrents ?? {})) {
+      const hash = rawHash.toLowerCase();
+      const before = previous ? previous.get(hash) : this.torrents.get(hash);
+      // 完整更新时基于空对象重建，避免保留已不存在的字段
+      const merged = {
+        ...(fullUpdate ? {} : before),
+        ...patch,
+        hash,
+      } as QBittorrentTorrent;
+      this.torrents.set(hash, merged);
+
+      if (!before) added.push(hash);
+      const wasComplete = before ? isDownloadComplete(before) : false;
+      const isComplete = isDownloadComplete(merged);
+      if (!before || before.state !== merged.state || wasComplete !== isComplete) {
+        stateChanges.push({
+          hash,
+          name: merged.name,
+          previousState: before?.state ?? null,
+          state: merged.state,
+          completed: isComplete && !wasComplete,
+        });
+      }
+    }
+
+    const removed: string[] = [];
+    if (previous) {
+      for (const hash of previous.keys()) {
+        if (!this.torrents.has(hash)) removed.push(hash);
+      }
+    }
+    for (const rawHash of data.torrents_removed ?? []) {
+      const hash = rawHash.toLowerCase();
+      if (this.torrents.delete(hash)) removed.push(hash);
+    }
+
+    for (const [name, patch] of Object.entries(data.categories ?? {})) {
+      this.categories.set(name, {
+        ...(this.categories.get(name) ?? { savePath: '' }),
+        ...patch,
+        name,
+      });
+    }
+    for (const name of data.categories_removed ?? []) {
+      this.categories.delete(name);
+    }
+    for (const tag of data.tags ?? []) {
+      this.tags.add(tag);
+    }
+    for (const tag of data.tags_removed ?? []) {
+      this.tags.delete(tag);
+    }
+
+    this.rid = data.rid;
+    return { fullUpdate, initial, added, removed, stateChanges, torrentCount: this.torrents.size };
+  }
+}
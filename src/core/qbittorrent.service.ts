@@ -9,6 +9,7 @@ import FormData from 'form-data';
 import https from 'node:https';
 import { IQBittorrentConfig } from '../interfaces/config.types';
 import { Logger } from 'winston';
+import { qbRequestDurationHistogram, qbRequestErrorsCounter } from './metrics';
 
 // 扩展 Axios 的请求配置类型
 interface RetryableAxiosRequestConfig extends InternalAxiosRequestConfig {
@@ -69,6 +70,50 @@ export interface QBittorrentTorrent {
   upspeed: number;
 }
 
+// qBittorrent API 返回的种子内文件信息接口定义
+export interface QBittorrentTorrentFile {
+  index?: number;
+  name: string; // 相对于种子根目录的路径
+  size: number;
+  progress: number;
+  priority: number;
+  is_seed?: boolean;
+  piece_range?: number[];
+  availability?: number;
+}
+
+export interface QBittorrentCategory {
+  name: string;
+  savePath: string;
+}
+
+// /api/v2/sync/maindata 的响应。除 full_update 外，只包含自上次 rid 以来发生变化的部分，
+// 种子对象也只包含变化的字段 (且不含 hash 字段，hash 是对象的键)
+export interface QBittorrentMainData {
+  rid: number;
+  full_update?: boolean;
+  torrents?: Record<string, Partial<QBittorrentTorrent>>;
+  torrents_removed?: string[];
+  categories?: Record<string, Partial<QBittorrentCategory>>;
+  categories_removed?: string[];
+  tags?: string[];
+  tags_removed?: string[];
+}
+
+/**
+ * 种子是否已下载完成 (进度 100%)，且不处于出错、文件丢失、下载中或下载校验中的状态。
+ */
+export function isDownloadComplete(torrent: QBittorrentTorrent): boolean {
+  const state = torrent.state.toLowerCase();
+  return (
+    torrent.progress === 1 &&
+    torrent.state !== 'error' &&
+    torrent.state !== 'missingFiles' &&
+    !state.includes('downloading') &&
+    !state.includes('checkingdl')
+  );
+}
+
 export class QBittorrentService {
   private apiClient: AxiosInstance;
   private sid: string | null = null;
@@ -243,10 +288,11 @@ export class QBittorrentService {
   private async request<T = unknown>(axiosReqConfig: AxiosRequestConfig): Promise<T> {
     // 泛型 T 默认值为 unknown
     await this.ensureLoggedIn();
+    const method = axiosReqConfig.method?.toUpperCase() || 'GET';
+    const urlPath = axiosReqConfig.url;
+    const metricLabels = { instance: this.config.name, method, endpoint: urlPath || '' };
+    const endRequestTimer = qbRequestDurationHistogram.startTimer(metricLabels);
     try {
-      // ... (request 方法内部逻辑保持不变) ...
-      const method = axiosReqConfig.method?.toUpperCase() || 'GET';
-      const urlPath = axiosReqConfig.url;
       this.logger.debug(
         `发送 qB API 请求: ${method} ${this.apiClient.defaults.baseURL}${urlPath}`,
         { params: axiosReqConfig.params }
@@ -254,7 +300,11 @@ export class QBittorrentService {
       const response = await this.apiClient.request<T>(axiosReqConfig);
       return response.data;
     } catch (error: unknown) {
-      // 使用 unknown 类型
+      qbRequestErrorsCounter.inc({
+        ...metricLabels,
+        status:
+          axios.isAxiosError(error) && error.response ? String(error.response.status) : 'network',
+      });
       const errorMessage =
         axios.isAxiosError(error) && error.response
           ? JSON.stringify(error.response.data)
@@ -266,6 +316,8 @@ export class QBittorrentService {
         errorMessage
       );
       throw error;
+    } finally {
+      endRequestTimer();
     }
   }
 
@@ -289,17 +341,54 @@ export class QBittorrentService {
     // <--- 确保这个方法存在且命名正确
     this.logger.debug('正在获取所有下载进度为 100% 的种子...');
     const torrents = await this.getTorrents({ filter: 'all' });
-    const downloadedTorrents = torrents.filter(
-      (t) =>
-        t.progress === 1 &&
-        t.state !== 'error' &&
-        t.state !== 'missingFiles' &&
-        !t.state.toLowerCase().includes('downloading') &&
-        !t.state.toLowerCase().includes('checkingdl')
-    );
+    const downloadedTorrents = torrents.filter(isDownloadComplete);
     this.logger.debug(
       `共获取 ${torrents.length} 个种子, 其中 ${downloadedTorrents.length} 个进度为 100% 且状态适合初步筛选。`
     );
     return downloadedTorrents;
   }
+
+  /**
+   * 增量同步: 获取自 rid 以来的变化。rid 为 0 时返回完整数据。
+   */
+  public async getMainData(rid: number): Promise<QBittorrentMainData> {
+    this.logger.debug(`正在同步 qB 主数据 (rid=${rid})...`);
+    return this.request<QBittorrentMainData>({
+      method: 'get',
+      url: `${this.QB_API_BASE_PATH}/sync/maindata`,
+      params: { rid },
+    });
+  }
+
+  /**
+   * 获取指定种子包含的文件列表。
+   */
+  public async getTorrentFiles(hash: string): Promise<QBittorrentTorrentFile[]> {
+    this.logger.debug(`正在获取种子 ${hash} 的文件列表...`);
+    return this.request<QBittorrentTorrentFile[]>({
+      method: 'get',
+      url: `${this.QB_API_BASE_PATH}/torrents/files`,
+      params: { hash },
+    });
+  }
+
+  /**
+   * 从 qBittorrent 中删除种子任务。
+   * @param hashes 要删除的种子哈希列表。
+   * @param deleteFiles 是否同时删除磁盘上的文件，默认为 false (只移除任务)。
+   */
+  public async deleteTorrents(hashes: string[], deleteFiles = false): Promise<void> {
+    this.logger.debug(
+      `正在从 qBittorrent 删除种子: ${hashes.join('|')} (删除文件: ${deleteFiles})`
+    );
+    const formData = new FormData();
+    formData.append('hashes', hashes.join('|'));
+    formData.append('deleteFiles', String(deleteFiles));
+    await this.request<string>({
+      method: 'post',
+      url: `${this.QB_API_BASE_PATH}/torrents/delete`,
+      data: formData,
+      headers: formData.getHeaders(),
+    });
+  }
 }
@@ -0,0 +1,43 @@
+// src/core/rclone-progress.ts
+
+export interface RcloneProgress {
+  bytesTransferred: number;
+  totalBytes: number;
+  percent: number | null; // totalBytes 为 0 时无法计算
+  speedBps: number;
+  etaSeconds: number | null;
+}
+
+// rclone --use-json-log 输出中 stats 对象的相关字段
+interface RcloneJsonStats {
+  bytes?: number;
+  totalBytes?: number;
+  speed?: number;
+  eta?: number | null;
+}
+
+/**
+ * 解析 rclone 在 --use-json-log 模式下输出的一行日志。
+ * 只有包含 stats 对象的行 (由 --stats 周期性输出) 才会返回进度，其他行返回 null。
+ */
+export function parseRcloneStatsLine(line: string): RcloneProgress | null {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith('{')) return null;
+  let parsed: { stats?: RcloneJsonStats };
+  try {
+    parsed = JSON.parse(trimmed) as { stats?: RcloneJsonStats };
+  } catch {
+    return null;
+  }
+  const stats = parsed.stats;
+  if (!stats || typeof stats.bytes !== 'number') return null;
+
+  const totalBytes = typeof stats.totalBytes === 'number' ? stats.totalBytes : 0;
+  return {
+    bytesTransferred: stats.bytes,
+    totalBytes,
+    percent: totalBytes > 0 ? Math.min(100, (stats.bytes / totalBytes) * 100) : null,
+    speedBps: typeof stats.speed === 'number' ? stats.speed : 0,
+    etaSeconds: typeof stats.eta === 'number' ? Math.round(stats.eta) : null,
+  };
+}
@@ -0,0 +1,274 @@
+// src/core/rclone-runner.ts
+import { spawn } from 'node:child_process';
+import { IRcloneConfig } from '../interfaces/config.types';
+import { Logger } from 'winston';
+
+export interface RcloneRunOptions {
+  timeoutMs?: number; // 超时后先发送 SIGTERM，宽限期后仍未退出则 SIGKILL
+  signal?: AbortSignal; // 外部取消信号
+  env?: Record<string, string>; // 追加到 rclone 进程的环境变量
+  onStdoutLine?: (line: string) => void;
+  onStderrLine?: (line: string) => void;
+}
+
+export interface RcloneRunResult {
+  success: boolean; // 进程正常退出且退出码为 0
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  timedOut: boolean;
+  aborted: boolean;
+  durationMs: number;
+  stdout: string; // 仅保留最后 OUTPUT_TAIL_LIMIT 个字符
+  stderr: string;
+  error?: string; // 进程无法启动等情况下的错误信息
+}
+
+const OUTPUT_TAIL_LIMIT = 64 * 1024;
+const KILL_GRACE_MS = 10 * 1000;
+// 进程退出后等待输出流关闭的最长时间 (子进程派生的孙进程可能仍持有管道)
+const STREAM_CLOSE_GRACE_MS = 2 * 1000;
+
+/**
+ * 逐行切分流式输出，保留未结束的行直到下一块数据到达。
+ */
+class LineSplitter {
+  private buffer = '';
+
+  constructor(private onLine: (line: string) => void) {}
+
+  push(chunk: string): void {
+    this.buffer += chunk;
+    const lines = this.buffer.split(/\r?\n|\r/);
+    this.buffer = lines.pop() ?? '';
+    lines.filter((line) => line !== '').forEach(this.onLine);
+  }
+
+  flush(): void {
+    if (this.buffer !== '') this.onLine(this.buffer);
+    this.buffer = '';
+  }
+}
+
+function appendTail(current: string, chunk: string): string {
+  const combined = current + chunk;
+  return combined.length > OUTPUT_TAIL_LIMIT ? combined.slice(-OUTPUT_TAIL_LIMIT) : combined;
+}
+
+/**
+ * 以 argv 方式 (不经过 shell) 调用 rclone，项目中所有 rclone 调用都应通过它进行。
+ * 路径中的引号、$、反引号等字符会原样传给 rclone，不会被 shell 解释。
+ */
+export class RcloneRunner {
+  constructor(
+    private rcloneConfig: IRcloneConfig,
+    private logger: Logger,
+    private binary: string = 'rclone' // 通过 PATH 查找，测试时可在 PATH 上放置假的 rclone 脚本
+  ) {}
+
+  /**
+   * 执行一条 rclone 命令。此方法不会抛出异常，所有失败都体现在返回结果中。
+   * @param args rclone 参数 (不含 --config，会根据配置自动添加)。
+   * @param options 超时、取消与逐行输出回调。
+   * @returns Promise<RcloneRunResult> 结构化的退出结果。
+   */
+  public run(args: string[], options: RcloneRunOptions = {}): Promise<RcloneRunResult> {
+    const fullArgs = this.rcloneConfig.configPath
+      ? ['--config', this.rcloneConfig.configPath, ...args]
+      : [...args];
+    this.logger.debug(`[RCLONE_COMMAND] ${this.binary} ${JSON.stringify(fullArgs)}`);
+
+    const startedAt = Date.now();
+    return new Promise<RcloneRunResult>((resolve) => {
+      let stdout = '';
+      let stderr = '';
+      let timedOut = false;
+      let aborted = false;
+      let spawnError: string | undefined;
+      let settled = false;
+      let killTimer: NodeJS.Timeout | undefined;
+      let streamCloseTimer: NodeJS.Timeout | undefined;
+
+      if (options.signal?.aborted) {
+        resolve({
+          success: false,
+          exitCode: null,
+          signal: null,
+          timedOut: false,
+          aborted: true,
+          durationMs: 0,
+          stdout: '',
+          stderr: '',
+          error: 'rclone 命令在启动前已被取消。',
+        });
+        return;
+      }
+
+      const child = spawn(this.binary, fullArgs, {
+        stdio: ['ignore', 'pipe', 'pipe'],
+        env: options.env ? { ...process.env, ...options.env } : process.env,
+      });
+
+      const terminate = () => {
+        if (child.exitCode !== null || child.signalCode !== null) return;
+        child.kill('SIGTERM');
+        killTimer = setTimeout(() => child.kill('SIGKILL'), KILL_GRACE_MS);
+      };
+
+      const timeoutTimer = options.timeoutMs
+        ? setTimeout(() => {
+            timedOut = true;
+            this.logger.warn(`rclone 命令超过 ${options.timeoutMs! / 1000} 秒未结束，正在终止...`);
+            terminate();
+          }, options.timeoutMs)
+        : undefined;
+
+      const onAbort = () => {
+        aborted = true;
+        this.logger.warn('rclone 命令收到取消信号，正在终止...');
+        terminate();
+      };
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+
+      const stdoutLines = new LineSplitter((line) => {
+        this.logger.debug(`[rclone stdout] ${line}`);
+        options.onStdoutLine?.(line);
+      });
+      const stderrLines = new LineSplitter((line) => {
+        this.logger.debug(`[rclone stderr] ${line}`);
+        options.onStderrLine?.(line);
+      });
+
+      child.stdout.setEncoding('utf8');
+      child.stderr.setEncoding('utf8');
+      child.stdout.on('data', (chunk: string) => {
+        stdout = appendTail(stdout, chunk);
+        stdoutLines.push(chunk);
+      });
+      child.stderr.on('data', (chunk: string) => {
+        stderr = appendTail(stderr, chunk);
+        stderrLines.push(chunk);
+      });
+
+      const finish = (exitCode: number | null, signal: NodeJS.Signals | null) => {
+        if (settled) return;
+        settled = true;
+        if (timeoutTimer) clearTimeout(timeoutTimer);
+        if (killTimer) clearTimeout(killTimer);
+        if (streamCloseTimer) clearTimeout(streamCloseTimer);
+        options.signal?.removeEventListener('abort', onAbort);
+        stdoutLines.flush();
+        stderrLines.flush();
+        const result: RcloneRunResult = {
+          success: exitCode === 0 && !timedOut && !aborted && !spawnError,
+          exitCode,
+          signal,
+          timedOut,
+          aborted,
+          durationMs: Date.now() - startedAt,
+          stdout,
+          stderr,
+          error: spawnError,
+        };
+        this.logger.debug(
+          `rclone 退出: 退出码 ${exitCode ?? 'N/A'}, 信号 ${signal ?? 'N/A'}, 耗时 ${result.durationMs}ms`
+        );
+        resolve(result);
+      };
+
+      child.on('error', (error) => {
+        spawnError = `无法执行 ${this.binary}: ${error.message}`;
+        this.logger.error(spawnError);
+        finish(null, null);
+      });
+      child.on('exit', (code, signal) => {
+        streamCloseTimer = setTimeout(() => finish(code, signal), STREAM_CLOSE_GRACE_MS);
+      });
+      child.on('close', (code, signal) => finish(code, signal));
+    });
+  }
+}
+
+/**
+ * 将失败的运行结果整理为一行便于记录的错误描述。
+ */
+export function describeRcloneFailure(result: RcloneRunResult): string {
+  if (result.error) return result.error;
+  if (result.timedOut) return `rclone 命令超时 (已运行 ${result.durationMs}ms)`;
+  if (result.aborted) return 'rclone 命令已被取消';
+  const stderrTail = result.stderr.trim().split('\n').slice(-5).join('\n');
+  return `退出码 ${result.exitCode ?? 'N/A'}${result.signal ? ` (信号 ${result.signal})` : ''}: ${stderrTail || '无错误输出'}`;
+}
+
+/**
+ * rclone 是否因远程控制 (rc) 端口被占用而未能启动。此时尚未传输任何内容，换一个端口重新运行即可。
+ */
+export function isRcBindFailure(result: RcloneRunResult): boolean {
+  return !result.success && RC_BIND_FAILURE_PATTERN.test(result.stderr);
+}
+
+export interface RcloneFailureClassification {
+  retryable: boolean; // false 表示重试也无法成功 (配置错误、本地文件不存在、授权失效等)
+  reason: string;
+}
+
+// stderr 中出现这些内容时，重试不会有帮助
+const FATAL_STDERR_PATTERNS: [RegExp, string][] = [
+  [/didn't find section in config file|config file ".*" not found/i, 'rclone 远程配置不存在'],
+  [
+    /invalid_grant|token (has been )?(expired or )?revoked|unauthorized_client/i,
+    '远程授权已失效，需要重新授权',
+  ],
+  [/account (is )?(suspended|disabled|locked)/i, '远程账户不可用'],
+  [/source (directory|file) not found|no such file or directory/i, '本地文件不存在'],
+  [/hash type not supported|hash unsupported/i, '远程不支持所需的哈希算法'],
+];
+
+// 开启 --rc 时远程控制的监听端口已被占用 (分配端口后被其他程序抢先占用)，rclone 会在传输前以退出码 1 退出
+const RC_BIND_FAILURE_PATTERN = /address already in use/i;
+
+// 网盘配额或限流类错误，稍后重试可能成功 (依赖退避延迟)
+const QUOTA_STDERR_PATTERN =
+  /quota|insufficient storage|storage (is )?full|rate ?limit|too many requests/i;
+
+/**
+ * 将失败的 rclone 运行结果分类为可重试或致命错误。
+ * 退出码含义参考 rclone 文档: 1 语法错误 (check 命令表示存在差异)、3 目录不存在、4 文件不存在、
+ * 5 临时错误、6 不可重试错误、7 致命错误、8 超过 --max-transfer。
+ */
+export function classifyRcloneFailure(
+  result: RcloneRunResult,
+  command: 'copy' | 'check'
+): RcloneFailureClassification {
+  if (result.error) return { retryable: false, reason: result.error };
+  if (result.timedOut) return { retryable: true, reason: 'rclone 命令超时' };
+  if (result.aborted) return { retryable: true, reason: 'rclone 命令已被取消' };
+
+  for (const [pattern, reason] of FATAL_STDERR_PATTERNS) {
+    if (pattern.test(result.stderr)) return { retryable: false, reason };
+  }
+  if (isRcBindFailure(result)) {
+    return { retryable: true, reason: 'rclone 远程控制端口被占用' };
+  }
+  if (QUOTA_STDERR_PATTERN.test(result.stderr)) {
+    return { retryable: true, reason: '网盘配额不足或请求被限流' };
+  }
+
+  switch (result.exitCode) {
+    case 1:
+      return command === 'check'
+        ? { retryable: true, reason: '本地与远程存在差异' }
+        : { retryable: false, reason: 'rclone 命令语法或参数错误' };
+    case 3:
+      return { retryable: false, reason: '目录不存在' };
+    case 4:
+      return { retryable: false, reason: '文件不存在' };
+    case 6:
+      return { retryable: false, reason: 'rclone 报告了不可重试的错误' };
+    case 7:
+      return { retryable: false, reason: 'rclone 报告了致命错误' };
+    case 8:
+      return { retryable: true, reason: '超过了 --max-transfer 传输上限' };
+    default:
+      return { retryable: true, reason: `rclone 退出码 ${result.exitCode ?? 'N/A'}` };
+  }
+}
@@ -0,0 +1,90 @@
+// src/core/remote-audit.ts
+import { ManifestEntry } from './checksum-manifest';
+import { RemoteFileInfo } from './uploader.service';
+import { formatBytes } from '../utils/format.utils';
+
+// 单个目标最多在错误信息中列出的问题数，其余只计数
+const MAX_REPORTED_PROBLEMS = 5;
+
+export interface RemoteAuditComparison {
+  ok: boolean;
+  method: string; // 实际执行的核对方式，如 "manifest (size+sha256)"、"listing"
+  problems: string[];
+  checkedFiles: number;
+}
+
+/**
+ * 将问题列表整理为一行错误信息，超出部分只给出数量。
+ */
+export function summarizeAuditProblems(problems: string[]): string {
+  const shown = problems.slice(0, MAX_REPORTED_PROBLEMS).join('; ');
+  const rest = problems.length - MAX_REPORTED_PROBLEMS;
+  return rest > 0 ? `${shown}; 另有 ${rest} 个问题` : shown;
+}
+
+/**
+ * 按文件清单核对远程文件列表: 清单中的每个文件都必须存在且大小一致，远程提供 SHA-256 时同时比较哈希。
+ * 远程多出的文件不视为问题。内容为单个文件时直接比较唯一的一项，不要求文件名一致 (远程路径可能经过清理)。
+ */
+export function compareWithManifest(
+  manifest: ManifestEntry[],
+  remoteFiles: RemoteFileInfo[],
+  singleFile: boolean
+): RemoteAuditComparison {
+  const remoteByPath = new Map(remoteFiles.map((file) => [file.path, file]));
+  const problems: string[] = [];
+  let hashedFiles = 0;
+  for (const entry of manifest) {
+    const remote =
+      singleFile && remoteFiles.length === 1
+        ? remoteFiles[0]
+        : remoteByPath.get(entry.relativePath);
+    if (!remote) {
+      problems.push(`缺失: ${entry.relativePath}`);
+      continue;
+    }
+    if (remote.size !== entry.size) {
+      problems.push(
+        `大小不一致: ${entry.relativePath} (清单 ${formatBytes(entry.size)}, 远程 ${formatBytes(remote.size)})`
+      );
+      continue;
+    }
+    if (remote.sha256) {
+      hashedFiles++;
+      if (remote.sha256.toLowerCase() !== entry.sha256) {
+        problems.push(`SHA-256 不一致: ${entry.relativePath}`);
+      }
+    }
+  }
+  return {
+    ok: problems.length === 0,
+    method: hashedFiles > 0 ? 'manifest (size+sha256)' : 'manifest (size)',
+    problems,
+    checkedFiles: manifest.length,
+  };
+}
+
+/**
+ * 没有文件清单时的核对: 远程必须至少有一个文件，且总大小不小于上传时记录的大小。
+ * 只比较下限，避免远程目录中其他文件 (如上传的清单) 导致误报。
+ */
+export function compareWithExpectedSize(
+  remoteFiles: RemoteFileInfo[],
+  expectedSize: bigint | number | null
+): RemoteAuditComparison {
+  const problems: string[] = [];
+  const totalSize = remoteFiles.reduce((sum, file) => sum + file.size, 0);
+  if (remoteFiles.length === 0) {
+    problems.push('远程没有任何文件');
+  } else if (expectedSize !== null && totalSize < Number(expectedSize)) {
+    problems.push(
+      `远程总大小 ${formatBytes(totalSize)} 小于上传时的大小 ${formatBytes(Number(expectedSize))}`
+    );
+  }
+  return {
+    ok: problems.length === 0,
+    method: 'listing',
+    problems,
+    checkedFiles: remoteFiles.length,
+  };
+}
@@ -0,0 +1,21 @@
+// src/core/retry-policy.ts
+import { IRetryPolicy } from '../interfaces/config.types';
+
+/**
+ * 计算第 attempt 次失败 (从 1 开始) 之后、下一次重试之前需要等待的时间。
+ * 指数增长: backoffBaseMs * backoffMultiplier^(attempt-1)，不超过 backoffMaxMs，
+ * 再加上 ±backoffJitter 比例的随机抖动，避免大量任务在同一时刻重试。
+ */
+export function computeBackoffDelayMs(
+  policy: IRetryPolicy,
+  attempt: number,
+  random: () => number = Math.random
+): number {
+  const exponent = Math.max(0, attempt - 1);
+  const baseDelay = Math.min(
+    policy.backoffBaseMs * Math.pow(policy.backoffMultiplier, exponent),
+    policy.backoffMaxMs
+  );
+  const jitter = baseDelay * policy.backoffJitter * (random() * 2 - 1);
+  return Math.max(0, Math.round(baseDelay + jitter));
+}
@@ -0,0 +1,73 @@
+// src/core/task-events.ts
+import { PrismaClient, TaskEvent, TaskStatus } from '@prisma/client';
+
+// stderr 摘录的最大长度 (字符)。rclone 的错误通常出现在输出末尾，因此保留末尾部分
+const STDERR_EXCERPT_MAX_LENGTH = 2000;
+
+export interface TaskEventDetails {
+  message?: string | null;
+  attempt?: number | null;
+  exitCode?: number | null;
+  stderr?: string | null;
+}
+
+export function excerptStderr(stderr: string | null | undefined): string | null {
+  const trimmed = stderr?.trim();
+  if (!trimmed) return null;
+  return trimmed.length > STDERR_EXCERPT_MAX_LENGTH
+    ? `…${trimmed.slice(-STDERR_EXCERPT_MAX_LENGTH)}`
+    : trimmed;
+}
+
+/**
+ * 记录一次任务状态变更。
+ */
+export async function recordTaskEvent(
+  prisma: PrismaClient,
+  taskId: string,
+  fromStatus: TaskStatus | null,
+  toStatus: TaskStatus,
+  details: TaskEventDetails = {}
+): Promise<TaskEvent> {
+  return prisma.taskEvent.create({
+    data: {
+      taskId,
+      fromStatus,
+      toStatus,
+      message: details.message ?? null,
+      attempt: details.attempt ?? null,
+      exitCode: details.exitCode ?? null,
+      stderrExcerpt: excerptStderr(details.stderr),
+    },
+  });
+}
+
+/**
+ * 按时间倒序列出任务的状态变更记录。
+ */
+export async function listTaskEvents(
+  prisma: PrismaClient,
+  taskId: string,
+  limit: number = 100
+): Promise<TaskEvent[]> {
+  return prisma.taskEvent.findMany({
+    where: { taskId },
+    orderBy: [{ createdAt: 'desc' }],
+    take: limit,
+  });
+}
+
+/**
+ * 删除早于保留期限的状态变更记录。retentionDays <= 0 表示永久保留。
+ * @returns Promise<number> 删除的记录数。
+ */
+export async function pruneTaskEvents(
+  prisma: PrismaClient,
+  retentionDays: number,
+  now: Date = new Date()
+): Promise<number> {
+  if (retentionDays <= 0) return 0;
+  const cutoff = new Date(now.getTime() - retentionDays * 24 * 60 * 60 * 1000);
+  const { count } = await prisma.taskEvent.deleteMany({ where: { createdAt: { lt: cutoff } } });
+  return count;
+}
@@ -1,31 +1,224 @@
 // src/core/task-processor.service.ts
+import fs from 'node:fs/promises';
 import path from 'node:path';
-import { PrismaClient, TaskStatus, TorrentTask } from '@prisma/client';
-import { IAppConfig, IArchivingRule } from '../interfaces/config.types';
+import {
+  DestinationStatus,
+  Prisma,
+  PrismaClient,
+  TaskDestination,
+  TaskStatus,
+  TorrentTask,
+} from '@prisma/client';
+import {
+  IAppConfig,
+  IQBittorrentInstanceConfig,
+  IRcloneDestinationConfig,
+  VerificationMode,
+} from '../interfaces/config.types';
 import { createLogger } from '../services/logger.service';
 import { Logger as WinstonLogger } from 'winston';
-import { QBittorrentService, QBittorrentTorrent } from './qbittorrent.service';
-import { UploaderService } from './uploader.service';
+import { QBittorrentService, QBittorrentTorrent, isDownloadComplete } from './qbittorrent.service';
+import { QBittorrentSyncClient, TorrentSyncResult } from './qbittorrent-sync';
+import { UploadResult, UploaderService, VerificationResult } from './uploader.service';
+import { FileManagerService } from './file-manager.service';
+import { MailerService } from './mailer.service';
+import { RcloneProgress } from './rclone-progress';
+import { EligibilityResult, evaluateEligibility } from './eligibility';
+import { RemotePathResolution, resolveRemotePath } from './archiving-rules';
+import { computeBackoffDelayMs } from './retry-policy';
+import { isVerificationMode } from './verification-modes';
+import {
+  ManifestEntry,
+  buildLocalManifest,
+  isSingleFileManifest,
+  loadTaskManifest,
+  renderManifestJson,
+  saveTaskManifest,
+} from './checksum-manifest';
+import { TaskEventDetails, pruneTaskEvents, recordTaskEvent } from './task-events';
+import {
+  RemoteAuditComparison,
+  compareWithExpectedSize,
+  compareWithManifest,
+  summarizeAuditProblems,
+} from './remote-audit';
+import {
+  lastSuccessfulPollGauge,
+  pollDurationHistogram,
+  remoteAuditsCounter,
+  uploadBytesHistogram,
+  uploadDurationHistogram,
+  uploadsCounter,
+  verificationsCounter,
+} from './metrics';
+import { formatBytes, formatDuration } from '../utils/format.utils';
+
+// 一个 qB 实例的配置、API 客户端与增量同步状态
+interface QBittorrentInstanceContext {
+  config: IQBittorrentInstanceConfig;
+  qbService: QBittorrentService;
+  torrentSync: QBittorrentSyncClient;
+}
+
+// 工作池中的通道: 每个通道有独立的并发上限
+type WorkerLane = 'upload' | 'verification' | 'cleanup';
+const WORKER_LANES: WorkerLane[] = ['verification', 'cleanup', 'upload'];
+// 停止时取消 rclone 进程后，再等待工作协程写入结果的时间
+const SHUTDOWN_ABORT_GRACE_MS = 15 * 1000;
+// 计算文件清单、验证等没有进度写入的长时间操作期间，刷新租约的最长间隔，实际间隔不超过租约时长的 1/3
+const LEASE_HEARTBEAT_MAX_INTERVAL_MS = 60 * 1000;
+
+// 有独立尝试次数和重试策略的处理阶段
+type RetryPhase = 'upload' | 'verification' | 'deleteLocal' | 'deleteQbTask';
+
+const RETRY_PHASES: Record<
+  RetryPhase,
+  { label: string; failedStatus: TaskStatus; attempts: (task: TorrentTask) => number }
+> = {
+  upload: {
+    label: '上传',
+    failedStatus: TaskStatus.UPLOAD_FAILED,
+    attempts: (task) => task.uploadAttempts,
+  },
+  verification: {
+    label: '验证',
+    failedStatus: TaskStatus.VERIFICATION_FAILED,
+    attempts: (task) => task.verificationAttempts,
+  },
+  deleteLocal: {
+    label: '删除本地文件',
+    failedStatus: TaskStatus.DELETE_LOCAL_FAILED,
+    attempts: (task) => task.deleteLocalAttempts,
+  },
+  deleteQbTask: {
+    label: '删除 qB 任务',
+    failedStatus: TaskStatus.DELETE_QB_TASK_FAILED,
+    attempts: (task) => task.deleteQbTaskAttempts,
+  },
+};
+
+// 处理过程中抛出异常时，根据任务原状态判断失败发生在哪个阶段
+const PHASE_BY_STATUS: Partial<Record<TaskStatus, RetryPhase>> = {
+  [TaskStatus.PENDING_UPLOAD]: 'upload',
+  [TaskStatus.UPLOADING]: 'upload',
+  [TaskStatus.UPLOAD_FAILED]: 'upload',
+  [TaskStatus.PENDING_VERIFICATION]: 'verification',
+  [TaskStatus.VERIFYING]: 'verification',
+  [TaskStatus.VERIFICATION_FAILED]: 'verification',
+  [TaskStatus.UPLOAD_VERIFIED_SUCCESS]: 'deleteLocal',
+  [TaskStatus.DELETING_LOCAL]: 'deleteLocal',
+  [TaskStatus.DELETE_LOCAL_FAILED]: 'deleteLocal',
+  [TaskStatus.LOCAL_DELETED]: 'deleteQbTask',
+  [TaskStatus.DELETING_QB_TASK]: 'deleteQbTask',
+  [TaskStatus.DELETE_QB_TASK_FAILED]: 'deleteQbTask',
+};
+
+// 控制类操作 (重试、跳过等) 的结果
+export interface TaskActionResult {
+  success: boolean;
+  message: string;
+  notFound?: boolean;
+  task?: TorrentTask;
+}
+
+// 一次远程巡检的结果统计
+export interface RemoteAuditRunResult {
+  checked: number; // 检查的任务数
+  passed: number;
+  failed: number; // 发现内容缺失或不一致，已转为 REMOTE_AUDIT_FAILED
+  inconclusive: number; // rclone 出错等原因无法得出结论，下次巡检会再次检查
+}
+
+// 按归档规则为种子选出的一个上传目标
+export interface PlannedDestination {
+  name: string;
+  remotePath: string; // 完整远程路径 (remote:path)
+  required: boolean;
+  verifyMode: VerificationMode | null; // 规则指定的验证方式，为空时使用 RCLONE_VERIFY_MODE
+}
+
+// explainTorrent 的结果: 资格判断、规则匹配与最终路径
+export interface TorrentExplanation extends RemotePathResolution {
+  instance: string; // 找到该种子的 qB 实例名称
+  torrent: QBittorrentTorrent;
+  eligibility: EligibilityResult;
+  destinations: PlannedDestination[];
+}
 
 export class TaskProcessorService {
   private logger: WinstonLogger;
   private isRunning: boolean = false;
+  private isPolling: boolean = false;
+  private isDispatching: boolean = false;
+  private redispatchRequested: boolean = false;
   private pollIntervalId?: NodeJS.Timeout;
-  private qbService: QBittorrentService;
+  private auditIntervalId?: NodeJS.Timeout;
+  private isAuditing: boolean = false;
+  // 正在运行的工作协程与远程巡检，停止时等待它们结束
+  private workerPromises = new Set<Promise<void>>();
+  private auditPromise?: Promise<RemoteAuditRunResult | null>;
+  private stopRequested: boolean = false;
+  // 停止时等待超时后用于取消仍在运行的 rclone 进程
+  private shutdownController = new AbortController();
+  // 退避等待结束时间早于下次轮询时，用此定时器按时唤醒分派
+  private retryWakeupTimer?: NodeJS.Timeout;
+  // qB 实例名称 -> 实例上下文，按配置顺序排列
+  private qbInstances = new Map<string, QBittorrentInstanceContext>();
   private uploaderService: UploaderService;
+  private fileManagerService: FileManagerService;
+  private mailerService: MailerService;
+  // 本进程当前正在处理的任务 (ID -> 所在通道)，同一任务不会被重复领取，租约回收时也会跳过它们
+  private activeTasks = new Map<string, WorkerLane>();
+  // 处于这些中间状态的任务若被中断，回收时重置到对应阶段的入口状态
+  private readonly IN_FLIGHT_RECOVERY_STATUS: Partial<Record<TaskStatus, TaskStatus>> = {
+    [TaskStatus.UPLOADING]: TaskStatus.PENDING_UPLOAD,
+    [TaskStatus.VERIFYING]: TaskStatus.PENDING_VERIFICATION,
+    [TaskStatus.DELETING_LOCAL]: TaskStatus.UPLOAD_VERIFIED_SUCCESS,
+    [TaskStatus.DELETING_QB_TASK]: TaskStatus.LOCAL_DELETED,
+  };
+
+  // 手动重试时，各状态对应的重新入队状态
+  private readonly RETRY_ENTRY_STATUS: Partial<Record<TaskStatus, TaskStatus>> = {
+    [TaskStatus.UPLOAD_FAILED]: TaskStatus.PENDING_UPLOAD,
+    [TaskStatus.VERIFICATION_FAILED]: TaskStatus.PENDING_VERIFICATION,
+    [TaskStatus.DELETE_LOCAL_FAILED]: TaskStatus.DELETE_LOCAL_FAILED,
+    [TaskStatus.DELETE_QB_TASK_FAILED]: TaskStatus.DELETE_QB_TASK_FAILED,
+    [TaskStatus.ERROR]: TaskStatus.PENDING_UPLOAD,
+    [TaskStatus.SKIPPED]: TaskStatus.PENDING_UPLOAD,
+    // 巡检失败的目标已重置为 FAILED，重新上传 (本地文件已删除时 retryTask 会拒绝)
+    [TaskStatus.REMOTE_AUDIT_FAILED]: TaskStatus.PENDING_UPLOAD,
+  };
 
   constructor(
     private config: IAppConfig,
     private prisma: PrismaClient
   ) {
     this.logger = createLogger('TaskProcessorService');
-    this.qbService = new QBittorrentService(
-      this.config.qbittorrent,
-      this.logger.child({ module: 'QBittorrentService' })
-    );
+    for (const instanceConfig of this.config.qbittorrentInstances) {
+      const qbService = new QBittorrentService(
+        instanceConfig,
+        this.logger.child({ module: `QBittorrentService:${instanceConfig.name}` })
+      );
+      this.qbInstances.set(instanceConfig.name, {
+        config: instanceConfig,
+        qbService,
+        torrentSync: new QBittorrentSyncClient(
+          qbService,
+          this.logger.child({ module: `QBittorrentSyncClient:${instanceConfig.name}` })
+        ),
+      });
+    }
     this.uploaderService = new UploaderService(
       this.config.rclone,
-      this.logger.child({ module: 'UploaderService' })
+      this.logger.child({ module: 'UploaderService' }),
+      this.config.taskProcessor.maxConcurrentUploads
+    );
+    this.fileManagerService = new FileManagerService(
+      this.logger.child({ module: 'FileManagerService' })
+    );
+    this.mailerService = new MailerService(
+      this.config.mailer,
+      this.logger.child({ module: 'MailerService' })
     );
   }
 
@@ -35,265 +228,1215 @@ export class TaskProcessorService {
       return;
     }
     this.isRunning = true;
+    this.stopRequested = false;
+    this.shutdownController = new AbortController();
     this.logger.info('任务处理器已启动。');
     this.logger.info(`每隔 ${this.config.taskProcessor.pollIntervalMs / 1000} 秒轮询。`);
+    if (this.config.dryRun) {
+      this.logger.warn('试运行模式已开启: 只记录处理计划，不会上传、删除任何文件或修改 qB。');
+    } else {
+      await this.recoverAbandonedTasks('startup');
+      await this.failExhaustedTasks();
+    }
     await this.processTasks();
     this.pollIntervalId = setInterval(async () => {
       if (!this.isRunning) return;
       await this.processTasks();
     }, this.config.taskProcessor.pollIntervalMs);
+    if (this.config.remoteAudit.enabled && !this.config.dryRun) {
+      this.logger.info(
+        `远程巡检已启用: 每隔 ${formatDuration(this.config.remoteAudit.intervalMs)} 检查最多 ${this.config.remoteAudit.batchSize} 个已完成的任务。`
+      );
+      this.auditIntervalId = setInterval(async () => {
+        if (!this.isRunning) return;
+        this.auditPromise = this.runRemoteAudit();
+        await this.auditPromise;
+        this.auditPromise = undefined;
+      }, this.config.remoteAudit.intervalMs);
+    }
   }
 
-  public stop(): void {
+  /**
+   * 停止轮询与分派，并等待正在处理的任务结束 (最多 TASK_SHUTDOWN_TIMEOUT_MS)。
+   * 超时后取消仍在运行的 rclone 进程，并把仍处于中间状态的任务重置为对应阶段的入口状态，
+   * 这样断开数据库前不会留下被本进程占用、要等租约超时才能恢复的任务。
+   */
+  public async stop(): Promise<void> {
     if (!this.isRunning) {
       this.logger.warn('任务处理器未在运行中。');
       return;
     }
     this.logger.info('正在停止任务处理器...');
     this.isRunning = false;
+    this.stopRequested = true;
     if (this.pollIntervalId) {
       clearInterval(this.pollIntervalId);
       this.pollIntervalId = undefined;
     }
+    if (this.retryWakeupTimer) {
+      clearTimeout(this.retryWakeupTimer);
+      this.retryWakeupTimer = undefined;
+    }
+    if (this.auditIntervalId) {
+      clearInterval(this.auditIntervalId);
+      this.auditIntervalId = undefined;
+    }
+    await this.waitForWorkers();
     this.logger.info('任务处理器已停止。');
   }
 
-  private calculateRemoteRelativePath(
-    torrent: QBittorrentTorrent,
-    rules: IArchivingRule[]
-  ): string {
-    // ... (此方法与上一版本相同，保持不变)
-    this.logger.debug(`开始为种子 "${torrent.name}" 计算远程路径...`);
-    let defaultRuleActionPathPattern: string | undefined = undefined;
-    const torrentTagsArray = torrent.tags
-      .split(',')
-      .map((tag) => tag.trim().toLowerCase())
-      .filter((tag) => tag !== '');
-    const primaryTag = torrentTagsArray.length > 0 ? torrentTagsArray[0] : 'UnTagged';
-    const category = torrent.category || 'Uncategorized';
-    for (const rule of rules) {
-      let match = false;
-      if (rule.if === 'default') {
-        defaultRuleActionPathPattern = rule.then.remotePath;
-        continue;
+  private async waitForWorkers(): Promise<void> {
+    const pending: Promise<unknown>[] = [...this.workerPromises];
+    if (this.auditPromise) pending.push(this.auditPromise);
+    if (pending.length === 0) return;
+    const timeoutMs = this.config.taskProcessor.shutdownTimeoutMs;
+    this.logger.info(
+      `等待 ${this.activeTasks.size} 个正在处理的任务结束 (最多 ${formatDuration(timeoutMs)})...`
+    );
+    const settled = (waitMs: number) =>
+      new Promise<boolean>((resolve) => {
+        const timer = setTimeout(() => resolve(false), waitMs);
+        void Promise.allSettled(pending).then(() => {
+          clearTimeout(timer);
+          resolve(true);
+        });
+      });
+    if (await settled(timeoutMs)) return;
+
+    this.logger.warn(
+      `等待超时，取消 ${this.activeTasks.size} 个仍在处理的任务的 rclone 进程 (下次启动时会重新处理)。`
+    );
+    this.shutdownController.abort();
+    if (await settled(SHUTDOWN_ABORT_GRACE_MS)) return;
+    for (const taskId of this.activeTasks.keys()) {
+      const task = await this.prisma.torrentTask.findUnique({ where: { id: taskId } });
+      const recoveryStatus = task && this.IN_FLIGHT_RECOVERY_STATUS[task.status];
+      if (!task || !recoveryStatus) continue;
+      await this.transitionTask(task, {
+        status: recoveryStatus,
+        errorMessage: `进程退出时任务仍处于 ${task.status} 状态，已重置为 ${recoveryStatus} 以便重试。`,
+        updatedAt: new Date(),
+      });
+    }
+  }
+
+  /**
+   * 立即触发一次轮询 (不等待其完成)。上一轮仍在进行时不会重复触发。
+   */
+  public triggerPoll(): TaskActionResult {
+    if (this.isPolling) {
+      return { success: false, message: '上一个任务处理周期尚未结束，请稍后再试。' };
+    }
+    this.logger.info('收到手动触发轮询请求。');
+    void this.processTasks();
+    return { success: true, message: '已触发一次轮询。' };
+  }
+
+  /**
+   * 按任务 ID、种子哈希或 "实例名:哈希" 查找任务。
+   * 同一哈希存在于多个 qB 实例时，只给出哈希会返回最早创建的任务。
+   */
+  public async resolveTask(idOrHash: string): Promise<TorrentTask | null> {
+    const separatorIndex = idOrHash.lastIndexOf(':');
+    if (separatorIndex > 0) {
+      return this.prisma.torrentTask.findUnique({
+        where: {
+          instance_hash: {
+            instance: idOrHash.slice(0, separatorIndex),
+            hash: idOrHash.slice(separatorIndex + 1).toLowerCase(),
+          },
+        },
+      });
+    }
+    return this.prisma.torrentTask.findFirst({
+      where: { OR: [{ id: idOrHash }, { hash: idOrHash.toLowerCase() }] },
+      orderBy: [{ createdAt: 'asc' }],
+    });
+  }
+
+  /**
+   * 在指定的 qB 实例中查找种子；未指定实例时按配置顺序在所有实例中查找，返回第一个找到的。
+   * 指定的实例不存在时返回 undefined，找不到种子时返回 null。
+   */
+  private async findTorrentInInstances(
+    hash: string,
+    instanceName?: string
+  ): Promise<
+    { instance: QBittorrentInstanceContext; torrent: QBittorrentTorrent } | null | undefined
+  > {
+    let instances: QBittorrentInstanceContext[];
+    if (instanceName) {
+      const instance = this.qbInstances.get(instanceName);
+      if (!instance) return undefined;
+      instances = [instance];
+    } else {
+      instances = [...this.qbInstances.values()];
+    }
+    for (const instance of instances) {
+      const [torrent] = await instance.qbService.getTorrents({ hashes: hash });
+      if (torrent) return { instance, torrent };
+    }
+    return null;
+  }
+
+  /**
+   * 执行一次完整的处理周期 (同步 qB、分派任务)，并等待本次领取的所有任务处理完毕。
+   * 供命令行工具使用，不会启动定时轮询。
+   */
+  public async runOnce(): Promise<void> {
+    if (this.isRunning) {
+      this.logger.warn('任务处理器已在运行中，忽略单次运行请求。');
+      return;
+    }
+    this.isRunning = true;
+    try {
+      // 不执行 start() 中的启动恢复: processTasks 只按租约模式回收中断的任务，
+      // 不会重置另一个正在运行的进程 (如守护进程) 中仍在处理的任务
+      await this.processTasks();
+      while (this.activeTasks.size > 0 || this.isDispatching) {
+        await new Promise((resolve) => setTimeout(resolve, 1000));
       }
-      const conditions = rule.if;
-      if (conditions.category && category.toLowerCase() === conditions.category.toLowerCase()) {
-        match = true;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  public isTaskActive(taskId: string): boolean {
+    return this.activeTasks.has(taskId);
+  }
+
+  /**
+   * 手动重试失败、出错或已跳过的任务: 重置各阶段的尝试次数，并将其放回对应阶段的入口状态。
+   */
+  public async retryTask(taskId: string): Promise<TaskActionResult> {
+    const task = await this.prisma.torrentTask.findUnique({ where: { id: taskId } });
+    if (!task) return { success: false, notFound: true, message: `任务 ${taskId} 不存在。` };
+    if (this.activeTasks.has(task.id)) {
+      return { success: false, message: `任务 "${task.name}" 正在处理中，无法重试。` };
+    }
+    // 因失败转为 ERROR 或被手动跳过的任务回到当时所在的阶段，避免 (例如) 本地文件已删除后又从上传重新开始
+    const retryStatus =
+      (task.status === TaskStatus.ERROR || task.status === TaskStatus.SKIPPED) &&
+      task.lastFailedStatus
+        ? this.RETRY_ENTRY_STATUS[task.lastFailedStatus]
+        : this.RETRY_ENTRY_STATUS[task.status];
+    if (!retryStatus) {
+      return {
+        success: false,
+        message: `任务 "${task.name}" 当前状态为 ${task.status}，只有失败、出错或已跳过的任务可以重试。`,
+      };
+    }
+    // 远程巡检失败等情况下本地文件和 qB 任务可能早已删除，重新上传必然失败
+    if (retryStatus === TaskStatus.PENDING_UPLOAD && !(await this.localContentExists(task))) {
+      return {
+        success: false,
+        message: `任务 "${task.name}" 的本地内容 "${task.localPath}" 已不存在，无法重新上传。请在 qBittorrent 中重新添加该种子做种或下载 (或把内容恢复到原路径) 后再重试。`,
+      };
+    }
+    const updatedTask = await this.transitionTask(
+      task,
+      {
+        status: retryStatus,
+        uploadAttempts: 0,
+        verificationAttempts: 0,
+        deleteLocalAttempts: 0,
+        deleteQbTaskAttempts: 0,
+        errorMessage: null,
+        nextAttemptAt: null,
+      },
+      { message: `手动重试 (原状态 ${task.status})，尝试次数已重置。` }
+    );
+    this.logger.info(
+      `任务 "${task.name}" (ID: ${task.id}) 已手动重试: ${task.status} -> ${retryStatus}，尝试次数已重置。`
+    );
+    void this.dispatchTasks();
+    return { success: true, message: `任务已重置为 ${retryStatus}。`, task: updatedTask };
+  }
+
+  private async localContentExists(task: TorrentTask): Promise<boolean> {
+    try {
+      await fs.access(task.localPath);
+      return true;
+    } catch (error) {
+      // 权限等其他错误交给上传阶段报告
+      return (error as NodeJS.ErrnoException).code !== 'ENOENT';
+    }
+  }
+
+  /**
+   * 手动跳过任务 (标记为 SKIPPED)，之后不会再被处理。
+   */
+  public async skipTask(taskId: string): Promise<TaskActionResult> {
+    const task = await this.prisma.torrentTask.findUnique({ where: { id: taskId } });
+    if (!task) return { success: false, notFound: true, message: `任务 ${taskId} 不存在。` };
+    if (this.activeTasks.has(task.id)) {
+      return { success: false, message: `任务 "${task.name}" 正在处理中，无法跳过。` };
+    }
+    // 中间状态的任务可能正在由另一个进程 (如守护进程) 处理
+    if (this.IN_FLIGHT_RECOVERY_STATUS[task.status]) {
+      return {
+        success: false,
+        message: `任务 "${task.name}" 处于 ${task.status} 状态，可能正在处理中，请等待其结束后再跳过。`,
+      };
+    }
+    if (task.status === TaskStatus.COMPLETED || task.status === TaskStatus.SKIPPED) {
+      return { success: false, message: `任务 "${task.name}" 已经是 ${task.status} 状态。` };
+    }
+    if (task.status === TaskStatus.QB_TASK_DELETED) {
+      return { success: false, message: `任务 "${task.name}" 所有步骤均已完成，无需跳过。` };
+    }
+    // 记录跳过时所处的阶段，之后手动重试从该阶段继续 (如本地文件已删除时不会回到上传阶段)
+    const phase = PHASE_BY_STATUS[task.status];
+    const resumeStatus =
+      task.status === TaskStatus.ERROR
+        ? task.lastFailedStatus
+        : phase
+          ? RETRY_PHASES[phase].failedStatus
+          : null;
+    const updatedTask = await this.transitionTask(task, {
+      status: TaskStatus.SKIPPED,
+      lastFailedStatus: resumeStatus,
+      errorMessage: `已手动跳过 (原状态 ${task.status})。`,
+      nextAttemptAt: null,
+    });
+    this.logger.info(`任务 "${task.name}" (ID: ${task.id}) 已手动跳过 (原状态 ${task.status})。`);
+    return { success: true, message: '任务已标记为 SKIPPED。', task: updatedTask };
+  }
+
+  /**
+   * 按当前的归档规则重新计算任务的远程路径。
+   * 只允许在上传开始前 (或失败、跳过后) 重新计算，避免与已上传的内容不一致。
+   */
+  public async recalculateTaskRemotePath(taskId: string): Promise<TaskActionResult> {
+    const task = await this.prisma.torrentTask.findUnique({ where: { id: taskId } });
+    if (!task) return { success: false, notFound: true, message: `任务 ${taskId} 不存在。` };
+    if (this.activeTasks.has(task.id)) {
+      return { success: false, message: `任务 "${task.name}" 正在处理中，无法重新计算路径。` };
+    }
+    const allowedStatuses: TaskStatus[] = [
+      TaskStatus.PENDING_UPLOAD,
+      TaskStatus.UPLOAD_FAILED,
+      TaskStatus.ERROR,
+      TaskStatus.SKIPPED,
+    ];
+    if (!allowedStatuses.includes(task.status)) {
+      return {
+        success: false,
+        message: `任务 "${task.name}" 当前状态为 ${task.status}，内容可能已上传，不能重新计算路径。`,
+      };
+    }
+    const found = await this.findTorrentInInstances(task.hash, task.instance);
+    if (found === undefined) {
+      return {
+        success: false,
+        message: `未配置任务 "${task.name}" 所属的 qB 实例 "${task.instance}"。`,
+      };
+    }
+    if (!found) {
+      return {
+        success: false,
+        message: `qB 实例 "${task.instance}" 中找不到任务 "${task.name}" 对应的种子。`,
+      };
+    }
+    const { relativePath: calculatedRemotePath, destinations } = await this.planRemoteTargets(
+      found.instance,
+      found.torrent
+    );
+    // 上传目标随路径一起重新生成，之前已上传到旧路径的内容不再计入
+    const updatedTask = await this.prisma.torrentTask.update({
+      where: { id: task.id },
+      data: {
+        calculatedRemotePath,
+        destinations: { deleteMany: {}, create: this.toDestinationRecords(destinations) },
+      },
+    });
+    this.logger.info(
+      `任务 "${task.name}" (ID: ${task.id}) 的远程路径已重新计算: "${task.calculatedRemotePath}" -> "${calculatedRemotePath}"`
+    );
+    return {
+      success: true,
+      message: `远程路径已更新为 "${calculatedRemotePath}"。`,
+      task: updatedTask,
+    };
+  }
+
+  /**
+   * 将因进程崩溃或重启而卡在中间状态 (UPLOADING、VERIFYING 等) 的任务重置为可重试状态。
+   * - startup: 启动时本进程尚未处理任何任务，所有中间状态的任务都视为已中断。
+   * - lease: 运行中，仅回收 lastAttemptAt 早于租约时长且不在本进程处理中的任务。
+   * @returns Promise<number> 被回收的任务数量。
+   */
+  private async recoverAbandonedTasks(mode: 'startup' | 'lease'): Promise<number> {
+    const leaseTimeoutMs = this.config.taskProcessor.leaseTimeoutMs;
+    const leaseCutoff = new Date(Date.now() - leaseTimeoutMs);
+    let recoveredCount = 0;
+    for (const [inFlightStatus, recoveryStatus] of Object.entries(
+      this.IN_FLIGHT_RECOVERY_STATUS
+    ) as [TaskStatus, TaskStatus][]) {
+      const errorMessage =
+        mode === 'startup'
+          ? `进程启动时发现任务仍处于 ${inFlightStatus} 状态 (上次运行被中断)，已重置为 ${recoveryStatus} 以便重试。`
+          : `任务处于 ${inFlightStatus} 状态超过租约时长 (${leaseTimeoutMs / 1000} 秒) 未更新，视为已中断，已重置为 ${recoveryStatus} 以便重试。`;
+      // 逐个更新 (而非 updateMany)，以便为每个任务写入状态变更记录
+      const abandonedTasks = await this.prisma.torrentTask.findMany({
+        where: {
+          status: inFlightStatus,
+          id: { notIn: [...this.activeTasks.keys()] },
+          ...(mode === 'lease' ? { lastAttemptAt: { lt: leaseCutoff } } : {}),
+        },
+      });
+      for (const task of abandonedTasks) {
+        await this.transitionTask(task, {
+          status: recoveryStatus,
+          errorMessage,
+          updatedAt: new Date(),
+        });
       }
-      if (!match && conditions.tags) {
-        if (Array.isArray(conditions.tags)) {
-          if (conditions.tags.some((tag) => torrentTagsArray.includes(tag.toLowerCase()))) {
-            match = true;
-          }
-        } else if (torrentTagsArray.includes(conditions.tags.toLowerCase())) {
-          match = true;
-        }
+      const count = abandonedTasks.length;
+      if (count > 0) {
+        this.logger.warn(
+          `已将 ${count} 个处于 ${inFlightStatus} 状态的中断任务重置为 ${recoveryStatus}。`
+        );
+        recoveredCount += count;
       }
-      if (!match && conditions.name_matches) {
-        try {
-          const regex = new RegExp(conditions.name_matches, 'i');
-          if (regex.test(torrent.name)) {
-            match = true;
-          }
-        } catch (e) {
-          this.logger.warn(`归档规则中的正则表达式无效: "${conditions.name_matches}"`, e);
-        }
+    }
+    if (mode === 'startup') {
+      this.logger.info(`启动恢复检查完成，共重置 ${recoveredCount} 个中断任务。`);
+    }
+    return recoveredCount;
+  }
+
+  private async resolveTorrentRemotePath(
+    instance: QBittorrentInstanceContext,
+    torrent: QBittorrentTorrent
+  ): Promise<RemotePathResolution> {
+    let fileNames: string[] | undefined;
+    return resolveRemotePath(
+      instance.config.archivingRules,
+      {
+        torrent,
+        now: new Date(),
+        getFileNames: async () => {
+          fileNames ??= (await instance.qbService.getTorrentFiles(torrent.hash)).map((f) => f.name);
+          return fileNames;
+        },
+      },
+      this.config.rclone.pathSanitizeMode,
+      (_rule, index, e) => {
+        this.logger.warn(`归档规则 #${index} 判断时出错 (如正则表达式无效)，已跳过此规则。`, e);
       }
-      if (match) {
-        this.logger.info(
-          `种子 "${torrent.name}" 匹配规则: ${rule.description || JSON.stringify(rule.if)}`
+    );
+  }
+
+  /**
+   * 按归档规则计算种子的远程相对路径，并选出上传目标。
+   */
+  private async planRemoteTargets(
+    instance: QBittorrentInstanceContext,
+    torrent: QBittorrentTorrent
+  ): Promise<{ relativePath: string; destinations: PlannedDestination[] }> {
+    this.logger.debug(`开始为种子 "${torrent.name}" 计算远程路径...`);
+    const resolution = await this.resolveTorrentRemotePath(instance, torrent);
+    const { match, template, relativePath } = resolution;
+    if (match.rule && !match.isDefault) {
+      this.logger.info(
+        `种子 "${torrent.name}" 匹配规则 #${match.ruleIndex}: ${match.rule.description || JSON.stringify(match.rule.if)} (${match.reasons.join('; ')})`
+      );
+    } else if (match.rule) {
+      this.logger.info(`种子 "${torrent.name}" 使用默认归档规则。`);
+    } else {
+      this.logger.warn(
+        `种子 "${torrent.name}" 未匹配任何特定规则，也无默认规则提供路径模式。将按 Tag/Category/Name 结构构建路径。`
+      );
+    }
+    this.logger.debug(`模板 "${template}" 计算得到的远程相对路径: "${relativePath}"`);
+    return { relativePath, destinations: this.planDestinations(resolution) };
+  }
+
+  /**
+   * 按匹配规则的 then.remotes 选出上传目标 (未设置时使用默认目标)，并加入所有 always 目标。
+   * 结果按配置顺序排列。
+   */
+  private planDestinations(resolution: RemotePathResolution): PlannedDestination[] {
+    const allDestinations = this.config.rclone.destinations;
+    const { remotes, verify } = resolution.match.rule?.then ?? {};
+    const selected = new Set(
+      remotes === undefined
+        ? [allDestinations[0].name]
+        : typeof remotes === 'string'
+          ? [remotes]
+          : remotes
+    );
+    return allDestinations
+      .filter((destination) => selected.has(destination.name) || destination.always)
+      .map((destination) => ({
+        name: destination.name,
+        remotePath: this.buildFullRemotePath(destination, resolution.relativePath),
+        required: destination.required,
+        verifyMode: verify ?? null,
+      }));
+  }
+
+  private toDestinationRecords(
+    destinations: PlannedDestination[]
+  ): Prisma.TaskDestinationCreateWithoutTaskInput[] {
+    return destinations.map((destination) => ({
+      destination: destination.name,
+      remotePath: destination.remotePath,
+      required: destination.required,
+      verifyMode: destination.verifyMode,
+    }));
+  }
+
+  /**
+   * 读取任务的上传目标。旧版本创建的任务没有目标记录，此时按默认目标补建一条
+   * (任务已进入验证阶段时视为已上传)。
+   */
+  private async getTaskDestinations(task: TorrentTask): Promise<TaskDestination[]> {
+    const destinations = await this.prisma.taskDestination.findMany({
+      where: { taskId: task.id },
+      orderBy: [{ createdAt: 'asc' }],
+    });
+    if (destinations.length > 0) return destinations;
+    const defaultDestination = this.config.rclone.destinations[0];
+    const relativePath = task.calculatedRemotePath || path.basename(task.localPath);
+    if (!task.calculatedRemotePath) {
+      this.logger.warn(
+        `任务 "${task.name}" 未找到 calculatedRemotePath, 将使用文件名 "${relativePath}" 作为远程相对路径。`
+      );
+    }
+    const uploaded =
+      task.status === TaskStatus.PENDING_VERIFICATION ||
+      task.status === TaskStatus.VERIFYING ||
+      task.status === TaskStatus.VERIFICATION_FAILED;
+    // 已通过验证的任务 (如远程巡检检查的已完成任务) 的目标同样视为已验证
+    const verifiedPhase = PHASE_BY_STATUS[task.status];
+    const verified =
+      verifiedPhase === 'deleteLocal' ||
+      verifiedPhase === 'deleteQbTask' ||
+      task.status === TaskStatus.QB_TASK_DELETED ||
+      task.status === TaskStatus.COMPLETED;
+    const created = await this.prisma.taskDestination.create({
+      data: {
+        taskId: task.id,
+        destination: defaultDestination.name,
+        remotePath: this.buildFullRemotePath(defaultDestination, relativePath),
+        status: verified
+          ? DestinationStatus.VERIFIED
+          : uploaded
+            ? DestinationStatus.UPLOADED
+            : DestinationStatus.PENDING,
+        uploadedAt: uploaded || verified ? (task.uploadFinishedAt ?? new Date()) : null,
+        verifiedAt: verified ? task.updatedAt : null,
+      },
+    });
+    return [created];
+  }
+
+  /**
+   * 从 qB 获取种子，说明它是否符合处理条件、匹配了哪条归档规则以及最终的远程路径。
+   * 未指定实例时按配置顺序在所有 qB 实例中查找。种子不存在时返回 null。
+   */
+  public async explainTorrent(
+    hash: string,
+    instanceName?: string
+  ): Promise<TorrentExplanation | null> {
+    const found = await this.findTorrentInInstances(hash.toLowerCase(), instanceName);
+    if (found === undefined) throw new Error(`未配置名为 "${instanceName}" 的 qB 实例。`);
+    if (!found) return null;
+    const { instance, torrent } = found;
+    const resolution = await this.resolveTorrentRemotePath(instance, torrent);
+    return {
+      instance: instance.config.name,
+      torrent,
+      eligibility: evaluateEligibility(torrent, instance.config.eligibility),
+      ...resolution,
+      destinations: this.planDestinations(resolution),
+    };
+  }
+
+  /**
+   * 立即处理单个种子 (由 qB 的 "Torrent 完成时运行外部程序" 通过控制 API 或 CLI 触发):
+   * 只从 qB 获取这一个种子，若已下载完成且符合处理条件，则创建任务并立即分派。
+   * 不符合条件的种子不会创建任务，之后仍由定时轮询继续检查。
+   * 未指定实例时按配置顺序在所有 qB 实例中查找该种子。
+   */
+  public async enqueueTorrent(hash: string, instanceName?: string): Promise<TaskActionResult> {
+    const normalizedHash = hash.trim().toLowerCase();
+    if (!/^([0-9a-f]{40}|[0-9a-f]{64})$/.test(normalizedHash)) {
+      return { success: false, message: `无效的种子哈希: ${hash}` };
+    }
+    const found = await this.findTorrentInInstances(normalizedHash, instanceName);
+    if (found === undefined) {
+      return {
+        success: false,
+        notFound: true,
+        message: `未配置名为 "${instanceName}" 的 qB 实例。`,
+      };
+    }
+    if (!found) {
+      return {
+        success: false,
+        notFound: true,
+        message: `qBittorrent 中找不到哈希为 ${normalizedHash} 的种子。`,
+      };
+    }
+    const { instance, torrent } = found;
+    if (!isDownloadComplete(torrent)) {
+      return {
+        success: true,
+        message: `种子 "${torrent.name}" 尚未下载完成 (状态 ${torrent.state})，将由定时轮询继续检查。`,
+      };
+    }
+    const eligibility = evaluateEligibility(torrent, instance.config.eligibility);
+    if (!eligibility.eligible) {
+      return {
+        success: true,
+        message: `种子 "${torrent.name}" 暂不符合处理条件 (${eligibility.reasons.join('; ')})，将由定时轮询继续检查。`,
+      };
+    }
+    if (this.config.dryRun) {
+      return {
+        success: true,
+        message: `试运行模式: 种子 "${torrent.name}" 符合处理条件，但不会创建任务。`,
+      };
+    }
+    const { task, created } = await this.createTaskForTorrent(
+      instance,
+      torrent,
+      '收到下载完成通知'
+    );
+    void this.dispatchTasks();
+    return {
+      success: true,
+      message: created
+        ? `已为种子 "${torrent.name}" 创建任务。`
+        : `种子 "${torrent.name}" 已有任务，当前状态 ${task.status}。`,
+      task,
+    };
+  }
+
+  /**
+   * 为种子创建 PENDING_UPLOAD 任务 (计算本地路径与远程路径)。数据库中已有该实例中该种子的任务时直接返回它。
+   */
+  private async createTaskForTorrent(
+    instance: QBittorrentInstanceContext,
+    qbTorrent: QBittorrentTorrent,
+    source: string
+  ): Promise<{ task: TorrentTask; created: boolean }> {
+    const taskKey = { instance: instance.config.name, hash: qbTorrent.hash };
+    const existingTask = await this.prisma.torrentTask.findUnique({
+      where: { instance_hash: taskKey },
+    });
+    if (existingTask) {
+      this.logger.debug(
+        `种子 "${qbTorrent.name}" (哈希: ${qbTorrent.hash}) 已存在于数据库，状态为 ${existingTask.status}。跳过创建。`
+      );
+      return { task: existingTask, created: false };
+    }
+    this.logger.info(
+      `${source}: "${qbTorrent.name}" (qB 实例: ${instance.config.name}, 哈希: ${qbTorrent.hash}). 正在添加到数据库...`
+    );
+    const localContentPath = this.getLocalContentPath(qbTorrent);
+    const { relativePath: calculatedRemoteRelPath, destinations } = await this.planRemoteTargets(
+      instance,
+      qbTorrent
+    );
+    let createdTask: TorrentTask;
+    try {
+      createdTask = await this.prisma.torrentTask.create({
+        data: {
+          instance: instance.config.name,
+          hash: qbTorrent.hash,
+          name: qbTorrent.name,
+          localPath: localContentPath,
+          savePath: qbTorrent.save_path,
+          addedAt: new Date(qbTorrent.added_on * 1000),
+          completedAt:
+            qbTorrent.completion_on > 0 ? new Date(qbTorrent.completion_on * 1000) : null,
+          status: TaskStatus.PENDING_UPLOAD,
+          uploadSize: BigInt(qbTorrent.size),
+          calculatedRemotePath: calculatedRemoteRelPath,
+          destinations: { create: this.toDestinationRecords(destinations) },
+        },
+      });
+    } catch (error) {
+      // 完成通知与定时轮询可能同时为同一个种子创建任务
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        const task = await this.prisma.torrentTask.findUnique({
+          where: { instance_hash: taskKey },
+        });
+        if (task) return { task, created: false };
+      }
+      throw error;
+    }
+    await recordTaskEvent(this.prisma, createdTask.id, null, createdTask.status, {
+      message: `${source}，远程路径: "${calculatedRemoteRelPath}"，上传目标: ${destinations.map((d) => d.name).join(', ')}`,
+    });
+    return { task: createdTask, created: true };
+  }
+
+  private buildFullRemotePath(destination: IRcloneDestinationConfig, relativePath: string): string {
+    const remoteBasePath = destination.uploadPath.replace(/\/$/, '');
+    return `${destination.remoteName}:${remoteBasePath}/${relativePath.replace(/^\//, '')}`;
+  }
+
+  /**
+   * 根据任务的最新状态决定是否发送通知邮件: 完成或进入 ERROR 时发送。
+   * 阶段失败转为 ERROR 的通知由 recordPhaseFailure 发送 (带有阶段信息)。
+   */
+  private async notifyTaskOutcome(task: TorrentTask): Promise<void> {
+    const remotePath = await this.getNotificationRemotePath(task);
+    if (task.status === TaskStatus.COMPLETED) {
+      await this.mailerService.notifyTask('completed', task, { remotePath });
+    } else if (task.status === TaskStatus.ERROR) {
+      await this.mailerService.notifyTask('error', task, { remotePath });
+    }
+  }
+
+  private async getNotificationRemotePath(task: TorrentTask): Promise<string | undefined> {
+    const destinations = await this.prisma.taskDestination.findMany({
+      where: { taskId: task.id },
+      orderBy: [{ createdAt: 'asc' }],
+    });
+    return destinations.length > 0
+      ? destinations.map((destination) => destination.remotePath).join(', ')
+      : undefined;
+  }
+
+  private getMaxAttempts(phase: RetryPhase): number {
+    const policy = this.config.taskProcessor.retryPolicy;
+    switch (phase) {
+      case 'upload':
+        return policy.maxUploadAttempts;
+      case 'verification':
+        return policy.maxVerificationAttempts;
+      case 'deleteLocal':
+      case 'deleteQbTask':
+        return policy.maxDeleteAttempts;
+    }
+  }
+
+  /**
+   * 更新任务状态，并写入一条状态变更记录 (TaskEvent)。记录写入失败只记录警告，不影响任务处理。
+   * 未指定 message / attempt 时，分别使用任务的 errorMessage 和新状态所属阶段的尝试次数。
+   */
+  private async transitionTask(
+    task: TorrentTask,
+    data: Omit<Prisma.TorrentTaskUpdateInput, 'status'> & { status: TaskStatus },
+    details: TaskEventDetails = {}
+  ): Promise<TorrentTask> {
+    const updatedTask = await this.prisma.torrentTask.update({ where: { id: task.id }, data });
+    const phase = PHASE_BY_STATUS[updatedTask.status];
+    try {
+      await recordTaskEvent(this.prisma, task.id, task.status, updatedTask.status, {
+        message: updatedTask.errorMessage,
+        attempt: phase ? RETRY_PHASES[phase].attempts(updatedTask) : null,
+        ...details,
+      });
+    } catch (error) {
+      this.logger.warn(`记录任务 "${task.name}" 的状态变更 (${data.status}) 失败:`, error);
+    }
+    return updatedTask;
+  }
+
+  /**
+   * 记录某阶段的一次失败 (task 中的尝试次数应已包含本次)。
+   * - 可重试且尚有剩余次数: 进入该阶段的 *_FAILED 状态，按指数退避设置 nextAttemptAt。
+   * - 致命错误或次数已用尽: 进入 ERROR 状态并发送通知，之后只能手动重试。
+   */
+  private async recordPhaseFailure(
+    task: TorrentTask,
+    phase: RetryPhase,
+    message: string,
+    options: { retryable?: boolean; exitCode?: number | null; stderr?: string } = {}
+  ): Promise<TorrentTask> {
+    const { label, failedStatus, attempts: getAttempts } = RETRY_PHASES[phase];
+    const attempts = getAttempts(task);
+    const maxAttempts = this.getMaxAttempts(phase);
+    const retryable = options.retryable !== false;
+    const eventDetails: TaskEventDetails = {
+      attempt: attempts,
+      exitCode: options.exitCode,
+      stderr: options.stderr,
+    };
+
+    if (retryable && attempts < maxAttempts) {
+      const delayMs = computeBackoffDelayMs(this.config.taskProcessor.retryPolicy, attempts);
+      const nextAttemptAt = new Date(Date.now() + delayMs);
+      this.logger.warn(
+        `任务 "${task.name}" ${label}失败 (第 ${attempts}/${maxAttempts} 次)，将在 ${formatDuration(delayMs)} 后 (${nextAttemptAt.toLocaleString()}) 重试。`
+      );
+      return this.transitionTask(
+        task,
+        {
+          status: failedStatus,
+          lastFailedStatus: failedStatus,
+          errorMessage: message,
+          nextAttemptAt,
+          updatedAt: new Date(),
+        },
+        eventDetails
+      );
+    }
+
+    const errorMessage = retryable
+      ? `${label}失败，已达到最大尝试次数 (${attempts}/${maxAttempts})，不再自动重试: ${message}`
+      : `${label}失败 (不可重试的错误)，不再自动重试: ${message}`;
+    this.logger.error(`任务 "${task.name}" 转为 ERROR: ${errorMessage}`);
+    const errorTask = await this.transitionTask(
+      task,
+      {
+        status: TaskStatus.ERROR,
+        lastFailedStatus: failedStatus,
+        errorMessage,
+        nextAttemptAt: null,
+        updatedAt: new Date(),
+      },
+      eventDetails
+    );
+    await this.mailerService.notifyTask(retryable ? 'retries_exhausted' : 'error', errorTask, {
+      remotePath: await this.getNotificationRemotePath(errorTask),
+      phase: label,
+    });
+    return errorTask;
+  }
+
+  /**
+   * 启动时将尝试次数已达上限却仍停留在 *_FAILED 状态的任务转为 ERROR
+   * (旧版本遗留的任务，或调低了最大尝试次数后)。这些任务不再发送通知。
+   */
+  private async failExhaustedTasks(): Promise<void> {
+    const attemptFields: Record<RetryPhase, keyof Prisma.TorrentTaskWhereInput> = {
+      upload: 'uploadAttempts',
+      verification: 'verificationAttempts',
+      deleteLocal: 'deleteLocalAttempts',
+      deleteQbTask: 'deleteQbTaskAttempts',
+    };
+    for (const phase of Object.keys(RETRY_PHASES) as RetryPhase[]) {
+      const { label, failedStatus } = RETRY_PHASES[phase];
+      const maxAttempts = this.getMaxAttempts(phase);
+      const exhaustedTasks = await this.prisma.torrentTask.findMany({
+        where: { status: failedStatus, [attemptFields[phase]]: { gte: maxAttempts } },
+      });
+      for (const task of exhaustedTasks) {
+        await this.transitionTask(
+          task,
+          {
+            status: TaskStatus.ERROR,
+            lastFailedStatus: failedStatus,
+            nextAttemptAt: null,
+            errorMessage: `${label}失败，已达到最大尝试次数 (${maxAttempts})，不再自动重试。`,
+          },
+          { attempt: RETRY_PHASES[phase].attempts(task) }
         );
-        let remotePathPattern = rule.then.remotePath;
-        remotePathPattern = remotePathPattern.replace(/{tag}/g, primaryTag);
-        remotePathPattern = remotePathPattern.replace(/{category}/g, category);
-        remotePathPattern = remotePathPattern.replace(/{torrentName}/g, torrent.name);
-        const yearMatch = torrent.name.match(/\((\d{4})\)/);
-        remotePathPattern = remotePathPattern.replace(
-          /{year}/g,
-          yearMatch && yearMatch[1] ? yearMatch[1] : 'UnknownYear'
+      }
+      if (exhaustedTasks.length > 0) {
+        this.logger.warn(
+          `已将 ${exhaustedTasks.length} 个${label}尝试次数已用尽的 ${failedStatus} 任务转为 ERROR。`
         );
-        const finalRelativePath = remotePathPattern.replace(/^\/+|\/+$/g, '').replace(/\\/g, '/');
-        this.logger.debug(`规则计算得到的远程相对路径: "${finalRelativePath}"`);
-        return finalRelativePath;
       }
     }
-    if (defaultRuleActionPathPattern) {
-      this.logger.info(`种子 "${torrent.name}" 使用默认归档规则。`);
-      let remotePathPattern = defaultRuleActionPathPattern;
-      remotePathPattern = remotePathPattern.replace(/{tag}/g, primaryTag);
-      remotePathPattern = remotePathPattern.replace(/{category}/g, category);
-      remotePathPattern = remotePathPattern.replace(/{torrentName}/g, torrent.name);
-      const yearMatch = torrent.name.match(/\((\d{4})\)/);
-      remotePathPattern = remotePathPattern.replace(
-        /{year}/g,
-        yearMatch && yearMatch[1] ? yearMatch[1] : 'UnknownYear'
+  }
+
+  /**
+   * 清理超过保留期限的任务状态变更记录。清理失败只记录警告。
+   */
+  private async pruneTaskEvents(): Promise<void> {
+    try {
+      const count = await pruneTaskEvents(
+        this.prisma,
+        this.config.taskProcessor.eventRetentionDays
       );
-      const finalRelativePath = remotePathPattern.replace(/^\/+|\/+$/g, '').replace(/\\/g, '/');
-      this.logger.debug(`默认规则计算得到的远程相对路径: "${finalRelativePath}"`);
-      return finalRelativePath;
+      if (count > 0) {
+        this.logger.info(
+          `已清理 ${count} 条超过 ${this.config.taskProcessor.eventRetentionDays} 天的任务状态变更记录。`
+        );
+      }
+    } catch (error) {
+      this.logger.warn('清理任务状态变更记录失败:', error);
     }
-    this.logger.warn(
-      `种子 "${torrent.name}" 未匹配任何特定规则，也无默认规则提供路径模式。将按 Tag/Category/Name 结构构建路径。`
-    );
-    const fallbackRelativePath = path.join(primaryTag, category, torrent.name).replace(/\\/g, '/');
-    this.logger.debug(`备用逻辑计算得到的远程相对路径: "${fallbackRelativePath}"`);
-    return fallbackRelativePath;
+  }
+
+  /**
+   * 若有任务的退避等待会在下次轮询前结束，设置定时器在其到期时唤醒分派。
+   */
+  private async scheduleRetryWakeup(): Promise<void> {
+    const now = new Date();
+    const nextRetry = await this.prisma.torrentTask.findFirst({
+      where: {
+        status: { in: Object.values(RETRY_PHASES).map((phase) => phase.failedStatus) },
+        nextAttemptAt: { gt: now },
+      },
+      orderBy: [{ nextAttemptAt: 'asc' }],
+      select: { nextAttemptAt: true },
+    });
+    if (this.retryWakeupTimer) {
+      clearTimeout(this.retryWakeupTimer);
+      this.retryWakeupTimer = undefined;
+    }
+    if (!nextRetry?.nextAttemptAt || !this.isRunning) return;
+    const delayMs = nextRetry.nextAttemptAt.getTime() - now.getTime();
+    if (delayMs >= this.config.taskProcessor.pollIntervalMs) return;
+    this.retryWakeupTimer = setTimeout(() => {
+      this.retryWakeupTimer = undefined;
+      void this.dispatchTasks();
+    }, delayMs);
   }
 
   private async processTasks(): Promise<void> {
+    if (this.isPolling) {
+      this.logger.warn('上一个任务处理周期尚未结束，跳过本次轮询。');
+      return;
+    }
+    this.isPolling = true;
     this.logger.info('开始任务处理周期...');
+    const endPollTimer = pollDurationHistogram.startTimer();
+    let succeeded = false;
     try {
-      this.logger.debug('正在从 qBittorrent 获取所有已下载完成的种子...');
-      const allDownloadedQbTorrents: QBittorrentTorrent[] =
-        await this.qbService.getAllDownloadedTorrents();
-      this.logger.info(
-        `从 qBittorrent 找到 ${allDownloadedQbTorrents.length} 个已下载完成 (进度100%) 的种子。`
-      );
+      if (!this.config.dryRun) {
+        await this.recoverAbandonedTasks('lease');
+        await this.pruneTaskEvents();
+      }
 
-      const torrentsReadyForProcessing: QBittorrentTorrent[] = [];
-
-      // --- 核心筛选逻辑 ---
-      // 1. 定义哪些 qB 状态表示种子已完成做种并可以处理
-      //    你需要根据你的 qB 客户端实际返回的 API state 字符串来调整这个列表。
-      //    'pausedup' 是标准 qB 客户端在做种完成后（通过规则或手动）暂停的状态。
-      //    'completed' 是下载100%但可能从未激活做种的状态。
-      //    对于 qB Enhanced Edition，如果“已完成”状态在 API 中有特定字符串，请加入。
-      const processableStates: string[] = [
-        'pausedup', // 标准 qB 手动/规则暂停做种
-        'stoppedup', // <--- 假设这是你的 qB EE 自动停止做种后的状态
-        'completed', // 下载100%，未激活做种 (可选，但通常包含)
-      ];
-      // 如果通过调试发现你的 "已完成" 状态在 API 中返回的是，比如说 "finished_seeding" (举例)
-      // 那么你应该将它加入: const processableStates = ['pausedup', 'completed', 'finished_seeding'];
-      // 或者，如果 API 返回的就是中文 "已完成"，并且你确定这就是你想要的状态：
-      // const processableStates = ['pausedup', 'completed', '已完成']; // 注意要用小写比较
+      // 逐个同步各 qB 实例，某个实例出错不影响其他实例
+      let failedInstances = 0;
+      for (const instance of this.qbInstances.values()) {
+        try {
+          await this.pollInstance(instance);
+        } catch (error) {
+          failedInstances++;
+          this.logger.error(`同步 qB 实例 [${instance.config.name}] 时发生错误:`, error);
+        }
+      }
+
+      if (!this.config.dryRun) {
+        await this.dispatchTasks();
+      }
+      succeeded = failedInstances === 0;
+    } catch (error) {
+      this.logger.error('任务处理周期中发生错误:', error);
+    } finally {
+      endPollTimer();
+      if (succeeded) lastSuccessfulPollGauge.setToCurrentTime();
+      this.isPolling = false;
+      this.logger.info('任务处理周期已结束。');
+    }
+  }
+
+  /**
+   * 同步一个 qB 实例，按该实例的资格策略筛选已下载完成的种子并创建任务 (试运行时只记录处理计划)。
+   */
+  private async pollInstance(instance: QBittorrentInstanceContext): Promise<void> {
+    const name = instance.config.name;
+    this.logger.debug(`正在从 qB 实例 [${name}] 增量同步种子列表...`);
+    const syncResult = await instance.torrentSync.sync();
+    this.logTorrentChanges(name, syncResult);
+    const allDownloadedQbTorrents: QBittorrentTorrent[] = instance.torrentSync
+      .getTorrents()
+      .filter(isDownloadComplete);
+    this.logger.info(
+      `从 qB 实例 [${name}] 找到 ${allDownloadedQbTorrents.length} 个已下载完成 (进度100%) 的种子。`
+    );
+
+    const torrentsReadyForProcessing: QBittorrentTorrent[] = [];
+    const evaluations: { torrent: QBittorrentTorrent; eligibility: EligibilityResult }[] = [];
+
+    // --- 核心筛选逻辑: 按配置的资格策略 (状态、分享率、做种时间等) 判断种子是否可处理 ---
+    const policy = instance.config.eligibility;
+    for (const qbTorrent of allDownloadedQbTorrents) {
+      const result = evaluateEligibility(qbTorrent, policy);
+      evaluations.push({ torrent: qbTorrent, eligibility: result });
+      const overrideNote = result.override
+        ? ` [覆盖规则: ${result.override.description || result.override.category || result.override.tag}]`
+        : '';
+      const reasonText = result.reasons.length > 0 ? result.reasons.join('; ') : '未配置任何条件';
+      if (result.eligible) {
+        this.logger.info(
+          `种子 "${qbTorrent.name}" 符合处理条件${result.forced ? ' (强制)' : ''}${overrideNote}: ${reasonText}`
+        );
+        torrentsReadyForProcessing.push(qbTorrent);
+      } else {
+        this.logger.debug(
+          `种子 "${qbTorrent.name}" 暂不符合处理条件${overrideNote}: ${reasonText}`
+        );
+      }
+    }
+
+    this.logger.info(
+      `qB 实例 [${name}] 筛选后，有 ${torrentsReadyForProcessing.length} 个种子准备好进行处理。`
+    );
+
+    if (this.config.dryRun) {
+      await this.recordDryRunPlans(instance, evaluations);
+      return;
+    }
+
+    if (torrentsReadyForProcessing.length > 0) {
+      this.logger.debug('准备处理的种子示例:');
+      torrentsReadyForProcessing.slice(0, 3).forEach((t) => {
+        this.logger.debug(`  - 名称: ${t.name}, 状态: ${t.state}`);
+      });
+    }
+
+    for (const qbTorrent of torrentsReadyForProcessing) {
+      try {
+        await this.createTaskForTorrent(instance, qbTorrent, '发现新种子');
+      } catch (dbError) {
+        this.logger.error(
+          `处理 qB 种子 "${qbTorrent.name}" (哈希: ${qbTorrent.hash}) 同步到数据库时出错:`,
+          dbError
+        );
+      }
+    }
+  }
+
+  private getLocalContentPath(torrent: QBittorrentTorrent): string {
+    return torrent.content_path && torrent.content_path !== torrent.save_path
+      ? torrent.content_path
+      : path.join(torrent.save_path, torrent.name);
+  }
+
+  /**
+   * 描述正式运行时会对该种子执行的各个步骤 (按当前的行为配置)。
+   */
+  private describePlannedActions(
+    torrent: QBittorrentTorrent,
+    destinations: PlannedDestination[]
+  ): string[] {
+    const localPath = this.getLocalContentPath(torrent);
+    const actions: string[] = [];
+    for (const destination of destinations) {
+      const note = destination.required ? '' : ' (非必需)';
+      actions.push(
+        `上传到 [${destination.name}]${note} (${formatBytes(torrent.size)}): ${localPath} -> ${destination.remotePath}`,
+        `验证 [${destination.name}] (${destination.verifyMode ?? this.config.rclone.verifyMode}): ${localPath} <-> ${destination.remotePath}`
+      );
+    }
+    if (this.config.behavior.deleteLocalFiles) {
+      actions.push(`删除本地文件 (所有必需目标验证通过后): ${localPath}`);
+      if (this.config.behavior.cleanupEmptyDirs) {
+        actions.push(`清理空目录 (不超过 ${torrent.save_path})`);
+      }
+    }
+    if (this.config.behavior.deleteQbTask) {
+      actions.push('从 qBittorrent 删除任务 (不删除文件)');
+    }
+    return actions;
+  }
 
+  /**
+   * 记录两次同步之间种子的变化。首次同步只记录总数，避免为每个已有种子输出日志。
+   */
+  private logTorrentChanges(instanceName: string, result: TorrentSyncResult): void {
+    if (result.initial) {
       this.logger.info(
-        `--- DEBUG: 检查 qB 种子状态 (脚本认为可处理的状态: ${processableStates.join(', ')}) ---`
+        `已从 qB 实例 [${instanceName}] 同步完整种子列表，共 ${result.torrentCount} 个种子。`
       );
-      for (const qbTorrent of allDownloadedQbTorrents) {
-        const originalState = qbTorrent.state; // 保留原始API返回的状态
-        const stateLower = originalState.toLowerCase(); // 用于不区分大小写的比较
-
-        // 打印每个种子的原始状态以供调试
+      return;
+    }
+    for (const change of result.stateChanges) {
+      if (change.completed) {
+        this.logger.info(`检测到种子下载完成: "${change.name}" (状态 ${change.state})`);
+      } else if (change.previousState === null) {
+        this.logger.info(`检测到新种子: "${change.name}" (状态 ${change.state})`);
+      } else {
         this.logger.debug(
-          `  种子: "${qbTorrent.name}", API原始状态: "${originalState}", 小写状态: "${stateLower}", 进度: ${qbTorrent.progress}`
+          `种子 "${change.name}" 状态变化: ${change.previousState} -> ${change.state}`
         );
+      }
+    }
+    if (result.removed.length > 0) {
+      this.logger.info(`有 ${result.removed.length} 个种子已从 qB 实例 [${instanceName}] 中移除。`);
+    }
+  }
 
-        if (processableStates.includes(stateLower)) {
-          this.logger.info(`种子 "${qbTorrent.name}" (状态: ${originalState}) 符合上传条件。`);
-          torrentsReadyForProcessing.push(qbTorrent);
-        } else if (
-          stateLower.includes('up') ||
-          stateLower.includes('seeding') ||
-          stateLower.includes('uploading') ||
-          stateLower.includes('stalled')
-        ) {
-          // stalledUP, uploading, seeding, forcedUP 等状态表示仍在活动或尝试做种
-          this.logger.debug(
-            `种子 "${qbTorrent.name}" 状态为 ${originalState} (仍在活动或尝试做种)，等待 qB 客户端自动暂停。`
+  /**
+   * 试运行模式: 对每个已下载完成的种子记录 "将会做什么"，不创建任务，也不执行任何操作。
+   * 已从该 qB 实例中消失的种子对应的旧计划会被清除。
+   */
+  private async recordDryRunPlans(
+    instance: QBittorrentInstanceContext,
+    evaluations: { torrent: QBittorrentTorrent; eligibility: EligibilityResult }[]
+  ): Promise<void> {
+    const instanceName = instance.config.name;
+    const hashes = evaluations.map(({ torrent }) => torrent.hash);
+    const existingTasks = await this.prisma.torrentTask.findMany({
+      where: { instance: instanceName, hash: { in: hashes } },
+      select: { hash: true, status: true },
+    });
+    const existingStatusByHash = new Map(existingTasks.map((task) => [task.hash, task.status]));
+    let plannedCount = 0;
+
+    for (const { torrent, eligibility } of evaluations) {
+      try {
+        const existingTaskStatus = existingStatusByHash.get(torrent.hash) ?? null;
+        let resolution: RemotePathResolution | undefined;
+        let actions: string[];
+        if (existingTaskStatus) {
+          actions = [`数据库中已有任务 (状态 ${existingTaskStatus})，不会重复创建`];
+        } else if (eligibility.eligible) {
+          resolution = await this.resolveTorrentRemotePath(instance, torrent);
+          actions = this.describePlannedActions(torrent, this.planDestinations(resolution));
+          plannedCount++;
+          this.logger.info(
+            `[试运行] 种子 "${torrent.name}" 将被处理，远程路径: "${resolution.relativePath}"`
           );
         } else {
-          // 其他状态 (如 error, downloading, checkingDL, etc.)
-          this.logger.debug(
-            `种子 "${qbTorrent.name}" 状态为 ${originalState}，不符合处理条件，跳过。`
-          );
+          actions = ['暂不符合处理条件，本轮不会处理'];
         }
+        const data = {
+          name: torrent.name,
+          eligible: eligibility.eligible,
+          reasons: eligibility.reasons.join('; '),
+          ruleIndex: resolution?.match.ruleIndex ?? null,
+          ruleDescription: resolution?.match.rule
+            ? resolution.match.rule.description ||
+              (resolution.match.isDefault ? '默认规则' : JSON.stringify(resolution.match.rule.if))
+            : null,
+          remotePath: resolution?.relativePath ?? null,
+          actions: JSON.stringify(actions),
+          existingTaskStatus,
+        };
+        await this.prisma.dryRunPlan.upsert({
+          where: { instance_hash: { instance: instanceName, hash: torrent.hash } },
+          create: { instance: instanceName, hash: torrent.hash, ...data },
+          update: data,
+        });
+      } catch (error) {
+        this.logger.error(`[试运行] 为种子 "${torrent.name}" 生成处理计划时出错:`, error);
       }
-      this.logger.info(`--- END DEBUG ---`);
-      // --- 核心筛选逻辑结束 ---
+    }
 
-      this.logger.info(`筛选后，有 ${torrentsReadyForProcessing.length} 个种子准备好进行处理。`);
+    const { count: staleCount } = await this.prisma.dryRunPlan.deleteMany({
+      where: { instance: instanceName, hash: { notIn: hashes } },
+    });
+    this.logger.info(
+      `[试运行] qB 实例 [${instanceName}] 本轮共评估 ${evaluations.length} 个种子，其中 ${plannedCount} 个将被处理；清除了 ${staleCount} 条过期计划。`
+    );
+  }
 
-      if (torrentsReadyForProcessing.length > 0) {
-        this.logger.debug('准备处理的种子示例:');
-        torrentsReadyForProcessing.slice(0, 3).forEach((t) => {
-          this.logger.debug(`  - 名称: ${t.name}, 状态: ${t.state}`);
-        });
-      }
+  private getLaneConcurrency(lane: WorkerLane): number {
+    switch (lane) {
+      case 'upload':
+        return this.config.taskProcessor.maxConcurrentUploads || 1;
+      case 'verification':
+        return this.config.taskProcessor.maxConcurrentVerifications || 1;
+      case 'cleanup':
+        return this.config.taskProcessor.maxConcurrentCleanups || 1;
+    }
+  }
 
-      for (const qbTorrent of torrentsReadyForProcessing) {
-        // ... (数据库同步逻辑与之前版本相同，创建新任务) ...
-        try {
-          const existingTask = await this.prisma.torrentTask.findUnique({
-            where: { hash: qbTorrent.hash },
-          });
-          if (!existingTask) {
-            this.logger.info(
-              `发现新种子待处理: "${qbTorrent.name}" (哈希: ${qbTorrent.hash}). 正在添加到数据库...`
-            );
-            const localContentPath =
-              qbTorrent.content_path && qbTorrent.content_path !== qbTorrent.save_path
-                ? qbTorrent.content_path
-                : path.join(qbTorrent.save_path, qbTorrent.name);
-            const calculatedRemoteRelPath = this.calculateRemoteRelativePath(
-              qbTorrent,
-              this.config.archivingRules
-            );
-            await this.prisma.torrentTask.create({
-              data: {
-                hash: qbTorrent.hash,
-                name: qbTorrent.name,
-                localPath: localContentPath,
-                addedAt: new Date(qbTorrent.added_on * 1000),
-                completedAt:
-                  qbTorrent.completion_on > 0 ? new Date(qbTorrent.completion_on * 1000) : null,
-                status: TaskStatus.PENDING_UPLOAD,
-                uploadSize: BigInt(qbTorrent.size),
-                calculatedRemotePath: calculatedRemoteRelPath,
-              },
-            });
-          } else {
-            this.logger.debug(
-              `种子 "${qbTorrent.name}" (哈希: ${qbTorrent.hash}) 已存在于数据库，状态为 ${existingTask.status}。跳过创建。`
-            );
-          }
-        } catch (dbError) {
-          this.logger.error(
-            `处理 qB 种子 "${qbTorrent.name}" (哈希: ${qbTorrent.hash}) 同步到数据库时出错:`,
-            dbError
-          );
+  private getLaneFilters(lane: WorkerLane): Prisma.TorrentTaskWhereInput[] {
+    const policy = this.config.taskProcessor.retryPolicy;
+    // 失败的任务需等待退避时间结束才会被再次领取
+    const retryDue: Prisma.TorrentTaskWhereInput = {
+      OR: [{ nextAttemptAt: null }, { nextAttemptAt: { lte: new Date() } }],
+    };
+    switch (lane) {
+      case 'upload':
+        return [
+          { status: TaskStatus.PENDING_UPLOAD },
+          {
+            status: TaskStatus.UPLOAD_FAILED,
+            uploadAttempts: { lt: policy.maxUploadAttempts },
+            ...retryDue,
+          },
+        ];
+      case 'verification':
+        return [
+          { status: TaskStatus.PENDING_VERIFICATION },
+          {
+            status: TaskStatus.VERIFICATION_FAILED,
+            verificationAttempts: { lt: policy.maxVerificationAttempts },
+            ...retryDue,
+          },
+        ];
+      case 'cleanup':
+        return [
+          { status: TaskStatus.UPLOAD_VERIFIED_SUCCESS },
+          {
+            status: TaskStatus.DELETE_LOCAL_FAILED,
+            deleteLocalAttempts: { lt: policy.maxDeleteAttempts },
+            ...retryDue,
+          },
+          { status: TaskStatus.LOCAL_DELETED },
+          {
+            status: TaskStatus.DELETE_QB_TASK_FAILED,
+            deleteQbTaskAttempts: { lt: policy.maxDeleteAttempts },
+            ...retryDue,
+          },
+          { status: TaskStatus.QB_TASK_DELETED },
+        ];
+    }
+  }
+
+  /**
+   * 为工作池中每个通道的空闲槽位领取任务。
+   * 任务完成后会立即再次调用此方法补位，而不必等待下一个轮询周期。
+   * 同一时刻只有一个分派过程在运行，期间的补位请求会在当前分派结束后合并执行。
+   */
+  private async dispatchTasks(): Promise<void> {
+    if (!this.isRunning || this.config.dryRun) return;
+    if (this.isDispatching) {
+      this.redispatchRequested = true;
+      return;
+    }
+    this.isDispatching = true;
+    try {
+      do {
+        this.redispatchRequested = false;
+        for (const lane of WORKER_LANES) {
+          await this.fillLane(lane);
         }
-      }
+      } while (this.redispatchRequested && this.isRunning);
+      await this.scheduleRetryWakeup();
+    } catch (error) {
+      this.logger.error('分派任务到工作池时出错:', error);
+    } finally {
+      this.isDispatching = false;
+    }
+  }
 
-      this.logger.debug('正在从数据库获取待处理的任务 (上传、验证等)...');
-      const tasksToProcessFromDB = await this.prisma.torrentTask.findMany({
-        where: {
-          OR: [
-            { status: TaskStatus.PENDING_UPLOAD },
-            { status: TaskStatus.UPLOAD_FAILED, uploadAttempts: { lt: 5 } },
-            { status: TaskStatus.PENDING_VERIFICATION },
-            { status: TaskStatus.VERIFICATION_FAILED, verificationAttempts: { lt: 3 } },
-          ],
-        },
-        orderBy: [{ status: 'asc' }, { createdAt: 'asc' }],
-        take: this.config.taskProcessor.maxConcurrentUploads || 1,
-      });
-      this.logger.info(`从数据库找到 ${tasksToProcessFromDB.length} 个任务待处理。`);
-
-      if (tasksToProcessFromDB.length > 0) {
-        this.logger.info(`开始并发处理 ${tasksToProcessFromDB.length} 个任务...`);
-        const processingPromises = tasksToProcessFromDB.map((task) => this.handleTask(task));
-        const results = await Promise.allSettled(processingPromises);
-        results.forEach((result, index) => {
-          if (result.status === 'rejected') {
-            this.logger.error(
-              `处理任务 ${tasksToProcessFromDB[index].name} (ID: ${tasksToProcessFromDB[index].id}) 时发生未捕获的顶层错误:`,
-              result.reason
-            );
-          }
-        });
-        this.logger.info('本轮任务批处理完成。');
-      }
+  private async fillLane(lane: WorkerLane): Promise<void> {
+    const activeInLane = [...this.activeTasks.values()].filter((l) => l === lane).length;
+    const freeSlots = this.getLaneConcurrency(lane) - activeInLane;
+    if (freeSlots <= 0) {
+      this.logger.debug(`工作池通道 [${lane}] 已满 (${activeInLane} 个任务处理中)。`);
+      return;
+    }
+    const candidates = await this.prisma.torrentTask.findMany({
+      where: {
+        OR: this.getLaneFilters(lane),
+        id: { notIn: [...this.activeTasks.keys()] },
+      },
+      orderBy: [{ createdAt: 'asc' }],
+      take: freeSlots,
+    });
+    for (const task of candidates) {
+      // 领取前再检查一次: 从查询到此处之间任务可能已被其他路径领取
+      if (this.activeTasks.has(task.id)) continue;
+      this.activeTasks.set(task.id, lane);
+      this.logger.info(
+        `工作池通道 [${lane}] 领取任务: "${task.name}" (ID: ${task.id}), 当前通道占用 ${activeInLane + 1}/${this.getLaneConcurrency(lane)}`
+      );
+      const worker = this.runWorker(task);
+      this.workerPromises.add(worker);
+      void worker.finally(() => this.workerPromises.delete(worker));
+    }
+  }
+
+  private async runWorker(task: TorrentTask): Promise<void> {
+    try {
+      await this.handleTask(task);
     } catch (error) {
-      this.logger.error('任务处理周期中发生错误:', error);
+      this.logger.error(`处理任务 ${task.name} (ID: ${task.id}) 时发生未捕获的顶层错误:`, error);
     } finally {
-      this.logger.info('任务处理周期已结束。');
+      this.activeTasks.delete(task.id);
+      if (!this.stopRequested) void this.dispatchTasks();
     }
   }
 
-  // ... (handleTask, executeUploadStep, executeVerificationStep 方法与上一版本相同，保持不变) ...
   private async handleTask(task: TorrentTask): Promise<void> {
     this.logger.info(`开始处理任务: "${task.name}" (ID: ${task.id}), 当前状态: ${task.status}`);
     try {
@@ -306,152 +1449,741 @@ export class TaskProcessorService {
         case TaskStatus.VERIFICATION_FAILED:
           await this.executeVerificationStep(task);
           break;
+        case TaskStatus.UPLOAD_VERIFIED_SUCCESS:
+        case TaskStatus.DELETE_LOCAL_FAILED:
+        case TaskStatus.LOCAL_DELETED:
+        case TaskStatus.DELETE_QB_TASK_FAILED:
+        case TaskStatus.QB_TASK_DELETED:
+          await this.executePostVerificationSteps(task);
+          break;
         default:
           this.logger.warn(`任务 "${task.name}" 状态为 ${task.status}，当前无明确处理逻辑。`);
       }
     } catch (error) {
       this.logger.error(`处理任务 "${task.name}" (ID: ${task.id}) 步骤中发生错误:`, error);
-      let nextStatusOnError: TaskStatus = TaskStatus.ERROR;
-      const currentTaskStatus = task.status;
-      if (
-        currentTaskStatus === TaskStatus.UPLOADING ||
-        currentTaskStatus === TaskStatus.PENDING_UPLOAD ||
-        currentTaskStatus === TaskStatus.UPLOAD_FAILED
-      ) {
-        nextStatusOnError = TaskStatus.UPLOAD_FAILED;
-      } else if (
-        currentTaskStatus === TaskStatus.VERIFYING ||
-        currentTaskStatus === TaskStatus.PENDING_VERIFICATION ||
-        currentTaskStatus === TaskStatus.VERIFICATION_FAILED
-      ) {
-        nextStatusOnError = TaskStatus.VERIFICATION_FAILED;
+      const errorMessage = `处理任务时出错 (原始状态 ${task.status}): ${error instanceof Error ? error.message : String(error)}`;
+      const phase = PHASE_BY_STATUS[task.status];
+      // 重新读取任务以获得已递增的尝试次数
+      const latestTask = await this.prisma.torrentTask.findUnique({ where: { id: task.id } });
+      if (phase && latestTask) {
+        await this.recordPhaseFailure(latestTask, phase, errorMessage);
+        return;
       }
-      await this.prisma.torrentTask.update({
-        where: { id: task.id },
-        data: {
-          status: nextStatusOnError,
-          errorMessage: `处理任务时出错 (原始状态 ${currentTaskStatus}): ${error instanceof Error ? error.message : String(error)}`,
-          updatedAt: new Date(),
-        },
+      const failedTask = await this.transitionTask(latestTask ?? task, {
+        status: TaskStatus.ERROR,
+        errorMessage,
+        updatedAt: new Date(),
       });
+      await this.notifyTaskOutcome(failedTask);
     }
   }
   private async executeUploadStep(task: TorrentTask): Promise<void> {
     this.logger.info(`[上传阶段] 任务: "${task.name}" (已尝试次数: ${task.uploadAttempts})`);
-    const updatedTaskAfterStatusChange = await this.prisma.torrentTask.update({
-      where: { id: task.id },
-      data: {
-        status: TaskStatus.UPLOADING,
-        uploadAttempts: { increment: 1 },
-        updatedAt: new Date(),
-      },
+    const updatedTaskAfterStatusChange = await this.transitionTask(task, {
+      status: TaskStatus.UPLOADING,
+      uploadAttempts: { increment: 1 },
+      nextAttemptAt: null,
+      uploadBytesTransferred: null,
+      uploadBytesTotal: null,
+      uploadProgressPercent: null,
+      uploadSpeedBps: null,
+      uploadEtaSeconds: null,
+      uploadProgressAt: null,
+      updatedAt: new Date(),
     });
     this.logger.info(
       `任务 "${updatedTaskAfterStatusChange.name}" 状态更新为 UPLOADING, 当前尝试次数: ${updatedTaskAfterStatusChange.uploadAttempts}`
     );
-    const relativeTargetPath =
-      updatedTaskAfterStatusChange.calculatedRemotePath ||
-      path.basename(updatedTaskAfterStatusChange.localPath);
-    if (!updatedTaskAfterStatusChange.calculatedRemotePath) {
-      this.logger.warn(
-        `任务 "${updatedTaskAfterStatusChange.name}" 未找到 calculatedRemotePath, 将使用文件名 "${relativeTargetPath}" 作为远程相对路径。`
+    const manifest = await this.prepareTaskManifest(updatedTaskAfterStatusChange);
+    if (manifest === undefined) return;
+    const manifestJson =
+      manifest && this.config.behavior.uploadManifest
+        ? renderManifestJson(updatedTaskAfterStatusChange, manifest)
+        : undefined;
+    // 已上传或已验证的目标不再重复上传；失败的非必需目标随任务一起重试
+    const destinations = (await this.getTaskDestinations(updatedTaskAfterStatusChange)).filter(
+      (destination) =>
+        destination.status === DestinationStatus.PENDING ||
+        destination.status === DestinationStatus.FAILED
+    );
+    const failures: { destination: TaskDestination; result: UploadResult }[] = [];
+    let lastSuccess: UploadResult | undefined;
+    let totalDurationMs = 0;
+    for (const destination of destinations) {
+      const uploadResult = await this.uploadToDestination(
+        updatedTaskAfterStatusChange,
+        destination,
+        manifestJson
+      );
+      if (uploadResult.success) {
+        lastSuccess = uploadResult;
+        totalDurationMs += uploadResult.durationMs ?? 0;
+      } else {
+        failures.push({ destination, result: uploadResult });
+      }
+    }
+
+    const requiredFailures = failures.filter(({ destination }) => destination.required);
+    if (requiredFailures.length > 0) {
+      const message = requiredFailures
+        .map(
+          ({ destination, result }) =>
+            `[${destination.destination}] ${result.message || '未知的上传错误'}`
+        )
+        .join('; ');
+      const lastFailure = requiredFailures[requiredFailures.length - 1].result;
+      this.logger.error(
+        `[上传阶段] 任务: "${updatedTaskAfterStatusChange.name}" 上传失败. 原因: ${message}`
       );
+      await this.recordPhaseFailure(updatedTaskAfterStatusChange, 'upload', message, {
+        retryable: requiredFailures.every(({ result }) => result.retryable !== false),
+        exitCode: lastFailure.exitCode,
+        stderr: lastFailure.stderr,
+      });
+      return;
+    }
+
+    const optionalNote =
+      failures.length > 0
+        ? `，非必需目标上传失败: ${failures.map(({ destination }) => destination.destination).join(', ')}`
+        : '';
+    this.logger.info(
+      `[上传阶段] 任务: "${updatedTaskAfterStatusChange.name}" 已上传到所有必需目标 (耗时 ${formatDuration(totalDurationMs)})${optionalNote}`
+    );
+    await this.transitionTask(
+      updatedTaskAfterStatusChange,
+      {
+        status: TaskStatus.PENDING_VERIFICATION,
+        errorMessage: null,
+        verificationAttempts: 0,
+        ...(lastSuccess ? { uploadDurationMs: totalDurationMs, uploadFinishedAt: new Date() } : {}),
+        uploadProgressPercent: 100,
+        uploadEtaSeconds: 0,
+        uploadProgressAt: new Date(),
+        updatedAt: new Date(),
+      },
+      {
+        message: `上传成功 (${destinations.length - failures.length} 个目标)，耗时 ${formatDuration(totalDurationMs)}${optionalNote}`,
+        attempt: updatedTaskAfterStatusChange.uploadAttempts,
+        exitCode: lastSuccess?.exitCode,
+      }
+    );
+  }
+
+  /**
+   * 上传前准备任务的文件清单: 已生成过则从数据库读取，否则遍历本地内容计算并保存。
+   * @returns 清单；未启用 BUILD_CHECKSUM_MANIFEST 时为 null；生成失败时为 undefined (已记录上传阶段失败)。
+   */
+  private async prepareTaskManifest(
+    task: TorrentTask
+  ): Promise<ManifestEntry[] | null | undefined> {
+    if (task.manifestBuiltAt) {
+      return loadTaskManifest(this.prisma, task);
+    }
+    if (!this.config.behavior.buildManifest) return null;
+    const startedAt = Date.now();
+    let entries: ManifestEntry[];
+    try {
+      // 大目录计算哈希可能需要很长时间，期间没有进度写入，需要定期刷新租约以免被回收
+      entries = await this.withLeaseHeartbeat(task, () => buildLocalManifest(task.localPath));
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error(`[上传阶段] 任务: "${task.name}" 生成文件清单失败: ${errorMessage}`);
+      // 本地文件不存在时重试也无济于事
+      await this.recordPhaseFailure(task, 'upload', `生成文件清单失败: ${errorMessage}`, {
+        retryable: (error as NodeJS.ErrnoException)?.code !== 'ENOENT',
+      });
+      return undefined;
+    }
+    const savedTask = await saveTaskManifest(this.prisma, task.id, entries);
+    task.manifestBuiltAt = savedTask.manifestBuiltAt;
+    const totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+    this.logger.info(
+      `[上传阶段] 任务: "${task.name}" 已生成文件清单: ${entries.length} 个文件, 共 ${formatBytes(totalSize)} (耗时 ${formatDuration(Date.now() - startedAt)})`
+    );
+    return entries;
+  }
+
+  /**
+   * 执行 fn 期间定期刷新任务的 lastAttemptAt，使其他进程的租约回收不会把仍在处理的任务当作已中断。
+   * 刷新失败只记录警告。
+   */
+  private async withLeaseHeartbeat<T>(task: TorrentTask, fn: () => Promise<T>): Promise<T> {
+    const intervalMs = Math.min(
+      this.config.taskProcessor.leaseTimeoutMs / 3,
+      LEASE_HEARTBEAT_MAX_INTERVAL_MS
+    );
+    const heartbeat = setInterval(() => {
+      this.prisma.torrentTask
+        .update({ where: { id: task.id }, data: { lastAttemptAt: new Date() } })
+        .catch((dbError) => this.logger.warn(`刷新任务 "${task.name}" 的租约失败:`, dbError));
+    }, intervalMs);
+    try {
+      return await fn();
+    } finally {
+      clearInterval(heartbeat);
     }
+  }
+
+  /**
+   * 将任务上传到一个目标，并更新该目标的状态与尝试次数。
+   * 提供 manifestJson 时，内容上传成功后再上传清单文件，清单上传失败同样视为该目标上传失败。
+   */
+  private async uploadToDestination(
+    task: TorrentTask,
+    destination: TaskDestination,
+    manifestJson?: string
+  ): Promise<UploadResult> {
+    const requiredNote = destination.required ? '' : ' (非必需)';
     this.logger.info(
-      `开始上传 "${updatedTaskAfterStatusChange.localPath}" 到远程相对路径 "${relativeTargetPath}" (基础路径: ${this.config.rclone.defaultUploadPath})`
+      `开始上传 "${task.localPath}" 到目标 [${destination.destination}]${requiredNote}: ${destination.remotePath}`
     );
-    const uploadResult = await this.uploaderService.upload(
-      updatedTaskAfterStatusChange.localPath,
-      relativeTargetPath
+    await this.prisma.taskDestination.update({
+      where: { id: destination.id },
+      data: { uploadAttempts: { increment: 1 } },
+    });
+    // 进度写入按顺序串行执行，并在写入最终状态前等待完成，避免旧进度覆盖最终结果
+    let progressWrites: Promise<void> = Promise.resolve();
+    // 进度每跨过 25% 以 info 级别记录一次，其余只在 debug 级别输出，避免长时间上传刷屏
+    let loggedMilestone = 0;
+    let uploadResult = await this.uploaderService.upload(
+      task.localPath,
+      destination.remotePath,
+      [],
+      {
+        signal: this.shutdownController.signal,
+        sizeBytes: task.uploadSize !== null ? Number(task.uploadSize) : undefined,
+        onProgress: (progress) => {
+          const milestone =
+            progress.percent !== null ? Math.floor(progress.percent / 25) * 25 : loggedMilestone;
+          const level = milestone > loggedMilestone ? 'info' : 'debug';
+          loggedMilestone = Math.max(loggedMilestone, milestone);
+          progressWrites = progressWrites.then(() =>
+            this.saveUploadProgress(task, progress, level)
+          );
+        },
+      }
     );
-    if (uploadResult.success && uploadResult.remotePath) {
+    await progressWrites;
+    if (uploadResult.success && manifestJson !== undefined) {
+      const manifestResult = await this.uploaderService.uploadManifest(
+        task.localPath,
+        destination.remotePath,
+        manifestJson
+      );
+      if (!manifestResult.success) uploadResult = manifestResult;
+    }
+    const metricLabels = { destination: destination.destination };
+    if (uploadResult.success) {
+      uploadsCounter.inc({ ...metricLabels, result: 'success' });
+      if (uploadResult.durationMs !== undefined) {
+        uploadDurationHistogram.observe(metricLabels, uploadResult.durationMs / 1000);
+      }
+      if (task.uploadSize !== null) {
+        uploadBytesHistogram.observe(metricLabels, Number(task.uploadSize));
+      }
       this.logger.info(
-        `[上传阶段] 任务: "${updatedTaskAfterStatusChange.name}" 初步上传成功到: ${uploadResult.remotePath}`
+        `[上传阶段] 任务: "${task.name}" 初步上传成功到: ${destination.remotePath} (耗时 ${formatDuration(uploadResult.durationMs)})`
       );
-      await this.prisma.torrentTask.update({
-        where: { id: updatedTaskAfterStatusChange.id },
+      await this.prisma.taskDestination.update({
+        where: { id: destination.id },
         data: {
-          status: TaskStatus.PENDING_VERIFICATION,
+          status: DestinationStatus.UPLOADED,
+          uploadDurationMs: uploadResult.durationMs,
+          uploadedAt: new Date(),
           errorMessage: null,
-          verificationAttempts: 0,
-          updatedAt: new Date(),
         },
       });
     } else {
+      uploadsCounter.inc({
+        ...metricLabels,
+        result: uploadResult.retryable === false ? 'fatal' : 'failure',
+      });
       this.logger.error(
-        `[上传阶段] 任务: "${updatedTaskAfterStatusChange.name}" 上传失败. 原因: ${uploadResult.message}`
+        `[上传阶段] 任务: "${task.name}" 上传到目标 [${destination.destination}]${requiredNote} 失败. 原因: ${uploadResult.message}`
       );
-      await this.prisma.torrentTask.update({
-        where: { id: updatedTaskAfterStatusChange.id },
+      await this.prisma.taskDestination.update({
+        where: { id: destination.id },
         data: {
-          status: TaskStatus.UPLOAD_FAILED,
+          status: DestinationStatus.FAILED,
+          uploadedAt: null,
           errorMessage: uploadResult.message || '未知的上传错误',
-          updatedAt: new Date(),
         },
       });
     }
+    return uploadResult;
   }
-  private async executeVerificationStep(task: TorrentTask): Promise<void> {
-    this.logger.info(`[验证阶段] 任务: "${task.name}" (已尝试次数: ${task.verificationAttempts})`);
-    if (!task.calculatedRemotePath) {
-      this.logger.error(
-        `[验证阶段] 任务 "${task.name}" 缺少 calculatedRemotePath (上传目标相对路径)，无法验证。将任务标记为错误。`
-      );
+
+  /**
+   * 将 rclone 报告的上传进度写入任务记录。写入失败只记录警告，不影响上传本身。
+   * 进度写入同时会刷新 lastAttemptAt，使长时间上传的任务不会被误判为租约超时。
+   */
+  private async saveUploadProgress(
+    task: TorrentTask,
+    progress: RcloneProgress,
+    logLevel: 'info' | 'debug' = 'debug'
+  ): Promise<void> {
+    this.logger.log(
+      logLevel,
+      `[上传进度] 任务: "${task.name}" ${progress.percent !== null ? progress.percent.toFixed(1) : '?'}% (${formatBytes(progress.bytesTransferred)} / ${formatBytes(progress.totalBytes)}), 速度 ${formatBytes(progress.speedBps)}/s, 剩余 ${progress.etaSeconds !== null ? formatDuration(progress.etaSeconds * 1000) : 'N/A'}`
+    );
+    try {
       await this.prisma.torrentTask.update({
         where: { id: task.id },
         data: {
-          status: TaskStatus.ERROR,
-          errorMessage: '验证失败：任务记录中缺少计算出的远程相对路径。',
-          updatedAt: new Date(),
+          uploadBytesTransferred: BigInt(progress.bytesTransferred),
+          uploadBytesTotal: BigInt(progress.totalBytes),
+          uploadProgressPercent: progress.percent,
+          uploadSpeedBps: progress.speedBps,
+          uploadEtaSeconds: progress.etaSeconds,
+          uploadProgressAt: new Date(),
         },
       });
-      return;
+    } catch (dbError) {
+      this.logger.warn(`保存任务 "${task.name}" 的上传进度失败:`, dbError);
     }
-    const updatedTaskAfterStatusChange = await this.prisma.torrentTask.update({
-      where: { id: task.id },
-      data: {
-        status: TaskStatus.VERIFYING,
-        verificationAttempts: { increment: 1 },
+  }
+
+  private async executeVerificationStep(task: TorrentTask): Promise<void> {
+    this.logger.info(`[验证阶段] 任务: "${task.name}" (已尝试次数: ${task.verificationAttempts})`);
+    const destinations = await this.getTaskDestinations(task);
+    // 上传失败的非必需目标不参与验证；必需目标尚未上传 (如重新计算路径后) 时返回上传阶段
+    const notUploaded = destinations.filter(
+      (destination) =>
+        destination.required &&
+        (destination.status === DestinationStatus.PENDING ||
+          (destination.status === DestinationStatus.FAILED && destination.uploadedAt === null))
+    );
+    if (notUploaded.length > 0) {
+      const names = notUploaded.map((destination) => destination.destination).join(', ');
+      this.logger.warn(
+        `[验证阶段] 任务 "${task.name}" 的必需目标尚未上传: ${names}，返回上传阶段。`
+      );
+      await this.transitionTask(task, {
+        status: TaskStatus.PENDING_UPLOAD,
+        errorMessage: `必需目标尚未上传: ${names}`,
+        nextAttemptAt: null,
         updatedAt: new Date(),
-      },
+      });
+      return;
+    }
+    const updatedTaskAfterStatusChange = await this.transitionTask(task, {
+      status: TaskStatus.VERIFYING,
+      verificationAttempts: { increment: 1 },
+      nextAttemptAt: null,
+      updatedAt: new Date(),
     });
     this.logger.info(
       `任务 "${updatedTaskAfterStatusChange.name}" 状态更新为 VERIFYING, 当前尝试次数: ${updatedTaskAfterStatusChange.verificationAttempts}`
     );
-    const remoteBasePath = this.config.rclone.defaultUploadPath.replace(/\/$/, '');
-    const relativePath = updatedTaskAfterStatusChange.calculatedRemotePath!.replace(/^\//, '');
-    const fullRemotePathForVerification = `${this.config.rclone.remoteName}:${remoteBasePath}/${relativePath}`;
+    const toVerify = destinations.filter(
+      (destination) =>
+        destination.status === DestinationStatus.UPLOADED ||
+        (destination.status === DestinationStatus.FAILED && destination.uploadedAt !== null)
+    );
+    const failures: { destination: TaskDestination; result: VerificationResult }[] = [];
+    const verifiedMethods: string[] = [];
+    let lastSuccess: VerificationResult | undefined;
+    for (const destination of toVerify) {
+      const verificationResult = await this.verifyDestination(
+        updatedTaskAfterStatusChange,
+        destination
+      );
+      if (verificationResult.verified) {
+        lastSuccess = verificationResult;
+        verifiedMethods.push(
+          `${destination.destination}=${verificationResult.method ?? destination.verifyMode ?? '-'}`
+        );
+      } else {
+        failures.push({ destination, result: verificationResult });
+      }
+    }
+
+    const requiredFailures = failures.filter(({ destination }) => destination.required);
+    if (requiredFailures.length > 0) {
+      const message = requiredFailures
+        .map(
+          ({ destination, result }) =>
+            `[${destination.destination}] ${result.message || '未知的验证错误'}`
+        )
+        .join('; ');
+      const lastFailure = requiredFailures[requiredFailures.length - 1].result;
+      this.logger.error(
+        `[验证阶段] 任务: "${updatedTaskAfterStatusChange.name}" 验证失败. 原因: ${message}`
+      );
+      await this.recordPhaseFailure(updatedTaskAfterStatusChange, 'verification', message, {
+        retryable: requiredFailures.every(({ result }) => result.retryable !== false),
+        exitCode: lastFailure.exitCode,
+        stderr: lastFailure.stderr,
+      });
+      return;
+    }
+
+    const optionalNote =
+      failures.length > 0
+        ? `，非必需目标验证失败: ${failures.map(({ destination }) => destination.destination).join(', ')}`
+        : '';
+    this.logger.info(
+      `[验证阶段] 任务: "${updatedTaskAfterStatusChange.name}" 验证成功! 所有必需目标与本地文件一致${optionalNote}。`
+    );
+    await this.transitionTask(
+      updatedTaskAfterStatusChange,
+      {
+        status: TaskStatus.UPLOAD_VERIFIED_SUCCESS,
+        errorMessage: null,
+        remoteVerifiedAt: new Date(),
+        updatedAt: new Date(),
+      },
+      {
+        message: `本地与远程文件一致 (验证方式: ${verifiedMethods.join(', ') || '无需重新验证'})${optionalNote}`,
+        attempt: updatedTaskAfterStatusChange.verificationAttempts,
+        exitCode: lastSuccess?.exitCode,
+      }
+    );
+  }
+
+  /**
+   * 验证一个目标上的内容与本地是否一致，并更新该目标的状态与尝试次数。
+   */
+  private async verifyDestination(
+    task: TorrentTask,
+    destination: TaskDestination
+  ): Promise<VerificationResult> {
+    // 规则指定的验证方式在任务创建时保存；无效值 (如手动修改数据库) 时使用全局设置
+    const mode = isVerificationMode(destination.verifyMode) ? destination.verifyMode : undefined;
     this.logger.info(
-      `开始验证本地 "${updatedTaskAfterStatusChange.localPath}" 与远程 "${fullRemotePathForVerification}"`
+      `开始验证本地 "${task.localPath}" 与目标 [${destination.destination}] (${mode ?? this.config.rclone.verifyMode}): ${destination.remotePath}`
     );
-    const verificationResult = await this.uploaderService.verifyUpload(
-      updatedTaskAfterStatusChange.localPath,
-      fullRemotePathForVerification
+    await this.prisma.taskDestination.update({
+      where: { id: destination.id },
+      data: { verificationAttempts: { increment: 1 } },
+    });
+    // manifest 方式优先使用上传前保存的清单，避免重新读取本地文件
+    const manifest =
+      (mode ?? this.config.rclone.verifyMode) === 'manifest'
+        ? await loadTaskManifest(this.prisma, task)
+        : null;
+    // 验证期间没有进度写入 (manifest 方式还可能需要先计算本地哈希)，同样需要刷新租约
+    const verificationResult = await this.withLeaseHeartbeat(task, () =>
+      this.uploaderService.verifyUpload(task.localPath, destination.remotePath, {
+        mode,
+        manifest,
+        signal: this.shutdownController.signal,
+      })
     );
+    const metricLabels = { destination: destination.destination };
     if (verificationResult.verified) {
-      this.logger.info(
-        `[验证阶段] 任务: "${updatedTaskAfterStatusChange.name}" 验证成功! 本地与远程文件一致。`
-      );
-      await this.prisma.torrentTask.update({
-        where: { id: updatedTaskAfterStatusChange.id },
+      verificationsCounter.inc({ ...metricLabels, result: 'success' });
+      await this.prisma.taskDestination.update({
+        where: { id: destination.id },
         data: {
-          status: TaskStatus.UPLOAD_VERIFIED_SUCCESS,
+          status: DestinationStatus.VERIFIED,
+          verificationMethod: verificationResult.method ?? null,
+          verifiedAt: new Date(),
           errorMessage: null,
-          updatedAt: new Date(),
         },
       });
     } else {
+      verificationsCounter.inc({
+        ...metricLabels,
+        result: verificationResult.retryable === false ? 'fatal' : 'failure',
+      });
       this.logger.error(
-        `[验证阶段] 任务: "${updatedTaskAfterStatusChange.name}" 验证失败. 原因: ${verificationResult.message}`
+        `[验证阶段] 任务: "${task.name}" 目标 [${destination.destination}]${destination.required ? '' : ' (非必需)'} 验证失败. 原因: ${verificationResult.message}`
       );
-      await this.prisma.torrentTask.update({
-        where: { id: updatedTaskAfterStatusChange.id },
+      await this.prisma.taskDestination.update({
+        where: { id: destination.id },
         data: {
-          status: TaskStatus.VERIFICATION_FAILED,
+          status: DestinationStatus.FAILED,
+          verificationMethod: verificationResult.method ?? null,
           errorMessage: verificationResult.message || '未知的验证错误',
-          updatedAt: new Date(),
         },
       });
     }
+    return verificationResult;
+  }
+
+  /**
+   * 验证成功后的收尾流程: 删除本地文件 (并清理空目录) -> 删除 qB 任务 -> 标记完成。
+   * 每一步都有独立的状态与重试次数，失败时停在对应的 *_FAILED 状态，退避等待结束后从该步重试，次数用尽则转为 ERROR。
+   */
+  private async executePostVerificationSteps(task: TorrentTask): Promise<void> {
+    let currentTask = task;
+    if (
+      currentTask.status === TaskStatus.UPLOAD_VERIFIED_SUCCESS ||
+      currentTask.status === TaskStatus.DELETE_LOCAL_FAILED
+    ) {
+      currentTask = await this.executeDeleteLocalStep(currentTask);
+    }
+    if (
+      currentTask.status === TaskStatus.LOCAL_DELETED ||
+      currentTask.status === TaskStatus.DELETE_QB_TASK_FAILED
+    ) {
+      currentTask = await this.executeDeleteQbTaskStep(currentTask);
+    }
+    if (currentTask.status === TaskStatus.QB_TASK_DELETED) {
+      const completedTask = await this.transitionTask(currentTask, {
+        status: TaskStatus.COMPLETED,
+        errorMessage: null,
+        updatedAt: new Date(),
+      });
+      this.logger.info(`任务 "${currentTask.name}" 所有步骤已完成，状态更新为 COMPLETED。`);
+      await this.notifyTaskOutcome(completedTask);
+    }
+  }
+
+  private async executeDeleteLocalStep(task: TorrentTask): Promise<TorrentTask> {
+    if (!this.config.behavior.deleteLocalFiles) {
+      this.logger.info(
+        `[删除本地阶段] 任务: "${task.name}" 配置 DELETE_LOCAL_FILES=false，跳过删除本地文件。`
+      );
+      return this.transitionTask(task, {
+        status: TaskStatus.LOCAL_DELETED,
+        errorMessage: null,
+        updatedAt: new Date(),
+      });
+    }
+    this.logger.info(
+      `[删除本地阶段] 任务: "${task.name}" (已尝试次数: ${task.deleteLocalAttempts})`
+    );
+    const updatedTaskAfterStatusChange = await this.transitionTask(task, {
+      status: TaskStatus.DELETING_LOCAL,
+      deleteLocalAttempts: { increment: 1 },
+      nextAttemptAt: null,
+      updatedAt: new Date(),
+    });
+    const { localPath, savePath } = updatedTaskAfterStatusChange;
+    if (!savePath) {
+      this.logger.warn(
+        `任务 "${updatedTaskAfterStatusChange.name}" 未记录 savePath，删除时将无法校验路径边界，也不会清理空目录。`
+      );
+    }
+    const deleteResult = await this.fileManagerService.deleteLocalContent(
+      localPath,
+      savePath ?? undefined
+    );
+    if (!deleteResult.success) {
+      this.logger.error(
+        `[删除本地阶段] 任务: "${updatedTaskAfterStatusChange.name}" 删除本地文件失败. 原因: ${deleteResult.message}`
+      );
+      return this.recordPhaseFailure(
+        updatedTaskAfterStatusChange,
+        'deleteLocal',
+        deleteResult.message || '未知的本地删除错误'
+      );
+    }
+    if (this.config.behavior.cleanupEmptyDirs && savePath) {
+      try {
+        await this.fileManagerService.cleanupEmptyDirs(path.dirname(localPath), savePath);
+      } catch (cleanupError) {
+        // 清理空目录失败不影响任务继续，仅记录警告
+        this.logger.warn(
+          `任务 "${updatedTaskAfterStatusChange.name}" 清理空目录时出错 (已忽略):`,
+          cleanupError
+        );
+      }
+    }
+    this.logger.info(
+      `[删除本地阶段] 任务: "${updatedTaskAfterStatusChange.name}" 本地文件已删除。`
+    );
+    return this.transitionTask(updatedTaskAfterStatusChange, {
+      status: TaskStatus.LOCAL_DELETED,
+      errorMessage: null,
+      updatedAt: new Date(),
+    });
+  }
+
+  private async executeDeleteQbTaskStep(task: TorrentTask): Promise<TorrentTask> {
+    if (!this.config.behavior.deleteQbTask) {
+      this.logger.info(
+        `[删除 qB 任务阶段] 任务: "${task.name}" 配置 DELETE_QB_TASK=false，保留 qB 中的任务。`
+      );
+      return this.transitionTask(task, {
+        status: TaskStatus.QB_TASK_DELETED,
+        errorMessage: null,
+        updatedAt: new Date(),
+      });
+    }
+    this.logger.info(
+      `[删除 qB 任务阶段] 任务: "${task.name}" (已尝试次数: ${task.deleteQbTaskAttempts})`
+    );
+    const updatedTaskAfterStatusChange = await this.transitionTask(task, {
+      status: TaskStatus.DELETING_QB_TASK,
+      deleteQbTaskAttempts: { increment: 1 },
+      nextAttemptAt: null,
+      updatedAt: new Date(),
+    });
+    const instance = this.qbInstances.get(updatedTaskAfterStatusChange.instance);
+    if (!instance) {
+      return this.recordPhaseFailure(
+        updatedTaskAfterStatusChange,
+        'deleteQbTask',
+        `未配置任务所属的 qB 实例 "${updatedTaskAfterStatusChange.instance}"，无法删除 qB 任务。`,
+        { retryable: false }
+      );
+    }
+    try {
+      // 只移除 qB 中的任务，不让 qB 删除文件 (本地文件由上一步按配置处理)
+      await instance.qbService.deleteTorrents([updatedTaskAfterStatusChange.hash], false);
+    } catch (qbError) {
+      const errorMessage = qbError instanceof Error ? qbError.message : String(qbError);
+      this.logger.error(
+        `[删除 qB 任务阶段] 任务: "${updatedTaskAfterStatusChange.name}" 删除 qB 任务失败. 原因: ${errorMessage}`
+      );
+      return this.recordPhaseFailure(
+        updatedTaskAfterStatusChange,
+        'deleteQbTask',
+        `删除 qB 任务失败: ${errorMessage}`
+      );
+    }
+    this.logger.info(
+      `[删除 qB 任务阶段] 任务: "${updatedTaskAfterStatusChange.name}" 已从 qB 实例 [${instance.config.name}] 移除。`
+    );
+    return this.transitionTask(updatedTaskAfterStatusChange, {
+      status: TaskStatus.QB_TASK_DELETED,
+      errorMessage: null,
+      updatedAt: new Date(),
+    });
+  }
+
+  /**
+   * 远程巡检: 按最近一次确认时间从旧到新选取已完成的任务，逐个重新检查各目标上的远程内容。
+   * 超过 REMOTE_AUDIT_MIN_INTERVAL_DAYS 未确认的任务才会被选中，每次最多 limit 个 (默认 REMOTE_AUDIT_BATCH_SIZE)。
+   * 发现内容缺失或不一致时任务转为 REMOTE_AUDIT_FAILED 并发送通知。上一次巡检仍在进行时直接返回 null。
+   */
+  public async runRemoteAudit(limit?: number): Promise<RemoteAuditRunResult | null> {
+    if (this.isAuditing) {
+      this.logger.warn('上一次远程巡检尚未结束，跳过本次巡检。');
+      return null;
+    }
+    this.isAuditing = true;
+    const result: RemoteAuditRunResult = { checked: 0, passed: 0, failed: 0, inconclusive: 0 };
+    try {
+      const cutoff = new Date(Date.now() - this.config.remoteAudit.minIntervalDays * 86400 * 1000);
+      const tasks = await this.prisma.torrentTask.findMany({
+        where: {
+          status: TaskStatus.COMPLETED,
+          OR: [{ remoteVerifiedAt: null }, { remoteVerifiedAt: { lt: cutoff } }],
+        },
+        orderBy: [{ remoteVerifiedAt: { sort: 'asc', nulls: 'first' } }, { createdAt: 'asc' }],
+        take: limit ?? this.config.remoteAudit.batchSize,
+      });
+      if (tasks.length === 0) {
+        this.logger.info('远程巡检: 没有需要检查的已完成任务。');
+        return result;
+      }
+      this.logger.info(`远程巡检开始: 本次检查 ${tasks.length} 个已完成的任务。`);
+      for (const task of tasks) {
+        if (this.stopRequested) break;
+        result.checked++;
+        try {
+          const outcome = await this.auditTask(task);
+          result[outcome]++;
+        } catch (error) {
+          result.inconclusive++;
+          this.logger.error(`远程巡检任务 "${task.name}" 时发生错误:`, error);
+        }
+      }
+      this.logger.info(
+        `远程巡检结束: 检查 ${result.checked} 个任务，通过 ${result.passed}，发现问题 ${result.failed}，无法确认 ${result.inconclusive}。`
+      );
+      return result;
+    } finally {
+      this.isAuditing = false;
+    }
+  }
+
+  /**
+   * 检查一个已完成任务在各已验证目标上的远程内容。
+   * 有文件清单时逐个文件核对，否则只检查远程内容存在且总大小不小于上传时的大小。
+   */
+  private async auditTask(task: TorrentTask): Promise<'passed' | 'failed' | 'inconclusive'> {
+    const destinations = (await this.getTaskDestinations(task)).filter(
+      (destination) => destination.status === DestinationStatus.VERIFIED
+    );
+    const manifest = await loadTaskManifest(this.prisma, task);
+    const failures: { destination: TaskDestination; message: string }[] = [];
+    const errors: string[] = [];
+    for (const destination of destinations) {
+      const metricLabels = { destination: destination.destination };
+      const listResult = await this.uploaderService.listRemote(destination.remotePath, {
+        withHashes: manifest !== null,
+        signal: this.shutdownController.signal,
+      });
+      if (!listResult.success && !listResult.missing) {
+        remoteAuditsCounter.inc({ ...metricLabels, result: 'error' });
+        this.logger.warn(
+          `[远程巡检] 任务: "${task.name}" 目标 [${destination.destination}] 无法列出远程文件，下次巡检时重试: ${listResult.message}`
+        );
+        errors.push(`[${destination.destination}] ${listResult.message}`);
+        continue;
+      }
+      let comparison: RemoteAuditComparison;
+      if (!listResult.success) {
+        comparison = {
+          ok: false,
+          method: 'listing',
+          problems: [listResult.message || '远程路径不存在'],
+          checkedFiles: 0,
+        };
+      } else if (manifest) {
+        comparison = compareWithManifest(
+          manifest,
+          listResult.files ?? [],
+          isSingleFileManifest(task.localPath, manifest)
+        );
+      } else {
+        comparison = compareWithExpectedSize(listResult.files ?? [], task.uploadSize);
+      }
+
+      if (comparison.ok) {
+        remoteAuditsCounter.inc({ ...metricLabels, result: 'passed' });
+        this.logger.info(
+          `[远程巡检] 任务: "${task.name}" 目标 [${destination.destination}] 检查通过 (${comparison.method}, ${comparison.checkedFiles} 个文件)。`
+        );
+        await this.prisma.taskDestination.update({
+          where: { id: destination.id },
+          data: { auditedAt: new Date() },
+        });
+        continue;
+      }
+      remoteAuditsCounter.inc({ ...metricLabels, result: 'failed' });
+      const message = `远程巡检发现问题 (${comparison.method}): ${summarizeAuditProblems(comparison.problems)}`;
+      this.logger.error(
+        `[远程巡检] 任务: "${task.name}" 目标 [${destination.destination}] ${message}`
+      );
+      failures.push({ destination, message });
+      // 标记为未上传，手动重试时会重新上传该目标
+      await this.prisma.taskDestination.update({
+        where: { id: destination.id },
+        data: { status: DestinationStatus.FAILED, uploadedAt: null, errorMessage: message },
+      });
+    }
+
+    if (failures.length > 0) {
+      const errorMessage = failures
+        .map(({ destination, message }) => `[${destination.destination}] ${message}`)
+        .join('; ');
+      const failedTask = await this.transitionTask(task, {
+        status: TaskStatus.REMOTE_AUDIT_FAILED,
+        errorMessage,
+        lastAuditAt: new Date(),
+        nextAttemptAt: null,
+        updatedAt: new Date(),
+      });
+      await this.mailerService.notifyTask('remote_audit_failed', failedTask, {
+        remotePath: failures.map(({ destination }) => destination.remotePath).join(', '),
+      });
+      return 'failed';
+    }
+    await this.prisma.torrentTask.update({
+      where: { id: task.id },
+      data: {
+        lastAuditAt: new Date(),
+        // 有目标无法确认时不更新确认时间，下次巡检会优先再次检查该任务
+        ...(errors.length === 0 ? { remoteVerifiedAt: new Date() } : {}),
+      },
+    });
+    return errors.length === 0 ? 'passed' : 'inconclusive';
   }
 }
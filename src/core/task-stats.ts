@@ -0,0 +1,101 @@
+// src/core/task-stats.ts
+import { PrismaClient, TaskStatus, TorrentTask } from '@prisma/client';
+
+// 视为 "失败" 的状态 (仪表盘中的最近失败列表)
+export const FAILURE_STATUSES: TaskStatus[] = [
+  TaskStatus.UPLOAD_FAILED,
+  TaskStatus.VERIFICATION_FAILED,
+  TaskStatus.DELETE_LOCAL_FAILED,
+  TaskStatus.DELETE_QB_TASK_FAILED,
+  TaskStatus.ERROR,
+  TaskStatus.REMOTE_AUDIT_FAILED,
+];
+
+export interface DailyThroughput {
+  date: string; // 本地日期 YYYY-MM-DD
+  tasks: number;
+  bytes: number;
+  durationMs: number;
+  avgSpeedBps: number | null; // 总字节数 / 总上传耗时
+}
+
+export interface TaskSummary {
+  generatedAt: Date;
+  statusCounts: Record<TaskStatus, number>;
+  activeUploads: TorrentTask[];
+  recentFailures: TorrentTask[];
+  dailyThroughput: DailyThroughput[]; // 按日期升序，包含没有上传的日期
+}
+
+export interface TaskSummaryOptions {
+  days?: number; // 吞吐量统计的天数 (含今天)，默认 14
+  failureLimit?: number; // 最近失败任务的数量，默认 20
+  now?: Date;
+}
+
+function toLocalDateKey(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * 汇总任务表: 各状态数量、正在上传的任务、最近的失败任务，以及按天统计的上传吞吐量。
+ */
+export async function getTaskSummary(
+  prisma: PrismaClient,
+  options: TaskSummaryOptions = {}
+): Promise<TaskSummary> {
+  const now = options.now ?? new Date();
+  const days = options.days ?? 14;
+  const since = new Date(now.getFullYear(), now.getMonth(), now.getDate() - (days - 1));
+
+  const [groups, activeUploads, recentFailures, uploaded] = await Promise.all([
+    prisma.torrentTask.groupBy({ by: ['status'], _count: { _all: true } }),
+    prisma.torrentTask.findMany({
+      where: { status: TaskStatus.UPLOADING },
+      orderBy: [{ uploadProgressAt: 'desc' }],
+    }),
+    prisma.torrentTask.findMany({
+      where: { status: { in: FAILURE_STATUSES } },
+      orderBy: [{ updatedAt: 'desc' }],
+      take: options.failureLimit ?? 20,
+    }),
+    prisma.torrentTask.findMany({
+      where: { uploadFinishedAt: { gte: since } },
+      select: { uploadFinishedAt: true, uploadSize: true, uploadDurationMs: true },
+    }),
+  ]);
+
+  const statusCounts = Object.fromEntries(
+    Object.values(TaskStatus).map((status) => [status, 0])
+  ) as Record<TaskStatus, number>;
+  for (const group of groups) {
+    statusCounts[group.status] = group._count._all;
+  }
+
+  const byDay = new Map<string, DailyThroughput>();
+  for (let i = 0; i < days; i++) {
+    const date = toLocalDateKey(
+      new Date(since.getFullYear(), since.getMonth(), since.getDate() + i)
+    );
+    byDay.set(date, { date, tasks: 0, bytes: 0, durationMs: 0, avgSpeedBps: null });
+  }
+  for (const task of uploaded) {
+    const entry = task.uploadFinishedAt && byDay.get(toLocalDateKey(task.uploadFinishedAt));
+    if (!entry) continue;
+    entry.tasks += 1;
+    entry.bytes += Number(task.uploadSize ?? 0);
+    entry.durationMs += task.uploadDurationMs ?? 0;
+  }
+  for (const entry of byDay.values()) {
+    entry.avgSpeedBps = entry.durationMs > 0 ? entry.bytes / (entry.durationMs / 1000) : null;
+  }
+
+  return {
+    generatedAt: now,
+    statusCounts,
+    activeUploads,
+    recentFailures,
+    dailyThroughput: [...byDay.values()],
+  };
+}
@@ -1,87 +1,175 @@
 // src/core/uploader.service.ts
-import { exec } from 'node:child_process'; // 用于执行外部命令
-import { promisify } from 'node:util';
 import fs from 'node:fs/promises'; // 导入 Node.js 文件系统模块的 Promise版本
-// import path from 'node:path'; // 如果确实没有用到 'path' 模块，则删除或注释掉此行
-import { IRcloneConfig } from '../interfaces/config.types';
+import os from 'node:os';
+import path from 'node:path';
+import { IRcloneConfig, VerificationMode } from '../interfaces/config.types';
 import { Logger } from 'winston';
+import {
+  RcloneRunOptions,
+  RcloneRunResult,
+  RcloneRunner,
+  classifyRcloneFailure,
+  describeRcloneFailure,
+  isRcBindFailure,
+} from './rclone-runner';
+import { RcloneProgress, parseRcloneStatsLine } from './rclone-progress';
+import {
+  CHECK_MODE_FLAGS,
+  CheckHashUsage,
+  describeCheckMethod,
+  detectCheckHashUsage,
+} from './verification-modes';
+import {
+  estimateUploadTimeoutMs,
+  formatBwlimitTimetable,
+  getBandwidthLimitAt,
+} from './bandwidth-schedule';
+import { BandwidthCoordinator } from './bandwidth-coordinator';
+import { formatBytes } from '../utils/format.utils';
+import {
+  MANIFEST_FILE_NAME,
+  ManifestEntry,
+  buildLocalManifest,
+  formatSha256SumFile,
+  getRemoteManifestPath,
+  isSingleFileManifest,
+} from './checksum-manifest';
 
-const execAsync = promisify(exec); // 将 exec 转换为返回 Promise 的函数
-
-// 定义一个接口来描述 execAsync 可能抛出的错误类型
-interface ExecError extends Error {
-  stdout?: string;
-  stderr?: string;
-  code?: number; // 退出码
-  killed?: boolean;
-  signal?: string;
-}
+// 无法得知上传大小时使用的超时时间
+const UNKNOWN_SIZE_UPLOAD_TIMEOUT_MS = 3 * 60 * 60 * 1000;
+const MANIFEST_UPLOAD_TIMEOUT_MS = 5 * 60 * 1000;
+// rclone 因 rc 端口被占用而启动失败时，换新端口重新启动的最多次数
+const RC_BIND_MAX_ATTEMPTS = 3;
+// 验证时忽略上传到目录内的清单文件，否则 rclone 会把它报告为本地不存在的多余文件
+const EXCLUDE_MANIFEST_FLAGS = ['--exclude', `/${MANIFEST_FILE_NAME}`];
 
 export interface UploadResult {
   success: boolean;
   message?: string;
   remotePath?: string; // 实际上传到的远程路径
+  exitCode?: number | null; // rclone 退出码
+  durationMs?: number; // rclone 实际运行耗时
+  retryable?: boolean; // 失败时: 是否值得重试 (false 表示致命错误)
   stdout?: string;
   stderr?: string;
 }
 
 export interface VerificationResult {
   verified: boolean;
+  method?: string; // 实际执行的验证方式，如 "hash (md5)"、"size-only"、"manifest (sha256)"
   message?: string;
+  exitCode?: number | null;
+  retryable?: boolean; // 验证失败时: 是否值得重试 (false 表示致命错误)
   stdout?: string;
   stderr?: string;
 }
 
+// rclone lsjson 列出的一个远程文件
+export interface RemoteFileInfo {
+  path: string; // 相对于列出路径的路径 (以 "/" 分隔)；列出的是单个文件时为文件名
+  size: number;
+  sha256?: string; // 只有请求了哈希且网盘支持 SHA-256 时才有
+}
+
+export interface RemoteListResult {
+  success: boolean;
+  files?: RemoteFileInfo[];
+  missing?: boolean; // 失败原因是远程路径不存在
+  message?: string;
+  exitCode?: number | null;
+  retryable?: boolean;
+  stderr?: string;
+}
+
+export interface RcloneCallOptions {
+  signal?: AbortSignal; // 用于取消正在运行的 rclone 进程
+}
+
+export interface VerifyOptions extends RcloneCallOptions {
+  mode?: VerificationMode; // 未指定时使用 RCLONE_VERIFY_MODE
+  manifest?: ManifestEntry[] | null; // manifest 方式使用的清单 (通常来自数据库)，未提供时从本地文件计算
+}
+
+export interface UploadOptions extends RcloneCallOptions {
+  onProgress?: (progress: RcloneProgress) => void; // 每次 rclone 输出统计信息时回调
+  sizeBytes?: number; // 上传大小，用于自动计算超时；未提供时单个文件取本地文件大小
+}
+
 export class UploaderService {
+  private rcloneRunner: RcloneRunner;
+  private bwlimitFlags: string[];
+  private bandwidthCoordinator?: BandwidthCoordinator;
+
   constructor(
     private rcloneConfig: IRcloneConfig, // Rclone 相关配置
-    private logger: Logger // 日志服务实例
+    private logger: Logger, // 日志服务实例
+    private uploadConcurrency: number = 1 // 同时运行的上传数上限，用于估算最坏情况下每个上传分到的速率
   ) {
-    if (!this.rcloneConfig.remoteName) {
-      const errMsg = 'Rclone 远程名称 (RCLONE_REMOTE_NAME) 未配置。';
+    if (this.rcloneConfig.destinations.length === 0) {
+      const errMsg = 'Rclone 上传目标 (RCLONE_REMOTE_NAME) 未配置。';
       this.logger.error(errMsg);
       throw new Error(errMsg);
     }
+    this.rcloneRunner = new RcloneRunner(this.rcloneConfig, this.logger);
+    // 清单等小文件的上传不参与带宽分配，按最坏情况 (所有上传槽位都在使用) 限速
+    this.bwlimitFlags =
+      this.rcloneConfig.bandwidthSchedule.length > 0
+        ? [
+            '--bwlimit',
+            formatBwlimitTimetable(this.rcloneConfig.bandwidthSchedule, this.uploadConcurrency),
+          ]
+        : [];
+    if (this.rcloneConfig.bandwidthSchedule.length > 0) {
+      this.bandwidthCoordinator = new BandwidthCoordinator(
+        this.rcloneConfig.bandwidthSchedule,
+        this.rcloneConfig.bandwidthStateDir,
+        this.logger
+      );
+    }
   }
 
   /**
    * 将本地文件或目录上传到网盘。
    * @param localPath 要上传的本地文件或目录的绝对路径。
-   * @param relativeTargetPath 在网盘远程基础路径下的相对目标路径。
+   * @param fullRemotePath 完整的远程目标路径 (remote:path)。
    * @param rcloneFlags 可选的额外 rclone 命令行参数数组。
+   * @param options 可选的调用选项 (取消信号等)。
    * @returns Promise<UploadResult> 上传结果。
    */
   public async upload(
     localPath: string,
-    relativeTargetPath: string,
-    rcloneFlags: string[] = []
+    fullRemotePath: string,
+    rcloneFlags: string[] = [],
+    options: UploadOptions = {}
   ): Promise<UploadResult> {
-    const remoteBase = `${this.rcloneConfig.remoteName}:${this.rcloneConfig.defaultUploadPath.replace(/\/$/, '')}`;
-    const fullRemotePath = `${remoteBase}/${relativeTargetPath.replace(/^\//, '')}`;
-
     this.logger.info(`准备上传: 本地 '${localPath}' -> 远程 '${fullRemotePath}'`);
 
-    const configFileArg = this.rcloneConfig.configPath
-      ? `--config "${this.rcloneConfig.configPath}"`
-      : '';
-
+    // 使用 JSON 日志，并以 NOTICE 级别输出统计信息，以便解析上传进度
     const defaultFlags = [
       '--verbose',
+      '--use-json-log',
       '--stats=10s',
-      '--stats-one-line',
+      '--stats-log-level=NOTICE',
       '--retries=3',
       '--low-level-retries=10',
     ];
 
     let isLocalPathAFile = false;
+    let sizeBytes = options.sizeBytes;
     try {
       const stats = await fs.stat(localPath);
       isLocalPathAFile = stats.isFile();
+      if (sizeBytes === undefined && isLocalPathAFile) sizeBytes = stats.size;
     } catch (statError: unknown) {
       // 使用 unknown 类型
       const errorMessage = statError instanceof Error ? statError.message : String(statError);
       this.logger.error(`无法获取本地路径 '${localPath}' 的状态: ${errorMessage}`, statError);
-      return { success: false, message: `无法访问本地路径: ${localPath}. 错误: ${errorMessage}` };
+      // 本地文件不存在时重试也无济于事，其他错误 (如权限、IO) 可能是暂时的
+      return {
+        success: false,
+        message: `无法访问本地路径: ${localPath}. 错误: ${errorMessage}`,
+        retryable: (statError as NodeJS.ErrnoException)?.code !== 'ENOENT',
+      };
     }
 
     const rcloneSubCommand = isLocalPathAFile ? 'copyto' : 'copy';
@@ -89,105 +177,396 @@ export class UploaderService {
       `本地路径 '${localPath}' 被识别为 [${isLocalPathAFile ? '文件' : '目录'}]。将使用 rclone '${rcloneSubCommand}' 命令。`
     );
 
-    const commandParts = [
-      'rclone',
-      rcloneSubCommand,
-      configFileArg,
-      ...defaultFlags,
-      ...rcloneFlags,
-      `"${localPath}"`,
-      `"${fullRemotePath}"`,
-    ];
-    const command = commandParts.filter((part) => part !== '').join(' ');
-
-    this.logger.debug(`[RCLONE_COMMAND] 执行 rclone 命令: ${command}`);
+    const timeoutMs = this.getUploadTimeoutMs(sizeBytes);
+    this.logger.info(`本次上传超时时间: ${Math.round(timeoutMs / 60000)} 分钟。`);
 
-    try {
-      const { stdout, stderr } = await execAsync(command, { timeout: 3 * 60 * 60 * 1000 });
-
-      if (stderr && stderr.trim() !== '') {
-        if (stderr.toLowerCase().includes('error')) {
-          this.logger.error(`Rclone 上传 '${localPath}' 遇到错误 (stderr): ${stderr}`);
-        } else {
-          this.logger.warn(
-            `Rclone 上传 '${localPath}' 有输出到 stderr (可能为警告或进度信息): ${stderr}`
-          );
-        }
+    const result = await this.runWithBandwidthLease(
+      (leaseFlags) => [
+        rcloneSubCommand,
+        ...defaultFlags,
+        ...leaseFlags,
+        ...rcloneFlags,
+        localPath,
+        fullRemotePath,
+      ],
+      {
+        timeoutMs,
+        signal: options.signal,
+        onStderrLine: (line) => {
+          const progress = parseRcloneStatsLine(line);
+          if (progress) options.onProgress?.(progress);
+        },
       }
+    );
+
+    if (!result.success) {
+      const errorMessage = describeRcloneFailure(result);
+      const { retryable, reason } = classifyRcloneFailure(result, 'copy');
+      this.logger.error(
+        `Rclone 上传 '${localPath}' 失败 (${retryable ? '可重试' : '不可重试'}: ${reason})。${errorMessage}`
+      );
+      return {
+        success: false,
+        message: `Rclone 命令执行失败 (${reason})，${errorMessage}`,
+        exitCode: result.exitCode,
+        durationMs: result.durationMs,
+        retryable,
+        stderr: result.stderr,
+        stdout: result.stdout,
+      };
+    }
+
+    // JSON 日志中每行都带有 level 字段，统计信息里的 "errors":0 不应被误判为错误
+    if (result.stderr.includes('"level":"error"')) {
+      this.logger.warn(
+        `Rclone 上传 '${localPath}' 成功退出，但 stderr 中包含错误信息，请检查日志。`
+      );
+    }
+    this.logger.info(`Rclone 上传 '${localPath}' 初步完成，耗时 ${result.durationMs}ms。`);
+    return {
+      success: true,
+      remotePath: fullRemotePath,
+      exitCode: result.exitCode,
+      durationMs: result.durationMs,
+      stdout: result.stdout,
+      stderr: result.stderr,
+    };
+  }
+
+  /**
+   * 在带宽份额内运行 rclone 上传命令；未配置带宽时间表时直接运行。
+   * 份额的 rc 端口在分配后可能被其他程序抢先占用，此时 rclone 尚未传输任何内容，换一个端口重新运行。
+   */
+  private async runWithBandwidthLease(
+    buildArgs: (leaseFlags: string[]) => string[],
+    options: RcloneRunOptions
+  ): Promise<RcloneRunResult> {
+    for (let attempt = 1; ; attempt++) {
+      const lease = await this.bandwidthCoordinator?.acquire();
+      if (!lease) return this.rcloneRunner.run(buildArgs([]), options);
 
+      const limit = getBandwidthLimitAt(this.rcloneConfig.bandwidthSchedule);
       this.logger.info(
-        `Rclone 上传 '${localPath}' 初步完成。Stdout (部分): ${stdout.slice(0, 300)}...`
+        limit === null
+          ? '当前时段不限速。'
+          : `当前时段上传总带宽限制 ${formatBytes(limit)}/s，由正在运行的上传平分，本次上传当前分到 ${lease.rate}/s。`
       );
-      return { success: true, remotePath: fullRemotePath, stdout, stderr };
-    } catch (error: unknown) {
-      // 使用 unknown 类型
-      const execError = error as ExecError; // 断言为我们定义的 ExecError
-      const errorMessage = execError.stderr || execError.message || '未知 rclone 执行错误';
-      this.logger.error(
-        `Rclone 上传 '${localPath}' 失败。退出码: ${execError.code || 'N/A'}. Stderr: ${execError.stderr || 'N/A'}. Stdout: ${execError.stdout || 'N/A'}`,
-        execError
+      let result: RcloneRunResult;
+      try {
+        result = await this.rcloneRunner.run(buildArgs(lease.flags), {
+          ...options,
+          env: lease.env,
+        });
+      } finally {
+        await lease.release();
+      }
+      if (!isRcBindFailure(result) || attempt >= RC_BIND_MAX_ATTEMPTS) return result;
+      this.logger.warn(
+        `rclone 远程控制端口被占用，更换端口后重新启动上传 (第 ${attempt}/${RC_BIND_MAX_ATTEMPTS - 1} 次重新启动)。`
       );
+    }
+  }
+
+  private getUploadTimeoutMs(sizeBytes: number | undefined): number {
+    if (this.rcloneConfig.uploadTimeoutMs > 0) return this.rcloneConfig.uploadTimeoutMs;
+    if (sizeBytes === undefined) return UNKNOWN_SIZE_UPLOAD_TIMEOUT_MS;
+    return estimateUploadTimeoutMs(
+      sizeBytes,
+      this.rcloneConfig.bandwidthSchedule,
+      this.uploadConcurrency,
+      this.rcloneConfig.uploadMinBytesPerSecond
+    );
+  }
+
+  /**
+   * 通过 rclone lsjson 递归列出远程路径下的所有文件 (不含上传的清单文件)。
+   * @param remotePath 完整远程路径，可以是目录或单个文件。
+   * @param options withHashes 为 true 时同时请求 SHA-256 (部分网盘需要额外计算，耗时更长)。
+   * @returns Promise<RemoteListResult> 列出结果；远程路径不存在时 missing 为 true。
+   */
+  public async listRemote(
+    remotePath: string,
+    options: RcloneCallOptions & { withHashes?: boolean } = {}
+  ): Promise<RemoteListResult> {
+    // lsjson 每个条目输出一行，条目很多时会超出 runner 保留的 stdout 长度，因此逐行收集
+    const stdoutLines: string[] = [];
+    const result = await this.rcloneRunner.run(
+      [
+        'lsjson',
+        '--recursive',
+        '--files-only',
+        ...(options.withHashes ? ['--hash', '--hash-type', 'sha256'] : []),
+        ...EXCLUDE_MANIFEST_FLAGS,
+        remotePath,
+      ],
+      {
+        timeoutMs: this.rcloneConfig.verifyTimeoutMs,
+        signal: options.signal,
+        onStdoutLine: (line) => stdoutLines.push(line),
+      }
+    );
+    if (!result.success) {
+      // 退出码 3/4: 目录/文件不存在
+      const missing = result.exitCode === 3 || result.exitCode === 4;
+      const { retryable, reason } = classifyRcloneFailure(result, 'check');
       return {
         success: false,
-        message: `Rclone 命令执行失败，退出码 ${execError.code || 'N/A'}: ${errorMessage}`,
-        stderr: execError.stderr,
-        stdout: execError.stdout,
+        missing,
+        message: missing
+          ? `远程路径不存在: ${remotePath}`
+          : `列出远程文件失败 (${reason})，${describeRcloneFailure(result)}`,
+        exitCode: result.exitCode,
+        retryable,
+        stderr: result.stderr,
+      };
+    }
+    try {
+      const items = JSON.parse(stdoutLines.join('\n')) as {
+        Path: string;
+        Size: number;
+        IsDir?: boolean;
+        Hashes?: Record<string, string>;
+      }[];
+      return {
+        success: true,
+        files: items
+          .filter((item) => !item.IsDir)
+          .map((item) => ({
+            path: item.Path,
+            size: item.Size,
+            sha256: item.Hashes?.sha256 || undefined,
+          })),
+        exitCode: result.exitCode,
+      };
+    } catch (parseError: unknown) {
+      const errorMessage = parseError instanceof Error ? parseError.message : String(parseError);
+      return {
+        success: false,
+        message: `无法解析 rclone lsjson 的输出: ${errorMessage}`,
+        exitCode: result.exitCode,
+        retryable: true,
+        stderr: result.stderr,
       };
     }
   }
 
+  /**
+   * 将文件清单 (.qbcs-manifest.json) 上传到内容旁边: 内容为目录时放在目录内，单个文件时放在文件旁。
+   * @param localPath 上传内容的本地路径 (用于判断是文件还是目录)。
+   * @param remotePath 内容的完整远程路径。
+   * @param manifestJson 清单内容。
+   * @returns Promise<UploadResult> 上传结果，remotePath 为清单文件的远程路径。
+   */
+  public async uploadManifest(
+    localPath: string,
+    remotePath: string,
+    manifestJson: string
+  ): Promise<UploadResult> {
+    let isDirectory: boolean;
+    try {
+      isDirectory = (await fs.stat(localPath)).isDirectory();
+    } catch (statError: unknown) {
+      const errorMessage = statError instanceof Error ? statError.message : String(statError);
+      return {
+        success: false,
+        message: `无法访问本地路径: ${localPath}. 错误: ${errorMessage}`,
+        retryable: (statError as NodeJS.ErrnoException)?.code !== 'ENOENT',
+      };
+    }
+    const remoteManifestPath = getRemoteManifestPath(remotePath, isDirectory);
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'qbcs-manifest-'));
+    try {
+      const manifestFilePath = path.join(tempDir, MANIFEST_FILE_NAME);
+      await fs.writeFile(manifestFilePath, manifestJson, 'utf-8');
+      const result = await this.rcloneRunner.run(
+        ['copyto', '--verbose', ...this.bwlimitFlags, manifestFilePath, remoteManifestPath],
+        { timeoutMs: MANIFEST_UPLOAD_TIMEOUT_MS }
+      );
+      if (!result.success) {
+        const errorMessage = describeRcloneFailure(result);
+        const { retryable, reason } = classifyRcloneFailure(result, 'copy');
+        this.logger.error(
+          `上传文件清单到 '${remoteManifestPath}' 失败 (${reason})。${errorMessage}`
+        );
+        return {
+          success: false,
+          message: `上传文件清单失败 (${reason})，${errorMessage}`,
+          exitCode: result.exitCode,
+          durationMs: result.durationMs,
+          retryable,
+          stderr: result.stderr,
+          stdout: result.stdout,
+        };
+      }
+      this.logger.info(`文件清单已上传到 '${remoteManifestPath}'。`);
+      return {
+        success: true,
+        remotePath: remoteManifestPath,
+        exitCode: result.exitCode,
+        durationMs: result.durationMs,
+      };
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  }
+
   /**
    * 验证文件是否已成功上传到网盘并与本地一致。
    * @param localPath 本地文件或目录的绝对路径。
    * @param remotePath 已上传到网盘的完整远程路径。
-   * @returns Promise<VerificationResult> 验证结果。
+   * @param options 可选的调用选项 (验证方式、清单、取消信号等)。
+   * @returns Promise<VerificationResult> 验证结果，包含实际执行的验证方式。
    */
-  public async verifyUpload(localPath: string, remotePath: string): Promise<VerificationResult> {
-    this.logger.info(`准备验证: 本地 '${localPath}' vs 远程 '${remotePath}'`);
+  public async verifyUpload(
+    localPath: string,
+    remotePath: string,
+    options: VerifyOptions = {}
+  ): Promise<VerificationResult> {
+    const mode = options.mode ?? this.rcloneConfig.verifyMode;
+    if (mode === 'manifest') {
+      return this.verifyAgainstManifest(localPath, remotePath, options);
+    }
+    this.logger.info(`准备验证 (${mode}): 本地 '${localPath}' vs 远程 '${remotePath}'`);
 
-    const configFileArg = this.rcloneConfig.configPath
-      ? `--config "${this.rcloneConfig.configPath}"`
-      : '';
+    // 比较方式在开始时输出，大目录的 DEBUG 输出很长，stderr 只保留末尾，因此逐行检测
+    const hashUsage: CheckHashUsage = { hashType: null, fallbackToSize: false };
+    const result = await this.rcloneRunner.run(
+      ['check', '-vv', ...CHECK_MODE_FLAGS[mode], ...EXCLUDE_MANIFEST_FLAGS, localPath, remotePath],
+      {
+        timeoutMs: this.rcloneConfig.verifyTimeoutMs,
+        signal: options.signal,
+        onStderrLine: (line) => {
+          const usage = detectCheckHashUsage(line);
+          hashUsage.hashType ??= usage.hashType;
+          hashUsage.fallbackToSize ||= usage.fallbackToSize;
+        },
+      }
+    );
+    const method = describeCheckMethod(mode, hashUsage);
 
-    const commandParts = [
-      'rclone',
-      'check',
-      configFileArg,
-      '--verbose',
-      `"${localPath}"`,
-      `"${remotePath}"`,
-    ];
-    const command = commandParts.filter((part) => part !== '').join(' ');
+    if (!result.success) {
+      const errorMessage = describeRcloneFailure(result);
+      const { retryable, reason } = classifyRcloneFailure(result, 'check');
+      this.logger.error(
+        `Rclone check 失败: '${localPath}' 与 '${remotePath}' 不一致或发生错误 (${retryable ? '可重试' : '不可重试'}: ${reason})。${errorMessage}`
+      );
+      return {
+        verified: false,
+        method,
+        message: `验证失败 (${reason})，${errorMessage}`,
+        exitCode: result.exitCode,
+        retryable,
+        stdout: result.stdout,
+        stderr: result.stderr,
+      };
+    }
+
+    // rclone check 在两端没有共同哈希时只比较大小，hash 方式不接受这种退化
+    if (mode === 'hash' && hashUsage.fallbackToSize) {
+      const message =
+        '验证失败 (远程与本地没有共同的哈希算法，rclone 只比较了大小)，hash 方式要求哈希校验。可改用 download 或 manifest 方式。';
+      this.logger.error(`Rclone check '${localPath}' 与 '${remotePath}': ${message}`);
+      return {
+        verified: false,
+        method,
+        message,
+        exitCode: result.exitCode,
+        retryable: false,
+        stdout: result.stdout,
+        stderr: result.stderr,
+      };
+    }
 
-    this.logger.debug(`[RCLONE_COMMAND] 执行 rclone check 命令: ${command}`);
+    this.logger.info(`Rclone check 成功 (${method}): '${localPath}' 与 '${remotePath}' 一致。`);
+    return {
+      verified: true,
+      method,
+      message: `本地与远程同步一致 (${method})。`,
+      exitCode: result.exitCode,
+      stdout: result.stdout,
+      stderr: result.stderr,
+    };
+  }
+
+  /**
+   * 用 SHA-256 清单通过 rclone checksum 校验远程内容。
+   * 远程不支持 SHA-256 时 rclone 会报错 (不可重试)，此时应改用 download 方式。
+   */
+  private async verifyAgainstManifest(
+    localPath: string,
+    remotePath: string,
+    options: VerifyOptions
+  ): Promise<VerificationResult> {
+    const method = 'manifest (sha256)';
+    this.logger.info(
+      `准备验证 (manifest): 本地 '${localPath}' 的 SHA-256 清单 vs 远程 '${remotePath}'`
+    );
 
+    let manifest: ManifestEntry[];
     try {
-      const { stdout, stderr } = await execAsync(command, { timeout: 30 * 60 * 1000 });
+      manifest = options.manifest ?? (await buildLocalManifest(localPath));
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error(`无法生成 '${localPath}' 的 SHA-256 清单: ${errorMessage}`);
+      return {
+        verified: false,
+        method,
+        message: `无法生成本地文件清单: ${errorMessage}`,
+        retryable: (error as NodeJS.ErrnoException)?.code !== 'ENOENT',
+      };
+    }
+
+    // 单个文件通过 copyto 上传到 remotePath 本身，rclone checksum 需要的是其所在目录。
+    // 该目录中还有其他内容，因此只检查清单中的文件是否存在且一致 (--one-way)
+    let checkRoot = remotePath;
+    const extraFlags = [...EXCLUDE_MANIFEST_FLAGS];
+    if (isSingleFileManifest(localPath, manifest)) {
+      extraFlags.push('--one-way');
+      const separatorIndex = Math.max(remotePath.lastIndexOf('/'), remotePath.indexOf(':'));
+      checkRoot = remotePath.slice(0, separatorIndex + 1);
+      manifest = manifest.map((entry) => ({
+        ...entry,
+        relativePath: remotePath.slice(separatorIndex + 1),
+      }));
+    }
 
-      if (stderr && stderr.trim() !== '') {
-        this.logger.warn(
-          `Rclone check '${localPath}' vs '${remotePath}' 有输出到 stderr: ${stderr}`
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'qbcs-verify-'));
+    try {
+      const sumFilePath = path.join(tempDir, 'SHA256SUMS');
+      await fs.writeFile(sumFilePath, formatSha256SumFile(manifest), 'utf-8');
+      const result = await this.rcloneRunner.run(
+        ['checksum', 'sha256', '--verbose', ...extraFlags, sumFilePath, checkRoot],
+        { timeoutMs: this.rcloneConfig.verifyTimeoutMs, signal: options.signal }
+      );
+      if (!result.success) {
+        const errorMessage = describeRcloneFailure(result);
+        const { retryable, reason } = classifyRcloneFailure(result, 'check');
+        this.logger.error(
+          `Rclone checksum 失败: '${remotePath}' 与 SHA-256 清单不一致或发生错误 (${retryable ? '可重试' : '不可重试'}: ${reason})。${errorMessage}`
         );
+        return {
+          verified: false,
+          method,
+          message: `验证失败 (${reason})，${errorMessage}`,
+          exitCode: result.exitCode,
+          retryable,
+          stdout: result.stdout,
+          stderr: result.stderr,
+        };
       }
-
       this.logger.info(
-        `Rclone check 成功: '${localPath}' 与 '${remotePath}' 一致。Stdout (部分): ${stdout.slice(0, 300)}...`
-      );
-      return { verified: true, message: '本地与远程同步一致。', stdout, stderr };
-    } catch (error: unknown) {
-      // 使用 unknown 类型
-      const execError = error as ExecError; // 断言为我们定义的 ExecError
-      const errorMessage = execError.stderr || execError.message || '未知 rclone check 错误';
-      this.logger.error(
-        `Rclone check 失败: '${localPath}' 与 '${remotePath}' 不一致或发生错误。退出码: ${execError.code || 'N/A'}. Stderr: ${execError.stderr || 'N/A'}. Stdout: ${execError.stdout || 'N/A'}`,
-        execError
+        `Rclone checksum 成功: '${remotePath}' 与 ${manifest.length} 个文件的 SHA-256 清单一致。`
       );
       return {
-        verified: false,
-        message: `验证失败，退出码 ${execError.code || 'N/A'}: ${errorMessage}`,
-        stdout: execError.stdout,
-        stderr: execError.stderr,
+        verified: true,
+        method,
+        message: `远程与 SHA-256 清单一致 (${manifest.length} 个文件)。`,
+        exitCode: result.exitCode,
+        stdout: result.stdout,
+        stderr: result.stderr,
       };
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true });
     }
   }
 }
@@ -0,0 +1,64 @@
+// src/core/verification-modes.ts
+import { VerificationMode } from '../interfaces/config.types';
+
+// 可选的验证方式:
+// - check: rclone check 默认行为 (两端有共同哈希时比较哈希，否则悄悄退化为只比较大小)
+// - size-only: 只比较大小 (最快)
+// - hash: 必须比较哈希，远程不支持与本地共同的哈希算法时判定为失败
+// - download: 下载远程文件逐字节比较 (最可靠，也最慢)
+// - one-way: 只检查本地文件是否都存在于远程且一致，不检查远程多出的文件
+// - manifest: 用本地文件的 SHA-256 清单通过 rclone checksum 校验远程
+export const VERIFICATION_MODES: readonly VerificationMode[] = [
+  'check',
+  'size-only',
+  'hash',
+  'download',
+  'one-way',
+  'manifest',
+];
+
+export function isVerificationMode(value: unknown): value is VerificationMode {
+  return typeof value === 'string' && (VERIFICATION_MODES as string[]).includes(value);
+}
+
+// 各方式对应的 rclone check 参数 (manifest 使用 rclone checksum，不在此列)
+export const CHECK_MODE_FLAGS: Record<Exclude<VerificationMode, 'manifest'>, string[]> = {
+  check: [],
+  'size-only': ['--size-only'],
+  hash: [],
+  download: ['--download'],
+  'one-way': ['--one-way'],
+};
+
+export interface CheckHashUsage {
+  hashType: string | null; // rclone 实际用于比较的哈希算法 (如 md5)
+  fallbackToSize: boolean; // 两端没有共同的哈希算法，只比较了大小
+}
+
+/**
+ * 从 rclone check 的输出 (整段或单行) 中判断实际使用的比较方式。
+ * "using X for hash comparisons" 只在 DEBUG 级别输出，因此 check 需要以 -vv 运行。
+ */
+export function detectCheckHashUsage(stderr: string): CheckHashUsage {
+  const fallbackToSize = /no common hash found/i.test(stderr);
+  const hashMatch = stderr.match(/using (\w+) for hash comparisons/i);
+  return { hashType: hashMatch ? hashMatch[1].toLowerCase() : null, fallbackToSize };
+}
+
+/**
+ * 描述一次 rclone check 实际执行的验证方式，记录在任务中以便了解删除本地文件前的保证强度。
+ * 如 "hash (md5)"、"size-only"、"download"、"one-way, size-only"。
+ */
+export function describeCheckMethod(
+  mode: Exclude<VerificationMode, 'manifest'>,
+  usage: CheckHashUsage
+): string {
+  if (mode === 'size-only') return 'size-only';
+  if (mode === 'download') return 'download';
+  const comparison = usage.fallbackToSize
+    ? 'size-only'
+    : usage.hashType
+      ? `hash (${usage.hashType})`
+      : 'hash';
+  return mode === 'one-way' ? `one-way, ${comparison}` : comparison;
+}
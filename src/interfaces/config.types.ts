@@ -1,15 +1,41 @@
 // src/interfaces/config.types.ts
 
 export interface IQBittorrentConfig {
+  name: string; // 实例名称，记录在任务中以区分来自不同 qB 实例的种子
   url: string;
   username?: string; // 用户名和密码可以是可选的，如果qB不需要认证
   password?: string;
 }
 
+// 一个上传目标: rclone 远程名称 + 基础路径。归档规则按名称选择一个或多个目标
+export interface IRcloneDestinationConfig {
+  name: string;
+  remoteName: string; // rclone.conf 中的远程名称，如 "gdrive" 或 "crypt"
+  uploadPath: string; // 该远程上的基础路径
+  required: boolean; // 删除本地文件前是否必须验证通过；非必需目标上传或验证失败不会阻止后续步骤
+  always: boolean; // 无论匹配哪条规则，所有任务都额外上传到该目标 (如备份盘)
+}
+
+// 上传后的验证方式，说明见 src/core/verification-modes.ts
+export type VerificationMode = 'check' | 'size-only' | 'hash' | 'download' | 'one-way' | 'manifest';
+
+// 上传带宽时间表中的一项: 从该时刻起生效，直到下一项
+export interface IBandwidthScheduleEntry {
+  day?: number; // 0-6 (周日为 0)，为空表示每天
+  minuteOfDay: number; // 0-1439
+  bytesPerSecond: number | null; // null 表示不限速
+}
+
 export interface IRcloneConfig {
   configPath?: string; // 如果 rclone.conf 在默认位置，这个可以不填
-  remoteName: string;
-  defaultUploadPath: string;
+  destinations: IRcloneDestinationConfig[]; // 至少一个，第一个为默认目标
+  pathSanitizeMode: 'none' | 'default' | 'windows'; // 远程路径非法字符的清理方式，取决于网盘后端
+  verifyMode: VerificationMode; // 默认验证方式，归档规则可单独指定
+  verifyTimeoutMs: number; // 单次验证 (rclone check / checksum) 的超时时间
+  bandwidthSchedule: IBandwidthScheduleEntry[]; // 所有并发上传合计的带宽限制，为空表示不限速
+  bandwidthStateDir: string; // 正在运行的上传的登记目录，同一目录下的所有进程共享带宽限制
+  uploadTimeoutMs: number; // 单次上传的超时时间，0 表示按上传大小与限速自动计算
+  uploadMinBytesPerSecond: number; // 自动计算超时时假设的单个上传最低速率
 }
 
 export interface IMailerConfig {
@@ -26,23 +52,108 @@ export interface IBehaviorConfig {
   deleteLocalFiles: boolean;
   cleanupEmptyDirs: boolean;
   deleteQbTask: boolean;
+  buildManifest: boolean; // 上传前计算每个文件的大小和 SHA-256 并保存到数据库
+  uploadManifest: boolean; // 同时把清单 (.qbcs-manifest.json) 上传到每个目标的内容旁边
+}
+
+export interface IRetryPolicy {
+  maxUploadAttempts: number;
+  maxVerificationAttempts: number;
+  maxDeleteAttempts: number; // 删除本地文件和删除 qB 任务两个阶段各自的上限
+  backoffBaseMs: number; // 第一次失败后的等待时间
+  backoffMaxMs: number; // 等待时间上限
+  backoffMultiplier: number; // 每次失败后等待时间的倍数
+  backoffJitter: number; // 随机抖动比例 (0-1)，如 0.2 表示 ±20%
 }
 
 export interface ITaskProcessorConfig {
   pollIntervalMs: number;
   maxConcurrentUploads: number;
+  maxConcurrentVerifications: number;
+  maxConcurrentCleanups: number; // 同时删除本地文件 / qB 任务的任务数
+  leaseTimeoutMs: number; // 任务停留在中间状态 (UPLOADING 等) 超过此时长即视为已中断
+  shutdownTimeoutMs: number; // 停止时等待正在处理的任务结束的最长时间
+  retryPolicy: IRetryPolicy;
+  eventRetentionDays: number; // 任务状态变更记录的保留天数，0 表示永久保留
+}
+
+// 种子处理资格 (何时可以开始上传归档) 的类型定义
+export interface IEligibilityCriteria {
+  states?: string[]; // 允许处理的 qB 状态 (不区分大小写)，为空表示不限制
+  minRatio?: number; // 最小分享率
+  minSeedingTimeSec?: number; // 最小做种时间 (秒)，对应 qB 的 seeding_time
+  minActiveTimeSec?: number; // 最小活动时间 (秒)，对应 qB 的 time_active
+  forceAfterDays?: number; // 下载完成超过 N 天后无视以上条件强制处理
+}
+
+export interface IEligibilityOverride extends IEligibilityCriteria {
+  category?: string; // 按分类匹配
+  tag?: string; // 按标签匹配
+  description?: string;
+}
+
+export interface IEligibilityPolicy extends IEligibilityCriteria {
+  overrides: IEligibilityOverride[]; // 按顺序匹配，第一条命中的覆盖规则生效
+}
+
+// 一个 qB 实例: 连接信息，以及该实例使用的处理资格策略与归档规则 (未单独配置时继承全局设置)
+export interface IQBittorrentInstanceConfig extends IQBittorrentConfig {
+  eligibility: IEligibilityPolicy;
+  archivingRules: IArchivingRule[];
+}
+
+// 远程巡检: 定期重新检查已完成任务的远程内容是否仍然存在且一致
+export interface IRemoteAuditConfig {
+  enabled: boolean;
+  intervalMs: number; // 两次巡检之间的间隔
+  batchSize: number; // 每次巡检最多检查的任务数 (逐个检查，用于限制对网盘的请求量)
+  minIntervalDays: number; // 同一任务两次确认之间的最短间隔天数
+}
+
+// 独立的 Prometheus 指标监听 (不需要启用控制 API)
+export interface IMetricsConfig {
+  enabled: boolean;
+  host: string;
+  port: number;
+}
+
+export interface IControlApiConfig {
+  enabled: boolean;
+  host: string; // 默认只监听 127.0.0.1
+  port: number;
+  token?: string; // Bearer Token，启用时必须设置
 }
 
 // 智能归档规则的类型定义
 export interface IArchivingRuleCondition {
+  // --- 旧版扁平条件: 以下三项之间为 "或" 关系 (保持向后兼容) ---
   category?: string;
   tags?: string[] | string; // 可以是单个标签或标签数组
   name_matches?: string; // 正则表达式字符串
-  // 可以添加更多条件，如 minSize, maxAge等
+
+  // --- 组合条件 ---
+  all?: IArchivingRuleCondition[]; // 全部满足
+  any?: IArchivingRuleCondition[]; // 任一满足
+  not?: IArchivingRuleCondition; // 取反
+
+  // --- 其他匹配项: 与上面的旧版条件组及彼此之间均为 "且" 关系 ---
+  minSize?: number; // 种子大小下限 (Bytes)
+  maxSize?: number; // 种子大小上限 (Bytes)
+  tracker?: string[] | string; // tracker 域名 (含子域名匹配)
+  save_path_matches?: string; // 对 qB save_path 的正则表达式
+  minAddedAgeDays?: number; // 添加到 qB 至今的天数下限
+  maxAddedAgeDays?: number;
+  minCompletedAgeDays?: number; // 下载完成至今的天数下限
+  maxCompletedAgeDays?: number;
+  minRatio?: number;
+  maxRatio?: number;
+  file_extensions?: string[] | string; // 种子内任一文件的扩展名匹配 (如 "mkv" 或 ".iso")
 }
 
 export interface IArchivingRuleAction {
   remotePath: string; // 支持占位符如 {torrentName}, {category}, {year} 等
+  remotes?: string[] | string; // 上传目标名称，未设置时使用默认目标 (always 目标总是会额外加入)
+  verify?: VerificationMode; // 验证方式，未设置时使用 RCLONE_VERIFY_MODE
   // 可以添加其他动作，如 setTagsOnRemote 等
 }
 
@@ -55,11 +166,16 @@ export interface IArchivingRule {
 export interface IAppConfig {
   nodeEnv: 'development' | 'production' | 'test';
   logLevel: 'error' | 'warn' | 'info' | 'verbose' | 'debug' | 'silly';
-  qbittorrent: IQBittorrentConfig;
+  dryRun: boolean; // 试运行: 只评估并记录处理计划，不上传、不删除、不修改 qB
+  qbittorrentInstances: IQBittorrentInstanceConfig[]; // 至少一个，第一个为默认实例
   rclone: IRcloneConfig;
   mailer: IMailerConfig;
   behavior: IBehaviorConfig;
   taskProcessor: ITaskProcessorConfig;
-  archivingRules: IArchivingRule[];
+  eligibility: IEligibilityPolicy; // 全局处理资格策略 (各实例的默认值)
+  archivingRules: IArchivingRule[]; // 全局归档规则 (各实例的默认值)
+  remoteAudit: IRemoteAuditConfig;
+  controlApi: IControlApiConfig;
+  metrics: IMetricsConfig;
   databaseUrl: string;
 }
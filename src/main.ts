@@ -1,8 +1,11 @@
 // src/main.ts
 import config from './services/config.service';
-import logger, { createLogger } from './services/logger.service';
-import prisma from './services/db.service';
+import { createLogger } from './services/logger.service';
+import prisma, { disconnect } from './services/db.service';
 import { TaskProcessorService } from './core/task-processor.service'; // <--- 导入服务
+import { ControlApiService } from './core/control-api.service';
+import { MetricsServerService } from './core/metrics-server.service';
+import { formatBwlimitTimetable } from './core/bandwidth-schedule';
 
 const appLogger = createLogger('Application');
 
@@ -12,12 +15,40 @@ async function initializeApp() {
   appLogger.info('Initializing qb-cloud-sync...');
   appLogger.info(`Environment: ${config.nodeEnv}`);
   appLogger.info(`Log Level: ${config.logLevel}`);
+  if (config.dryRun) {
+    appLogger.warn('DRY RUN mode: nothing will be uploaded, deleted or changed in qBittorrent.');
+  }
 
   appLogger.info('Key Configurations:');
-  appLogger.info(`  qBittorrent URL: ${config.qbittorrent.url}`);
-  appLogger.info(`  Rclone Remote: ${config.rclone.remoteName}`);
+  for (const instance of config.qbittorrentInstances) {
+    appLogger.info(
+      `  qBittorrent [${instance.name}]: ${instance.url} (${instance.archivingRules.length} archiving rules)`
+    );
+  }
+  for (const destination of config.rclone.destinations) {
+    const flags = [destination.required ? 'required' : 'optional'];
+    if (destination.always) flags.push('always');
+    appLogger.info(
+      `  Rclone Destination [${destination.name}]: ${destination.remoteName}:${destination.uploadPath} (${flags.join(', ')})`
+    );
+  }
+  const { bandwidthSchedule } = config.rclone;
+  appLogger.info(
+    bandwidthSchedule.length > 0
+      ? `  Upload Bandwidth: ${formatBwlimitTimetable(bandwidthSchedule)} (shared by running uploads via ${config.rclone.bandwidthStateDir})`
+      : '  Upload Bandwidth: unlimited'
+  );
   appLogger.info(`  Poll Interval: ${config.taskProcessor.pollIntervalMs / 1000} seconds`);
   appLogger.info(`  Delete Local Files: ${config.behavior.deleteLocalFiles}`);
+  appLogger.info(
+    `  Mail Notifications: ${config.mailer.host && config.mailer.to?.length ? 'enabled' : 'disabled'}`
+  );
+  appLogger.info(
+    `  Control API: ${config.controlApi.enabled ? `http://${config.controlApi.host}:${config.controlApi.port}` : 'disabled'}`
+  );
+  appLogger.info(
+    `  Metrics: ${config.metrics.enabled ? `http://${config.metrics.host}:${config.metrics.port}/metrics` : 'disabled'}`
+  );
 
   if (config.archivingRules.length > 0) {
     appLogger.info(`Loaded ${config.archivingRules.length} archiving rules.`);
@@ -41,6 +72,8 @@ async function initializeApp() {
 }
 
 let taskProcessor: TaskProcessorService | null = null; // <--- 声明变量
+let controlApi: ControlApiService | null = null;
+let metricsServer: MetricsServerService | null = null;
 
 async function startApp() {
   // 创建 TaskProcessorService 实例
@@ -57,6 +90,25 @@ async function startApp() {
   // 启动任务处理器
   await taskProcessor.start(); // <--- 启动服务
 
+  if (config.controlApi.enabled) {
+    controlApi = new ControlApiService(
+      config.controlApi,
+      prisma,
+      taskProcessor,
+      createLogger('ControlApiService')
+    );
+    await controlApi.start();
+  }
+
+  if (config.metrics.enabled) {
+    metricsServer = new MetricsServerService(
+      config.metrics,
+      prisma,
+      createLogger('MetricsServerService')
+    );
+    await metricsServer.start();
+  }
+
   appLogger.info('qb-cloud-sync application started and running.');
   appLogger.info('Press Ctrl+C to exit.');
 
@@ -71,60 +123,31 @@ async function main() {
   } catch (error) {
     appLogger.error('Unhandled error during application startup or main execution:', error);
     if (taskProcessor) {
-      taskProcessor.stop(); // 尝试停止任务处理器
+      await taskProcessor.stop(); // 尝试停止任务处理器
     }
-    // Prisma Client 会在 db.service.ts 中的 gracefulShutdown 中断开连接
+    await disconnect().catch(() => undefined);
     process.exit(1);
   }
 }
 
-// 修改优雅退出处理，确保 taskProcessor 也能停止
-async function gracefulShutdown(signal: string) {
-  appLogger.info(`Received ${signal}. Shutting down gracefully...`);
-  if (taskProcessor) {
-    appLogger.info('Stopping Task Processor...');
-    taskProcessor.stop(); // 停止轮询
-  }
-  // Prisma Client 的 $disconnect 会在 db.service.ts 中被调用
-  // 等待 Prisma 断开可能需要一点时间，或者让 process.on('SIGINT') 在 db.service.ts 中处理完 Prisma 后再 exit
-  // 为了简单，我们依赖 db.service.ts 中的 process.exit(0)
-  // 如果需要更复杂的协调，可以使用事件或回调
-}
-
-// 移除 db.service.ts 中的 process.on 监听，统一在 main.ts 管理，或者确保它们不冲突
-// 如果 db.service.ts 处理了 prisma.$disconnect() 和 process.exit()，这里就不需要再次 process.exit()
-// 但为了确保 taskProcessor.stop() 被调用，我们在这里监听。
-// 让我们假设 db.service.ts 中的 gracefulShutdown 只负责 prisma.$disconnect() 而不退出。
-// 那么 main.ts 的监听器就需要负责 process.exit()。
-
-// 在 db.service.ts 中，将 process.on(...) 里的 process.exit(0) 移除或注释掉。
-// 然后在这里处理退出：
-// (如果 db.service.ts 的 process.on 监听器也被触发，可能会有竞争或重复日志)
-// 一个更好的方式是在 db.service.ts 的 gracefulShutdown 中返回一个 Promise
-// 然后在这里 await prisma.disconnectPromiseFromDbService(); process.exit(0);
-
-// 为了简单起见，暂时假设 db.service.ts 的 gracefulShutdown 会处理 Prisma 断开。
-// 我们在这里只负责停止 TaskProcessor。
-// process.on('SIGINT', () => gracefulShutdown('SIGINT')); // 保持在 db.service.ts 中
-// process.on('SIGTERM', () => gracefulShutdown('SIGTERM')); // 保持在 db.service.ts 中
-// 但为了确保 TaskProcessorService 被停止，我们需要一个地方来调用它的 stop()。
-// 可以在 db.service.ts 的 gracefulShutdown 之前触发一个事件，或者直接在这里修改。
-
-// --- 推荐的优雅退出处理 (整合) ---
-// 1. 在 db.service.ts 中:
-//    - 移除 process.on('SIGINT'/'SIGTERM') 监听器。
-//    - 导出一个 async function disconnectPrisma() { await prisma.$disconnect(); }
-// 2. 在 main.ts 中:
+// 收到退出信号时按顺序停止: 先等待任务处理器中的任务结束，再关闭 HTTP 服务，最后断开数据库
 async function shutdownHandler(signal: string) {
   appLogger.info(`Received ${signal}. Shutting down gracefully...`);
   if (taskProcessor) {
     appLogger.info('Stopping Task Processor...');
-    taskProcessor.stop();
+    await taskProcessor.stop(); // 等待正在处理的任务结束后再断开数据库
+  }
+  if (controlApi) {
+    appLogger.info('Stopping Control API...');
+    await controlApi.stop();
+  }
+  if (metricsServer) {
+    appLogger.info('Stopping Metrics Server...');
+    await metricsServer.stop();
   }
   try {
     appLogger.info('Disconnecting Prisma Client...');
-    await prisma.$disconnect(); // 直接在这里调用
-    appLogger.info('Prisma Client disconnected.');
+    await disconnect();
   } catch (e) {
     appLogger.error('Error disconnecting Prisma Client:', e);
   }
@@ -134,6 +157,5 @@ async function shutdownHandler(signal: string) {
 
 process.on('SIGINT', () => shutdownHandler('SIGINT'));
 process.on('SIGTERM', () => shutdownHandler('SIGTERM'));
-// --- 结束推荐的优雅退出处理 ---
 
 main();
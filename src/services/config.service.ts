@@ -1,8 +1,23 @@
 // src/services/config.service.ts
 import dotenv from 'dotenv';
 import fs from 'node:fs';
+import os from 'node:os';
 import path from 'node:path';
-import { IAppConfig, IArchivingRule } from '../interfaces/config.types';
+import {
+  IAppConfig,
+  IArchivingRule,
+  IEligibilityOverride,
+  IEligibilityPolicy,
+  IQBittorrentInstanceConfig,
+  IRcloneConfig,
+  IRcloneDestinationConfig,
+} from '../interfaces/config.types';
+import {
+  formatRuleValidationIssue,
+  validateArchivingRules,
+} from '../core/archiving-rules-validator';
+import { VERIFICATION_MODES, isVerificationMode } from '../core/verification-modes';
+import { parseBandwidthRate, parseBandwidthSchedule } from '../core/bandwidth-schedule';
 
 // 加载 .env 文件。应该在模块的最顶部执行，以便 process.env 尽早被填充。
 // dotenv.config(); // 基本加载
@@ -10,6 +25,9 @@ import { IAppConfig, IArchivingRule } from '../interfaces/config.types';
 const envPath = process.env.NODE_ENV === 'test' ? '.env.test' : '.env';
 dotenv.config({ path: path.resolve(process.cwd(), envPath) });
 
+// 加载配置时产生的警告。日志服务依赖配置，因此先暂存，由 logger.service 创建日志器后输出
+export const configWarnings: string[] = [];
+
 function parseBoolean(value: string | undefined, defaultValue: boolean): boolean {
   if (value === undefined) return defaultValue;
   return value.toLowerCase() === 'true';
@@ -31,6 +49,64 @@ function parseIntOrThrow(
   return parsed;
 }
 
+function parseOptionalNumber(value: string | undefined, keyName: string): number | undefined {
+  if (value === undefined || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  if (isNaN(parsed)) {
+    throw new Error(`Invalid number for environment variable ${keyName}: ${value}`);
+  }
+  return parsed;
+}
+
+function parseList(value: string | undefined, defaultValue: string[]): string[] {
+  if (value === undefined) return defaultValue;
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item !== '');
+}
+
+function parsePathSanitizeMode(value: string | undefined): IRcloneConfig['pathSanitizeMode'] {
+  const mode = (value || 'default').trim().toLowerCase();
+  if (mode !== 'none' && mode !== 'default' && mode !== 'windows') {
+    throw new Error(
+      `Invalid value for RCLONE_PATH_SANITIZE: "${value}". Expected none, default or windows.`
+    );
+  }
+  return mode;
+}
+
+function parseVerificationMode(value: string | undefined): IRcloneConfig['verifyMode'] {
+  const mode = (value || 'check').trim().toLowerCase();
+  if (!isVerificationMode(mode)) {
+    throw new Error(
+      `Invalid value for RCLONE_VERIFY_MODE: "${value}". Expected one of: ${VERIFICATION_MODES.join(', ')}.`
+    );
+  }
+  return mode;
+}
+
+function parseBandwidthScheduleEnv(value: string | undefined): IRcloneConfig['bandwidthSchedule'] {
+  try {
+    return parseBandwidthSchedule(value || '');
+  } catch (error) {
+    throw new Error(`Invalid value for UPLOAD_BANDWIDTH_SCHEDULE: ${(error as Error).message}`);
+  }
+}
+
+function parseUploadMinSpeed(value: string | undefined): number {
+  let bytesPerSecond: number | null;
+  try {
+    bytesPerSecond = parseBandwidthRate(value || '1M');
+  } catch (error) {
+    throw new Error(`Invalid value for RCLONE_UPLOAD_MIN_SPEED: ${(error as Error).message}`);
+  }
+  if (bytesPerSecond === null) {
+    throw new Error('RCLONE_UPLOAD_MIN_SPEED must be a positive rate such as 512K or 1M.');
+  }
+  return bytesPerSecond;
+}
+
 function getStringOrThrow(
   value: string | undefined,
   keyName: string,
@@ -43,44 +119,242 @@ function getStringOrThrow(
   return value;
 }
 
-function loadArchivingRules(): IArchivingRule[] {
-  const rulesJsonString = process.env.ARCHIVING_RULES_JSON;
-  const rulesPath = process.env.ARCHIVING_RULES_PATH;
+/**
+ * 加载上传目标列表。RCLONE_REMOTE_NAME 和 RCLONE_DEFAULT_UPLOAD_PATH 为默认目标
+ * (名称为 RCLONE_DESTINATION_NAME，默认 "default")；RCLONE_DESTINATIONS 中列出的每个额外目标
+ * 使用 RCLONE_DEST_<NAME>_ 前缀的环境变量。
+ */
+function loadRcloneDestinations(): IRcloneDestinationConfig[] {
+  const destinations: IRcloneDestinationConfig[] = [
+    {
+      name: getStringOrThrow(
+        process.env.RCLONE_DESTINATION_NAME || undefined,
+        'RCLONE_DESTINATION_NAME',
+        'default'
+      ),
+      remoteName: getStringOrThrow(process.env.RCLONE_REMOTE_NAME, 'RCLONE_REMOTE_NAME'),
+      uploadPath: getStringOrThrow(
+        process.env.RCLONE_DEFAULT_UPLOAD_PATH,
+        'RCLONE_DEFAULT_UPLOAD_PATH',
+        '/'
+      ),
+      required: true,
+      always: false,
+    },
+  ];
+  for (const name of parseList(process.env.RCLONE_DESTINATIONS, [])) {
+    if (destinations.some((destination) => destination.name === name)) {
+      throw new Error(`Duplicate rclone destination name: "${name}".`);
+    }
+    const envPrefix = `RCLONE_DEST_${name.toUpperCase().replace(/-/g, '_')}_`;
+    destinations.push({
+      name,
+      remoteName: getStringOrThrow(process.env[`${envPrefix}REMOTE`], `${envPrefix}REMOTE`),
+      uploadPath: getStringOrThrow(
+        process.env[`${envPrefix}UPLOAD_PATH`],
+        `${envPrefix}UPLOAD_PATH`,
+        '/'
+      ),
+      required: parseBoolean(process.env[`${envPrefix}REQUIRED`], true),
+      always: parseBoolean(process.env[`${envPrefix}ALWAYS`], false),
+    });
+  }
+  for (const { name, remoteName } of destinations) {
+    if (!/^[A-Za-z0-9_-]+$/.test(name)) {
+      throw new Error(
+        `Invalid rclone destination name: "${name}". Use letters, digits, "_" or "-".`
+      );
+    }
+    if (!remoteName) {
+      throw new Error(
+        `Remote name of rclone destination "${name}" is not defined in your .env file.`
+      );
+    }
+  }
+  return destinations;
+}
 
+/**
+ * 加载并严格校验归档规则。
+ * 规则有误 (JSON 解析失败、未知字段、无效正则、未知占位符等) 时抛出错误以中止启动；
+ * 若设置了 ARCHIVING_RULES_LENIENT=true，则只打印警告并丢弃有问题的规则。
+ * @param envPrefix 环境变量前缀，用于加载某个 qB 实例单独的规则 (如 "QB_PRIVATE_")。
+ * @returns 未配置规则时返回 undefined。
+ */
+function loadArchivingRules(envPrefix: string = ''): IArchivingRule[] | undefined {
+  const rulesJsonString = process.env[`${envPrefix}ARCHIVING_RULES_JSON`];
+  const rulesPath = process.env[`${envPrefix}ARCHIVING_RULES_PATH`];
+  const lenient = parseBoolean(process.env.ARCHIVING_RULES_LENIENT, false);
+  const source = rulesJsonString ? `${envPrefix}ARCHIVING_RULES_JSON` : rulesPath;
+
+  let content: string;
   if (rulesJsonString) {
-    try {
-      const rules = JSON.parse(rulesJsonString);
-      if (!Array.isArray(rules)) {
-        throw new Error('ARCHIVING_RULES_JSON must be a JSON array.');
+    content = rulesJsonString;
+  } else if (rulesPath) {
+    const fullPath = path.resolve(process.cwd(), rulesPath);
+    if (!fs.existsSync(fullPath)) {
+      const message = `Archiving rules file not found at: ${fullPath} (${envPrefix}ARCHIVING_RULES_PATH)`;
+      if (!lenient) {
+        throw new Error(
+          `${message}. Fix the path or set ARCHIVING_RULES_LENIENT=true to start anyway.`
+        );
       }
-      // TODO: Add more detailed validation for each rule's structure
-      return rules as IArchivingRule[];
-    } catch (error) {
-      console.error('Failed to parse ARCHIVING_RULES_JSON:', error);
-      return []; // 或者抛出错误
+      configWarnings.push(`${message}. ARCHIVING_RULES_LENIENT is set, using empty rules.`);
+      return [];
     }
-  } else if (rulesPath) {
-    try {
-      const fullPath = path.resolve(process.cwd(), rulesPath);
+    content = fs.readFileSync(fullPath, 'utf-8');
+  } else {
+    return undefined;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    const message = `Failed to parse archiving rules from ${source}: ${error instanceof Error ? error.message : String(error)}`;
+    if (!lenient) {
+      throw new Error(`${message} (set ARCHIVING_RULES_LENIENT=true to start anyway)`);
+    }
+    configWarnings.push(`${message}. ARCHIVING_RULES_LENIENT is set, using empty rules.`);
+    return [];
+  }
+
+  const { rules, issues } = validateArchivingRules(
+    parsed,
+    rcloneDestinations.map((destination) => destination.name)
+  );
+  if (issues.length > 0) {
+    const details = issues.map((issue) => `  - ${formatRuleValidationIssue(issue)}`).join('\n');
+    if (!lenient) {
+      throw new Error(
+        `Invalid archiving rules in ${source} (${issues.length} problem(s)):\n${details}\n` +
+          'Fix the rules or set ARCHIVING_RULES_LENIENT=true to skip invalid rules.'
+      );
+    }
+    configWarnings.push(
+      `Invalid archiving rules in ${source}, ${issues.length} problem(s) found. ARCHIVING_RULES_LENIENT is set, invalid rules are skipped:\n${details}`
+    );
+  }
+  return rules;
+}
+
+function loadEligibilityOverrides(envPrefix: string = ''): IEligibilityOverride[] | undefined {
+  const overridesJsonString = process.env[`${envPrefix}ELIGIBILITY_OVERRIDES_JSON`];
+  const overridesPath = process.env[`${envPrefix}ELIGIBILITY_OVERRIDES_PATH`];
+  const source = overridesJsonString ? `${envPrefix}ELIGIBILITY_OVERRIDES_JSON` : overridesPath;
+  const lenient = parseBoolean(process.env.ARCHIVING_RULES_LENIENT, false);
+
+  try {
+    let content: string;
+    if (overridesJsonString) {
+      content = overridesJsonString;
+    } else if (overridesPath) {
+      const fullPath = path.resolve(process.cwd(), overridesPath);
       if (!fs.existsSync(fullPath)) {
-        console.warn(`Archiving rules file not found at: ${fullPath}. Using empty rules.`);
+        const message = `Eligibility overrides file not found at: ${fullPath} (${envPrefix}ELIGIBILITY_OVERRIDES_PATH)`;
+        if (!lenient) {
+          throw new Error(
+            `${message}. Fix the path or set ARCHIVING_RULES_LENIENT=true to start anyway.`
+          );
+        }
+        configWarnings.push(`${message}. ARCHIVING_RULES_LENIENT is set, using no overrides.`);
         return [];
       }
-      const fileContent = fs.readFileSync(fullPath, 'utf-8');
-      const rules = JSON.parse(fileContent);
-      if (!Array.isArray(rules)) {
-        throw new Error(`Archiving rules file ${rulesPath} must contain a JSON array.`);
+      content = fs.readFileSync(fullPath, 'utf-8');
+    } else {
+      return undefined;
+    }
+    const overrides = JSON.parse(content);
+    if (!Array.isArray(overrides)) {
+      throw new Error(`${source} must contain a JSON array.`);
+    }
+    overrides.forEach((override: IEligibilityOverride, index: number) => {
+      if (!override.category && !override.tag) {
+        throw new Error(`Eligibility override #${index} must specify "category" or "tag".`);
       }
-      // TODO: Add more detailed validation for each rule's structure
-      return rules as IArchivingRule[];
-    } catch (error) {
-      console.error(`Failed to load or parse archiving rules from ${rulesPath}:`, error);
-      return []; // 或者抛出错误
+    });
+    return overrides as IEligibilityOverride[];
+  } catch (error) {
+    throw new Error(
+      `Failed to load eligibility overrides from ${source}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * 加载处理资格策略。envPrefix 非空时 (某个 qB 实例)，未设置的项继承 base 中的全局设置。
+ */
+function loadEligibilityPolicy(envPrefix: string, base?: IEligibilityPolicy): IEligibilityPolicy {
+  const key = (name: string) => `${envPrefix}${name}`;
+  const statesValue = process.env[key('ELIGIBLE_STATES')];
+  return {
+    states:
+      statesValue !== undefined || !base
+        ? parseList(statesValue, ['pausedUP', 'stoppedUP', 'completed'])
+        : base.states,
+    minRatio:
+      parseOptionalNumber(process.env[key('MIN_RATIO')], key('MIN_RATIO')) ?? base?.minRatio,
+    minSeedingTimeSec:
+      parseOptionalNumber(process.env[key('MIN_SEEDING_TIME_SEC')], key('MIN_SEEDING_TIME_SEC')) ??
+      base?.minSeedingTimeSec,
+    minActiveTimeSec:
+      parseOptionalNumber(process.env[key('MIN_ACTIVE_TIME_SEC')], key('MIN_ACTIVE_TIME_SEC')) ??
+      base?.minActiveTimeSec,
+    forceAfterDays:
+      parseOptionalNumber(process.env[key('FORCE_AFTER_DAYS')], key('FORCE_AFTER_DAYS')) ??
+      base?.forceAfterDays,
+    overrides: loadEligibilityOverrides(envPrefix) ?? base?.overrides ?? [],
+  };
+}
+
+/**
+ * 加载 qB 实例列表。QB_URL 等为默认实例 (名称为 QB_NAME，默认 "default")；
+ * QB_INSTANCES 中列出的每个额外实例使用 QB_<NAME>_ 前缀的环境变量，
+ * 未单独配置的处理资格与归档规则继承全局设置。
+ */
+function loadQBittorrentInstances(
+  eligibility: IEligibilityPolicy,
+  archivingRules: IArchivingRule[]
+): IQBittorrentInstanceConfig[] {
+  const instances: IQBittorrentInstanceConfig[] = [
+    {
+      name: getStringOrThrow(process.env.QB_NAME || undefined, 'QB_NAME', 'default'),
+      url: getStringOrThrow(process.env.QB_URL, 'QB_URL'),
+      username: process.env.QB_USERNAME,
+      password: process.env.QB_PASSWORD,
+      eligibility,
+      archivingRules,
+    },
+  ];
+  for (const name of parseList(process.env.QB_INSTANCES, [])) {
+    if (instances.some((instance) => instance.name === name)) {
+      throw new Error(`Duplicate qBittorrent instance name: "${name}".`);
+    }
+    const envPrefix = `QB_${name.toUpperCase().replace(/-/g, '_')}_`;
+    instances.push({
+      name,
+      url: getStringOrThrow(process.env[`${envPrefix}URL`], `${envPrefix}URL`),
+      username: process.env[`${envPrefix}USERNAME`],
+      password: process.env[`${envPrefix}PASSWORD`],
+      eligibility: loadEligibilityPolicy(envPrefix, eligibility),
+      archivingRules: loadArchivingRules(envPrefix) ?? archivingRules,
+    });
+  }
+  for (const { name } of instances) {
+    if (!/^[A-Za-z0-9_-]+$/.test(name)) {
+      throw new Error(
+        `Invalid qBittorrent instance name: "${name}". Use letters, digits, "_" or "-".`
+      );
     }
   }
-  return []; // 默认返回空规则数组
+  return instances;
 }
 
+// 目标列表需要先于归档规则加载，以便校验规则中引用的目标名称
+const rcloneDestinations = loadRcloneDestinations();
+const globalEligibility = loadEligibilityPolicy('');
+const globalArchivingRules = loadArchivingRules() ?? [];
+
 const config: IAppConfig = {
   nodeEnv: getStringOrThrow(
     process.env.NODE_ENV,
@@ -89,21 +363,30 @@ const config: IAppConfig = {
   ) as IAppConfig['nodeEnv'],
   logLevel: getStringOrThrow(process.env.LOG_LEVEL, 'LOG_LEVEL', 'info') as IAppConfig['logLevel'],
   databaseUrl: getStringOrThrow(process.env.DATABASE_URL, 'DATABASE_URL'),
+  dryRun: parseBoolean(process.env.DRY_RUN, false),
 
-  qbittorrent: {
-    url: getStringOrThrow(process.env.QB_URL, 'QB_URL'),
-    username: process.env.QB_USERNAME,
-    password: process.env.QB_PASSWORD,
-  },
+  qbittorrentInstances: loadQBittorrentInstances(globalEligibility, globalArchivingRules),
 
   rclone: {
     configPath: process.env.RCLONE_CONFIG_PATH,
-    remoteName: getStringOrThrow(process.env.RCLONE_REMOTE_NAME, 'RCLONE_REMOTE_NAME'),
-    defaultUploadPath: getStringOrThrow(
-      process.env.RCLONE_DEFAULT_UPLOAD_PATH,
-      'RCLONE_DEFAULT_UPLOAD_PATH',
-      '/'
+    destinations: rcloneDestinations,
+    pathSanitizeMode: parsePathSanitizeMode(process.env.RCLONE_PATH_SANITIZE),
+    verifyMode: parseVerificationMode(process.env.RCLONE_VERIFY_MODE),
+    verifyTimeoutMs: parseIntOrThrow(
+      process.env.RCLONE_VERIFY_TIMEOUT_MS,
+      'RCLONE_VERIFY_TIMEOUT_MS',
+      30 * 60 * 1000
     ),
+    bandwidthSchedule: parseBandwidthScheduleEnv(process.env.UPLOAD_BANDWIDTH_SCHEDULE),
+    bandwidthStateDir: path.resolve(
+      process.env.UPLOAD_BANDWIDTH_STATE_DIR || path.join(os.tmpdir(), 'qb-cloud-sync-bandwidth')
+    ),
+    uploadTimeoutMs: parseIntOrThrow(
+      process.env.RCLONE_UPLOAD_TIMEOUT_MS,
+      'RCLONE_UPLOAD_TIMEOUT_MS',
+      0
+    ),
+    uploadMinBytesPerSecond: parseUploadMinSpeed(process.env.RCLONE_UPLOAD_MIN_SPEED),
   },
 
   mailer: {
@@ -122,6 +405,8 @@ const config: IAppConfig = {
     deleteLocalFiles: parseBoolean(process.env.DELETE_LOCAL_FILES, true),
     cleanupEmptyDirs: parseBoolean(process.env.CLEANUP_EMPTY_DIRS, true),
     deleteQbTask: parseBoolean(process.env.DELETE_QB_TASK, true),
+    buildManifest: parseBoolean(process.env.BUILD_CHECKSUM_MANIFEST, false),
+    uploadManifest: parseBoolean(process.env.UPLOAD_CHECKSUM_MANIFEST, false),
   },
 
   taskProcessor: {
@@ -131,17 +416,125 @@ const config: IAppConfig = {
       'MAX_CONCURRENT_UPLOADS',
       2
     ),
+    maxConcurrentVerifications: parseIntOrThrow(
+      process.env.MAX_CONCURRENT_VERIFICATIONS,
+      'MAX_CONCURRENT_VERIFICATIONS',
+      2
+    ),
+    maxConcurrentCleanups: parseIntOrThrow(
+      process.env.MAX_CONCURRENT_CLEANUPS,
+      'MAX_CONCURRENT_CLEANUPS',
+      2
+    ),
+    leaseTimeoutMs: parseIntOrThrow(
+      process.env.TASK_LEASE_TIMEOUT_MS,
+      'TASK_LEASE_TIMEOUT_MS',
+      4 * 60 * 60 * 1000
+    ),
+    shutdownTimeoutMs: parseIntOrThrow(
+      process.env.TASK_SHUTDOWN_TIMEOUT_MS,
+      'TASK_SHUTDOWN_TIMEOUT_MS',
+      60 * 1000
+    ),
+    retryPolicy: {
+      maxUploadAttempts: parseIntOrThrow(process.env.MAX_UPLOAD_ATTEMPTS, 'MAX_UPLOAD_ATTEMPTS', 5),
+      maxVerificationAttempts: parseIntOrThrow(
+        process.env.MAX_VERIFICATION_ATTEMPTS,
+        'MAX_VERIFICATION_ATTEMPTS',
+        3
+      ),
+      maxDeleteAttempts: parseIntOrThrow(process.env.MAX_DELETE_ATTEMPTS, 'MAX_DELETE_ATTEMPTS', 3),
+      backoffBaseMs: parseIntOrThrow(
+        process.env.RETRY_BACKOFF_BASE_MS,
+        'RETRY_BACKOFF_BASE_MS',
+        60 * 1000
+      ),
+      backoffMaxMs: parseIntOrThrow(
+        process.env.RETRY_BACKOFF_MAX_MS,
+        'RETRY_BACKOFF_MAX_MS',
+        6 * 60 * 60 * 1000
+      ),
+      backoffMultiplier:
+        parseOptionalNumber(process.env.RETRY_BACKOFF_MULTIPLIER, 'RETRY_BACKOFF_MULTIPLIER') ?? 2,
+      backoffJitter: Math.min(
+        Math.max(
+          parseOptionalNumber(process.env.RETRY_BACKOFF_JITTER, 'RETRY_BACKOFF_JITTER') ?? 0.2,
+          0
+        ),
+        1
+      ),
+    },
+    eventRetentionDays: parseIntOrThrow(
+      process.env.TASK_EVENT_RETENTION_DAYS,
+      'TASK_EVENT_RETENTION_DAYS',
+      90
+    ),
+  },
+
+  eligibility: globalEligibility,
+
+  archivingRules: globalArchivingRules,
+
+  remoteAudit: {
+    enabled: parseBoolean(process.env.REMOTE_AUDIT_ENABLED, false),
+    intervalMs: parseIntOrThrow(
+      process.env.REMOTE_AUDIT_INTERVAL_MS,
+      'REMOTE_AUDIT_INTERVAL_MS',
+      6 * 60 * 60 * 1000
+    ),
+    batchSize: parseIntOrThrow(process.env.REMOTE_AUDIT_BATCH_SIZE, 'REMOTE_AUDIT_BATCH_SIZE', 5),
+    minIntervalDays: parseIntOrThrow(
+      process.env.REMOTE_AUDIT_MIN_INTERVAL_DAYS,
+      'REMOTE_AUDIT_MIN_INTERVAL_DAYS',
+      30
+    ),
+  },
+
+  controlApi: {
+    enabled: parseBoolean(process.env.CONTROL_API_ENABLED, false),
+    host: getStringOrThrow(
+      process.env.CONTROL_API_HOST || undefined,
+      'CONTROL_API_HOST',
+      '127.0.0.1'
+    ),
+    port: parseIntOrThrow(process.env.CONTROL_API_PORT, 'CONTROL_API_PORT', 8787),
+    token: process.env.CONTROL_API_TOKEN || undefined,
   },
 
-  archivingRules: loadArchivingRules(),
+  metrics: {
+    enabled: parseBoolean(process.env.METRICS_ENABLED, false),
+    host: getStringOrThrow(process.env.METRICS_HOST || undefined, 'METRICS_HOST', '127.0.0.1'),
+    port: parseIntOrThrow(process.env.METRICS_PORT, 'METRICS_PORT', 9464),
+  },
 };
 
 // 校验关键配置
-if (!config.qbittorrent.url) {
-  throw new Error('QB_URL is not defined in your .env file.');
+for (const instance of config.qbittorrentInstances) {
+  if (!instance.url) {
+    throw new Error(
+      `URL of qBittorrent instance "${instance.name}" is not defined in your .env file.`
+    );
+  }
+}
+if (config.controlApi.enabled && !config.controlApi.token) {
+  throw new Error('CONTROL_API_TOKEN must be set when CONTROL_API_ENABLED is true.');
+}
+if (
+  config.metrics.enabled &&
+  config.controlApi.enabled &&
+  config.metrics.port === config.controlApi.port
+) {
+  throw new Error(
+    'METRICS_PORT must differ from CONTROL_API_PORT (the control API already serves /metrics).'
+  );
 }
-if (!config.rclone.remoteName) {
-  throw new Error('RCLONE_REMOTE_NAME is not defined in your .env file.');
+if (
+  config.remoteAudit.enabled &&
+  (config.remoteAudit.intervalMs <= 0 || config.remoteAudit.batchSize <= 0)
+) {
+  throw new Error(
+    'REMOTE_AUDIT_INTERVAL_MS and REMOTE_AUDIT_BATCH_SIZE must be positive when REMOTE_AUDIT_ENABLED is true.'
+  );
 }
 // 可以添加更多针对性的校验，比如邮件配置如果启用了邮件通知等
 
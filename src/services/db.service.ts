@@ -25,16 +25,13 @@ prisma.$on('query', (e) => {
 // prisma.$on('warn', (e) => { dbLogger.warn(e.message); });
 // prisma.$on('error', (e) => { dbLogger.error(e.message); });
 
-// 确保在应用关闭时断开 Prisma Client 连接 (优雅退出)
-async function gracefulShutdown(signal: string) {
-  dbLogger.info(`Received ${signal}. Disconnecting Prisma Client...`);
+/**
+ * 断开 Prisma Client 连接。由入口在停止任务处理器 (等待正在运行的任务结束) 之后调用，
+ * 本模块不注册退出信号处理，避免在任务仍在写数据库时提前断开并退出进程。
+ */
+export async function disconnect(): Promise<void> {
   await prisma.$disconnect();
-  dbLogger.info('Prisma Client disconnected. Exiting.');
-  process.exit(0);
+  dbLogger.info('Prisma Client disconnected.');
 }
 
-// 监听退出信号
-process.on('SIGINT', () => gracefulShutdown('SIGINT')); // Ctrl+C
-process.on('SIGTERM', () => gracefulShutdown('SIGTERM')); // kill 命令
-
 export default prisma;
@@ -2,7 +2,7 @@
 import winston, { Logform } from 'winston';
 import 'winston-daily-rotate-file';
 import path from 'node:path';
-import config from './config.service';
+import config, { configWarnings } from './config.service';
 
 const { combine, timestamp, printf, colorize, errors, splat } = winston.format;
 
@@ -177,4 +177,8 @@ export const createLogger = (moduleName: string): winston.Logger => {
   return logger.child({ module: moduleName });
 };
 
+// 输出加载配置时暂存的警告
+const configLogger = createLogger('Config');
+configWarnings.forEach((message) => configLogger.warn(message));
+
 export default logger;
@@ -0,0 +1,72 @@
+// test/archiving-rules-validator.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  formatRuleValidationIssue,
+  validateArchivingRules,
+  validateRemotePathTemplate,
+} from '../src/core/archiving-rules-validator';
+
+describe('validateArchivingRules', () => {
+  it('接受合法的规则', () => {
+    const rules = [
+      {
+        if: { all: [{ category: 'TV' }, { name_matches: 'S\\d+E\\d+' }], minSize: 1 },
+        then: { remotePath: '{category}/{title}', remotes: ['default'], verify: 'hash' },
+        description: '剧集',
+      },
+      { if: 'default', then: { remotePath: 'Other/{torrentName}' } },
+    ];
+    const result = validateArchivingRules(rules, ['default']);
+    assert.deepEqual(result.issues, []);
+    assert.equal(result.rules.length, 2);
+  });
+
+  it('报告所有问题，并只保留通过校验的规则', () => {
+    const result = validateArchivingRules(
+      [
+        { if: { category: 'TV', bogus: 1 }, then: { remotePath: '{unknown}' } },
+        { if: { name_matches: '(' }, then: { remotePath: 'x', remotes: ['missing'] } },
+        { if: { minSize: 10, maxSize: 1 }, then: { remotePath: 'x', verify: 'nope' } },
+        { if: 'default', then: { remotePath: 'a' } },
+        { if: 'default', then: { remotePath: 'b' } },
+        { if: { category: 'Movies' }, then: { remotePath: 'Movies' } },
+      ],
+      ['default']
+    );
+    const messages = result.issues.map(formatRuleValidationIssue);
+    assert.ok(
+      messages.some((m) => m.startsWith('rule #0') && m.includes('bogus')),
+      messages.join('\n')
+    );
+    assert.ok(messages.some((m) => m.startsWith('rule #0') && m.includes('{unknown}')));
+    assert.ok(messages.some((m) => m.startsWith('rule #1 if.name_matches')));
+    assert.ok(messages.some((m) => m.includes('unknown destination "missing"')));
+    assert.ok(messages.some((m) => m.includes('greater than maxSize')));
+    assert.ok(messages.some((m) => m.includes('unknown verification mode "nope"')));
+    assert.ok(messages.some((m) => m.startsWith('rule #4') && m.includes('more than one default')));
+    assert.deepEqual(
+      result.rules.map((rule) => rule.then.remotePath),
+      ['a', 'Movies']
+    );
+  });
+
+  it('顶层不是数组时报错', () => {
+    const result = validateArchivingRules({ rules: [] });
+    assert.equal(result.issues.length, 1);
+    assert.equal(
+      formatRuleValidationIssue(result.issues[0]),
+      'archiving rules must be a JSON array'
+    );
+  });
+});
+
+describe('validateRemotePathTemplate', () => {
+  it('检查括号、占位符和修饰符', () => {
+    assert.deepEqual(validateRemotePathTemplate('{category|lower}/{hash:8}'), []);
+    assert.deepEqual(validateRemotePathTemplate('{category'), ['unbalanced braces']);
+    const problems = validateRemotePathTemplate('{title|shout}');
+    assert.equal(problems.length, 1);
+    assert.match(problems[0], /unknown modifier "shout"/);
+  });
+});
@@ -0,0 +1,145 @@
+// test/archiving-rules.test.ts
+import { describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  FALLBACK_REMOTE_PATH_TEMPLATE,
+  RuleMatchContext,
+  findMatchingRule,
+  matchCondition,
+  resolveRemotePath,
+} from '../src/core/archiving-rules';
+import { QBittorrentTorrent } from '../src/core/qbittorrent.service';
+import { IArchivingRule, IArchivingRuleCondition } from '../src/interfaces/config.types';
+import { makeTorrent } from './helpers';
+
+const DAY_SEC = 24 * 60 * 60;
+const GIB = 1024 * 1024 * 1024;
+const now = new Date('2024-06-01T00:00:00Z');
+const daysAgo = (days: number) => now.getTime() / 1000 - days * DAY_SEC;
+
+const context = (
+  overrides: Partial<QBittorrentTorrent> = {},
+  fileNames: string[] = ['Example.mkv']
+): RuleMatchContext => ({
+  torrent: makeTorrent(overrides),
+  getFileNames: async () => fileNames,
+  now,
+});
+const matches = async (condition: IArchivingRuleCondition, ctx = context()) =>
+  (await matchCondition(condition, ctx)).matched;
+
+describe('matchCondition', () => {
+  it('旧版 category / tags / name_matches 之间为 "或" 关系，且不区分大小写', async () => {
+    const ctx = context({ category: 'TV', tags: 'hd, Anime', name: 'Show.S01E02' });
+    assert.equal(await matches({ category: 'tv' }, ctx), true);
+    assert.equal(await matches({ category: 'Movies', tags: ['anime'] }, ctx), true);
+    assert.equal(await matches({ category: 'Movies', name_matches: 's\\d+e\\d+' }, ctx), true);
+    assert.equal(await matches({ category: 'Movies', tags: 'sd', name_matches: '^x' }, ctx), false);
+    // 没有分类的种子按 "Uncategorized" 匹配
+    assert.equal(await matches({ category: 'uncategorized' }), true);
+  });
+
+  it('all 要求所有子条件匹配，any 只需任意一个，not 取反', async () => {
+    const ctx = context({ category: 'TV', size: 2 * GIB });
+    const isTv = { category: 'TV' };
+    const isMovie = { category: 'Movies' };
+    const isLarge = { minSize: GIB };
+
+    assert.equal(await matches({ all: [isTv, isLarge] }, ctx), true);
+    assert.equal(await matches({ all: [isTv, isMovie] }, ctx), false);
+    assert.equal(await matches({ any: [isMovie, isLarge] }, ctx), true);
+    assert.equal(await matches({ any: [isMovie, { maxSize: GIB }] }, ctx), false);
+    assert.equal(await matches({ not: isMovie }, ctx), true);
+    assert.equal(await matches({ not: { any: [isMovie, isTv] } }, ctx), false);
+    // 对象内的各组条件之间为 "且" 关系
+    assert.equal(await matches({ any: [isMovie, isTv], not: isLarge }, ctx), false);
+
+    const result = await matchCondition({ all: [isTv, { not: isMovie }] }, ctx);
+    assert.deepEqual(result.reasons, ['all(分类 "TV" 匹配; not(分类 "TV" 不是 "Movies"))']);
+  });
+
+  it('按大小范围匹配，边界值包含在内', async () => {
+    const ctx = context({ size: 4 * GIB });
+    assert.equal(await matches({ minSize: 4 * GIB, maxSize: 4 * GIB }, ctx), true);
+    assert.equal(await matches({ minSize: 4 * GIB + 1 }, ctx), false);
+    assert.equal(await matches({ maxSize: GIB }, ctx), false);
+    const result = await matchCondition({ maxSize: GIB }, ctx);
+    assert.deepEqual(result.reasons, [`大小 ${4 * GIB}B > ${GIB}B`]);
+  });
+
+  it('按添加天数与完成天数匹配，没有完成时间时完成天数条件不匹配', async () => {
+    const ctx = context({ added_on: daysAgo(10), completion_on: daysAgo(3) });
+    assert.equal(await matches({ minAddedAgeDays: 7, maxAddedAgeDays: 30 }, ctx), true);
+    assert.equal(await matches({ maxAddedAgeDays: 7 }, ctx), false);
+    assert.equal(await matches({ minCompletedAgeDays: 2 }, ctx), true);
+    assert.equal(await matches({ minCompletedAgeDays: 5 }, ctx), false);
+
+    const incomplete = context({ added_on: daysAgo(10), completion_on: -1 });
+    const result = await matchCondition({ maxCompletedAgeDays: 100 }, incomplete);
+    assert.deepEqual(result, { matched: false, reasons: ['种子没有完成时间'] });
+  });
+
+  it('按分享率范围匹配', async () => {
+    const ctx = context({ ratio: 1.25 });
+    assert.equal(await matches({ minRatio: 1 }, ctx), true);
+    assert.equal(await matches({ minRatio: 1, maxRatio: 1.2 }, ctx), false);
+    const result = await matchCondition({ minRatio: 2 }, ctx);
+    assert.deepEqual(result.reasons, ['分享率 1.25 < 2']);
+  });
+
+  it('tracker 按域名及其子域名匹配', async () => {
+    const ctx = context({ tracker: 'https://tracker.example.org:443/announce?passkey=x' });
+    assert.equal(await matches({ tracker: 'example.org' }, ctx), true);
+    assert.equal(await matches({ tracker: ['other.net', 'TRACKER.example.org'] }, ctx), true);
+    assert.equal(await matches({ tracker: 'ample.org' }, ctx), false);
+    assert.equal(await matches({ tracker: 'example.org' }, context({ tracker: '' })), false);
+  });
+
+  it('其他条件不满足时不请求文件列表', async () => {
+    const getFileNames = mock.fn(async () => ['Show/E01.MKV', 'Show/info.nfo']);
+    const ctx: RuleMatchContext = { ...context({ category: 'TV' }), getFileNames };
+
+    assert.equal(await matches({ category: 'Movies', file_extensions: 'mkv' }, ctx), false);
+    assert.equal(getFileNames.mock.callCount(), 0);
+    assert.equal(await matches({ category: 'TV', file_extensions: ['.mkv'] }, ctx), true);
+    assert.equal(await matches({ file_extensions: 'iso' }, ctx), false);
+    assert.equal(getFileNames.mock.callCount(), 2);
+  });
+
+  it('空条件不匹配任何种子', async () => {
+    assert.deepEqual(await matchCondition({}, context()), { matched: false, reasons: ['空条件'] });
+  });
+});
+
+describe('findMatchingRule / resolveRemotePath', () => {
+  const rules: IArchivingRule[] = [
+    { if: 'default', then: { remotePath: 'Other/{torrentName}' } },
+    { if: { name_matches: '(' }, then: { remotePath: 'Broken' } },
+    { if: { category: 'TV', minSize: GIB }, then: { remotePath: 'TV/{torrentName}' } },
+    { if: { category: 'TV' }, then: { remotePath: 'TV-Small/{torrentName}' } },
+  ];
+
+  it('按顺序返回第一条匹配的规则，无效的正则表达式跳过该规则并报告', async () => {
+    const onRuleError = mock.fn();
+    const result = await findMatchingRule(
+      rules,
+      context({ category: 'TV', size: 2 * GIB }),
+      onRuleError
+    );
+    assert.equal(result.ruleIndex, 2);
+    assert.equal(result.isDefault, false);
+    assert.equal(onRuleError.mock.callCount(), 1);
+    assert.equal(onRuleError.mock.calls[0].arguments[1], 1);
+  });
+
+  it('没有规则匹配时使用默认规则，没有默认规则时使用备用模板', async () => {
+    const movie = context({ category: 'Movies', name: 'Film' });
+    const withDefault = await resolveRemotePath(rules, movie, 'default');
+    assert.equal(withDefault.match.isDefault, true);
+    assert.equal(withDefault.relativePath, 'Other/Film');
+
+    const withoutDefault = await resolveRemotePath(rules.slice(1), movie, 'default');
+    assert.equal(withoutDefault.match.rule, undefined);
+    assert.equal(withoutDefault.template, FALLBACK_REMOTE_PATH_TEMPLATE);
+  });
+});
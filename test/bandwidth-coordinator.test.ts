@@ -0,0 +1,57 @@
+// test/bandwidth-coordinator.test.ts
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { BandwidthCoordinator } from '../src/core/bandwidth-coordinator';
+import { createSilentLogger } from './helpers';
+
+describe('BandwidthCoordinator', () => {
+  let stateDir: string;
+
+  beforeEach(async () => {
+    stateDir = await fs.mkdtemp(path.join(os.tmpdir(), 'qbcs-bandwidth-test-'));
+  });
+  afterEach(async () => {
+    await fs.rm(stateDir, { recursive: true, force: true });
+  });
+
+  it('按登记的上传数平分速率，并为每个上传分配不同的 rc 端口', async () => {
+    const coordinator = new BandwidthCoordinator(
+      [{ minuteOfDay: 0, bytesPerSecond: 4 * 1024 * 1024 }],
+      stateDir,
+      createSilentLogger()
+    );
+    const first = await coordinator.acquire();
+    const second = await coordinator.acquire();
+    try {
+      assert.equal(first.rate, '4096K');
+      assert.equal(second.rate, '2048K');
+      assert.deepEqual(second.flags.slice(0, 3), ['--bwlimit', '2048K', '--rc']);
+      assert.notEqual(first.flags[4], second.flags[4]);
+      assert.ok(second.env.RCLONE_RC_PASS);
+      assert.equal((await fs.readdir(stateDir)).length, 2);
+    } finally {
+      await first.release();
+      await second.release();
+    }
+    assert.deepEqual(await fs.readdir(stateDir), []);
+  });
+
+  it('忽略已退出进程留下的登记', async () => {
+    await fs.writeFile(
+      path.join(stateDir, '999999-1.json'),
+      JSON.stringify({ pid: 999999, port: 1, user: 'qbcs', pass: 'x' })
+    );
+    const coordinator = new BandwidthCoordinator(
+      [{ minuteOfDay: 0, bytesPerSecond: 1024 * 1024 }],
+      stateDir,
+      createSilentLogger()
+    );
+    const lease = await coordinator.acquire();
+    await lease.release();
+    assert.equal(lease.rate, '1024K');
+    assert.deepEqual(await fs.readdir(stateDir), []);
+  });
+});
@@ -0,0 +1,91 @@
+// test/bandwidth-schedule.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  estimateUploadTimeoutMs,
+  formatBwlimitRate,
+  formatBwlimitTimetable,
+  getBandwidthLimitAt,
+  parseBandwidthRate,
+  parseBandwidthSchedule,
+} from '../src/core/bandwidth-schedule';
+
+const MiB = 1024 * 1024;
+
+describe('parseBandwidthRate', () => {
+  it('默认单位为 KiB/s，支持后缀和 off', () => {
+    assert.equal(parseBandwidthRate('512'), 512 * 1024);
+    assert.equal(parseBandwidthRate('2M'), 2 * MiB);
+    assert.equal(parseBandwidthRate('1.5k'), 1536);
+    assert.equal(parseBandwidthRate('off'), null);
+    assert.equal(parseBandwidthRate('0'), null);
+  });
+
+  it('格式错误时抛出异常', () => {
+    assert.throws(() => parseBandwidthRate('fast'), /Invalid bandwidth rate/);
+  });
+});
+
+describe('parseBandwidthSchedule', () => {
+  it('单个速率全天生效', () => {
+    assert.deepEqual(parseBandwidthSchedule('2M'), [{ minuteOfDay: 0, bytesPerSecond: 2 * MiB }]);
+    assert.deepEqual(parseBandwidthSchedule('  '), []);
+  });
+
+  it('每日时间表按时间排序', () => {
+    assert.deepEqual(parseBandwidthSchedule('23:00,off 08:00,2M'), [
+      { day: undefined, minuteOfDay: 8 * 60, bytesPerSecond: 2 * MiB },
+      { day: undefined, minuteOfDay: 23 * 60, bytesPerSecond: null },
+    ]);
+  });
+
+  it('拒绝无效项、混用每日与每周、重复时间', () => {
+    assert.throws(() => parseBandwidthSchedule('25:00,1M 08:00,2M'), /Invalid bandwidth timetable/);
+    assert.throws(() => parseBandwidthSchedule('Mon-08:00,1M 09:00,2M'), /mixes daily/);
+    assert.throws(() => parseBandwidthSchedule('08:00,1M 08:00,2M'), /more than one entry/);
+  });
+});
+
+describe('getBandwidthLimitAt', () => {
+  const daily = parseBandwidthSchedule('08:00,2M 23:00,off');
+
+  it('返回当前时段的速率', () => {
+    assert.equal(getBandwidthLimitAt(daily, new Date(2024, 0, 1, 12, 0)), 2 * MiB);
+    assert.equal(getBandwidthLimitAt(daily, new Date(2024, 0, 1, 23, 30)), null);
+  });
+
+  it('早于第一项时沿用上一周期的最后一项', () => {
+    assert.equal(getBandwidthLimitAt(daily, new Date(2024, 0, 1, 7, 59)), null);
+    const weekly = parseBandwidthSchedule('Mon-08:00,1M Fri-18:00,4M');
+    // 2024-01-07 是周日
+    assert.equal(getBandwidthLimitAt(weekly, new Date(2024, 0, 7, 12, 0)), 4 * MiB);
+  });
+
+  it('没有时间表时不限速', () => {
+    assert.equal(getBandwidthLimitAt([]), null);
+  });
+});
+
+describe('formatBwlimitTimetable', () => {
+  it('按份数平分速率，off 保持不变', () => {
+    assert.equal(formatBwlimitRate(2 * MiB, 4), '512K');
+    assert.equal(formatBwlimitRate(null, 4), 'off');
+    assert.equal(formatBwlimitTimetable(parseBandwidthSchedule('2M'), 2), '1024K');
+    assert.equal(
+      formatBwlimitTimetable(parseBandwidthSchedule('Mon-08:00,2M Sat-00:00,off')),
+      'Mon-08:00,2048K Sat-00:00,off'
+    );
+  });
+});
+
+describe('estimateUploadTimeoutMs', () => {
+  it('按最慢的份额速率计算', () => {
+    const schedule = parseBandwidthSchedule('08:00,2M 23:00,off');
+    // 2M / 4 个上传 = 512K/s，低于 1M 的最低速率
+    assert.equal(estimateUploadTimeoutMs(512 * 1024 * 60, schedule, 4, MiB, 0), 60 * 1000);
+  });
+
+  it('不限速时使用最低速率，并加上基础时间', () => {
+    assert.equal(estimateUploadTimeoutMs(10 * MiB, [], 3, MiB, 1000), 11 * 1000);
+  });
+});
@@ -0,0 +1,185 @@
+// test/checksum-manifest.test.ts
+import { after, afterEach, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { TaskStatus } from '@prisma/client';
+import * as checksumManifest from '../src/core/checksum-manifest';
+import { TaskProcessorService } from '../src/core/task-processor.service';
+import { UploaderService } from '../src/core/uploader.service';
+import { TestDatabase, createTask, createTestDatabase } from './db';
+import { createSilentLogger, installFakeRclone, makeAppConfig, makeRcloneConfig } from './helpers';
+
+const { buildLocalManifest, loadTaskManifest, saveTaskManifest } = checksumManifest;
+
+const sha256 = (content: string) => createHash('sha256').update(content).digest('hex');
+
+// 假的 rclone checksum: 记录参数和校验文件内容，FAKE_MODE=mismatch 时报告差异
+const FAKE_RCLONE = `
+printf '%s\\n' "$@" > "$FAKE_LOG"
+for last in "$@"; do :; done
+shift $(($# - 2))
+cat "$1" >> "$FAKE_LOG"
+if [ "$FAKE_MODE" = mismatch ]; then
+  echo 'ERROR : a.txt: sums differ' >&2
+  exit 1
+fi
+`;
+
+describe('checksum manifest', () => {
+  let tempDir: string;
+  let contentDir: string;
+
+  before(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'qbcs-manifest-test-'));
+    contentDir = path.join(tempDir, 'Show S01');
+    await fs.mkdir(path.join(contentDir, 'Subs'), { recursive: true });
+    await fs.writeFile(path.join(contentDir, 'b.mkv'), 'video');
+    await fs.writeFile(path.join(contentDir, 'a.txt'), 'hello');
+    await fs.writeFile(path.join(contentDir, 'Subs', 'en.srt'), 'subtitle');
+  });
+  after(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('buildLocalManifest', () => {
+    it('递归列出目录中的文件，按路径排序并计算大小和 SHA-256', async () => {
+      assert.deepEqual(await buildLocalManifest(contentDir), [
+        { relativePath: 'a.txt', size: 5, sha256: sha256('hello') },
+        { relativePath: 'b.mkv', size: 5, sha256: sha256('video') },
+        { relativePath: 'Subs/en.srt', size: 8, sha256: sha256('subtitle') },
+      ]);
+    });
+
+    it('单个文件的清单只有一项，相对路径为文件名', async () => {
+      const entries = await buildLocalManifest(path.join(contentDir, 'a.txt'));
+      assert.deepEqual(entries, [{ relativePath: 'a.txt', size: 5, sha256: sha256('hello') }]);
+      assert.equal(
+        checksumManifest.isSingleFileManifest(path.join(contentDir, 'a.txt'), entries),
+        true
+      );
+      assert.equal(checksumManifest.isSingleFileManifest(contentDir, entries), false);
+    });
+
+    it('本地路径不存在时抛出 ENOENT', async () => {
+      await assert.rejects(buildLocalManifest(path.join(tempDir, 'missing')), { code: 'ENOENT' });
+    });
+  });
+
+  describe('UploaderService.verifyUpload (manifest)', () => {
+    let uninstall: () => Promise<void>;
+    const logPath = () => path.join(tempDir, 'rclone.log');
+
+    before(async () => {
+      uninstall = await installFakeRclone(FAKE_RCLONE);
+      process.env.FAKE_LOG = logPath();
+    });
+    after(async () => {
+      delete process.env.FAKE_MODE;
+      await uninstall();
+    });
+
+    it('目录: 用清单生成 sha256sum 文件并对远程目录执行 rclone checksum', async () => {
+      const uploader = new UploaderService(makeRcloneConfig(), createSilentLogger());
+      const result = await uploader.verifyUpload(contentDir, 'remote:Shows/Show S01', {
+        mode: 'manifest',
+      });
+      assert.equal(result.verified, true);
+      assert.equal(result.method, 'manifest (sha256)');
+      const log = await fs.readFile(logPath(), 'utf-8');
+      assert.match(log, /^checksum\nsha256\n/);
+      assert.match(log, /\nremote:Shows\/Show S01\n/);
+      assert.doesNotMatch(log, /--one-way/);
+      assert.ok(log.includes(`${sha256('subtitle')}  Subs/en.srt\n`));
+    });
+
+    it('单个文件: 检查其所在的远程目录，只核对清单中的文件', async () => {
+      const uploader = new UploaderService(makeRcloneConfig(), createSilentLogger());
+      const manifest = [{ relativePath: 'a.txt', size: 5, sha256: sha256('hello') }];
+      const result = await uploader.verifyUpload(
+        path.join(contentDir, 'a.txt'),
+        'remote:Docs/renamed.txt',
+        { mode: 'manifest', manifest }
+      );
+      assert.equal(result.verified, true);
+      const log = await fs.readFile(logPath(), 'utf-8');
+      assert.match(log, /\n--one-way\n/);
+      assert.match(log, /\nremote:Docs\/\n/);
+      assert.ok(log.endsWith(`${sha256('hello')}  renamed.txt\n`));
+    });
+
+    it('远程与清单不一致时验证失败且可重试', async () => {
+      process.env.FAKE_MODE = 'mismatch';
+      const uploader = new UploaderService(makeRcloneConfig(), createSilentLogger());
+      const result = await uploader.verifyUpload(contentDir, 'remote:Shows/Show S01', {
+        mode: 'manifest',
+      });
+      assert.equal(result.verified, false);
+      assert.equal(result.retryable, true);
+      assert.equal(result.exitCode, 1);
+    });
+  });
+
+  describe('任务清单 (数据库)', () => {
+    let db: TestDatabase;
+
+    before(async () => {
+      db = await createTestDatabase();
+    });
+    afterEach(() => {
+      mock.restoreAll();
+    });
+    after(async () => {
+      await db.cleanup();
+    });
+
+    it('保存后按相对路径读取，重新保存时替换旧清单', async () => {
+      const task = await createTask(db.prisma);
+      assert.equal(await loadTaskManifest(db.prisma, task), null);
+
+      const [a, b, subtitle] = await buildLocalManifest(contentDir);
+      await saveTaskManifest(db.prisma, task.id, [a, b, subtitle]);
+      const saved = await db.prisma.torrentTask.findUniqueOrThrow({ where: { id: task.id } });
+      assert.ok(saved.manifestBuiltAt);
+      assert.deepEqual(await loadTaskManifest(db.prisma, saved), [subtitle, a, b]);
+
+      await saveTaskManifest(db.prisma, task.id, [b]);
+      assert.deepEqual(await loadTaskManifest(db.prisma, saved), [b]);
+    });
+
+    it('计算清单期间定期刷新租约，不会被其他进程回收', async () => {
+      const config = makeAppConfig({
+        behavior: { buildManifest: true },
+        taskProcessor: { leaseTimeoutMs: 300 },
+      });
+      const processor = new TaskProcessorService(config, db.prisma);
+      const otherProcess = new TaskProcessorService(config, db.prisma);
+      const task = await createTask(db.prisma, {
+        status: TaskStatus.UPLOADING,
+        localPath: contentDir,
+      });
+      // 模拟一个耗时远超租约时长的哈希计算
+      mock.method(checksumManifest, 'buildLocalManifest', async (localPath: string) => {
+        await sleep(1000);
+        return buildLocalManifest(localPath);
+      });
+
+      const preparing = processor['prepareTaskManifest'](task);
+      await sleep(700);
+      assert.equal(await otherProcess['recoverAbandonedTasks']('lease'), 0);
+      const entries = await preparing;
+      assert.equal(entries?.length, 3);
+
+      const current = await db.prisma.torrentTask.findUniqueOrThrow({ where: { id: task.id } });
+      assert.equal(current.status, TaskStatus.UPLOADING);
+      assert.ok(current.manifestBuiltAt);
+
+      // 清单完成后不再刷新，超过租约时长即被回收
+      await sleep(400);
+      assert.equal(await otherProcess['recoverAbandonedTasks']('lease'), 1);
+    });
+  });
+});
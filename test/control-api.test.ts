@@ -0,0 +1,126 @@
+// test/control-api.test.ts
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'node:net';
+import { TaskStatus } from '@prisma/client';
+import { ControlApiService } from '../src/core/control-api.service';
+import { TaskProcessorService } from '../src/core/task-processor.service';
+import { TestDatabase, createTask, createTestDatabase } from './db';
+import { createSilentLogger, makeAppConfig } from './helpers';
+
+const TOKEN = 'test-token-0123456789';
+
+describe('ControlApiService', () => {
+  let db: TestDatabase;
+  let api: ControlApiService;
+  let baseUrl: string;
+
+  before(async () => {
+    db = await createTestDatabase();
+    const config = makeAppConfig();
+    const processor = new TaskProcessorService(config, db.prisma);
+    api = new ControlApiService(
+      { enabled: true, host: '127.0.0.1', port: 0, token: TOKEN },
+      db.prisma,
+      processor,
+      createSilentLogger()
+    );
+    await api.start();
+    const { port } = api['server']!.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+  after(async () => {
+    await api.stop();
+    await db.cleanup();
+  });
+
+  const request = (pathName: string, init: RequestInit = {}, token: string | null = TOKEN) =>
+    fetch(`${baseUrl}${pathName}`, {
+      ...init,
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+    });
+
+  describe('认证', () => {
+    it('/api 请求缺少或使用错误的 Token 时返回 401', async () => {
+      const missing = await request('/api/summary', {}, null);
+      assert.equal(missing.status, 401);
+      assert.equal(missing.headers.get('www-authenticate'), 'Bearer');
+      assert.equal((await request('/api/summary', {}, 'wrong')).status, 401);
+    });
+
+    it('正确的 Token 可以访问 /api', async () => {
+      const response = await request('/api/summary');
+      assert.equal(response.status, 200);
+      assert.ok('statusCounts' in ((await response.json()) as object));
+    });
+
+    it('仪表盘页面与 /metrics 无需 Token', async () => {
+      const page = await request('/', {}, null);
+      assert.equal(page.status, 200);
+      assert.match(page.headers.get('content-type') ?? '', /text\/html/);
+      const metrics = await request('/metrics', {}, null);
+      assert.equal(metrics.status, 200);
+      assert.match(await metrics.text(), /^qb_cloud_sync_tasks\{status="COMPLETED"\} 0$/m);
+    });
+  });
+
+  describe('路由', () => {
+    it('未知路径返回 404，方法不匹配返回 405', async () => {
+      assert.equal((await request('/nope')).status, 404);
+      assert.equal((await request('/api/nope')).status, 404);
+      assert.equal((await request('/api/summary', { method: 'POST' })).status, 405);
+      assert.equal((await request('/metrics', { method: 'POST' }, null)).status, 405);
+    });
+
+    it('按状态过滤任务列表，未知状态返回 400', async () => {
+      await createTask(db.prisma, { status: TaskStatus.UPLOAD_FAILED, name: 'Failed One' });
+      await createTask(db.prisma, { status: TaskStatus.COMPLETED, name: 'Done One' });
+      const response = await request('/api/tasks?status=upload_failed');
+      assert.equal(response.status, 200);
+      const body = (await response.json()) as { total: number; tasks: { name: string }[] };
+      assert.equal(body.total, 1);
+      assert.equal(body.tasks[0].name, 'Failed One');
+
+      assert.equal((await request('/api/tasks?status=BOGUS')).status, 400);
+      assert.equal((await request('/api/tasks?limit=-1')).status, 400);
+    });
+
+    it('按 ID 或哈希查询任务详情', async () => {
+      const task = await createTask(db.prisma, { status: TaskStatus.COMPLETED });
+      for (const key of [task.id, task.hash.toUpperCase(), `default:${task.hash}`]) {
+        const response = await request(`/api/tasks/${encodeURIComponent(key)}`);
+        assert.equal(response.status, 200, key);
+        const body = (await response.json()) as { task: { id: string }; active: boolean };
+        assert.equal(body.task.id, task.id);
+        assert.equal(body.active, false);
+      }
+      assert.equal((await request('/api/tasks/no-such-task')).status, 404);
+    });
+
+    it('路径中的百分号编码无效时返回 400 而不是 500', async () => {
+      assert.equal((await request('/api/tasks/%E0')).status, 400);
+      assert.equal((await request('/api/tasks/%E0/retry', { method: 'POST' })).status, 400);
+      assert.equal((await request('/api/torrents/%E0/enqueue', { method: 'POST' })).status, 400);
+    });
+
+    it('重试与跳过: 成功时返回结果，状态不允许时返回 409', async () => {
+      const failed = await createTask(db.prisma, { status: TaskStatus.VERIFICATION_FAILED });
+      const retried = await request(`/api/tasks/${failed.id}/retry`, { method: 'POST' });
+      assert.equal(retried.status, 200);
+      const body = (await retried.json()) as { success: boolean; task: { status: string } };
+      assert.equal(body.task.status, TaskStatus.PENDING_VERIFICATION);
+
+      const again = await request(`/api/tasks/${failed.id}/retry`, { method: 'POST' });
+      assert.equal(again.status, 409);
+
+      const skipped = await request(`/api/tasks/${failed.id}/skip`, { method: 'POST' });
+      assert.equal(skipped.status, 200);
+      assert.equal((await request(`/api/tasks/${failed.id}/retry`)).status, 405);
+    });
+
+    it('enqueue 拒绝无效的种子哈希', async () => {
+      const response = await request('/api/torrents/not-a-hash/enqueue', { method: 'POST' });
+      assert.equal(response.status, 400);
+    });
+  });
+});
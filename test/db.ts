@@ -0,0 +1,145 @@
+// test/db.ts
+import { execFileSync } from 'node:child_process';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { createClient } from '@libsql/client';
+import { PrismaLibSQL } from '@prisma/adapter-libsql';
+import { Prisma, PrismaClient, TorrentTask } from '@prisma/client';
+
+const REPO_ROOT = path.resolve(__dirname, '..');
+const SCHEMA_PATH = path.join(REPO_ROOT, 'prisma', 'schema.prisma');
+const MIGRATIONS_DIR = path.join(REPO_ROOT, 'prisma', 'migrations');
+const TEST_CLIENT_DIR = path.join(REPO_ROOT, 'node_modules', '.prisma', 'test-client');
+const TEST_SCHEMA_PATH = path.join(REPO_ROOT, 'node_modules', '.prisma', 'test-schema.prisma');
+const SCHEMA_HASH_FILE = path.join(TEST_CLIENT_DIR, '.schema-sha256');
+
+type TestPrismaClientConstructor = new (options: { adapter: PrismaLibSQL }) => PrismaClient;
+type SqlDriverAdapter = Awaited<ReturnType<PrismaLibSQL['connect']>>;
+type SqlQueryable = Pick<SqlDriverAdapter, 'queryRaw'>;
+type SqlResultSet = Awaited<ReturnType<SqlQueryable['queryRaw']>>;
+
+// 驱动适配器结果中布尔列的类型编号 (@prisma/driver-adapter-utils 的 ColumnTypeEnum.Boolean)
+const BOOLEAN_COLUMN_TYPE = 5;
+
+/**
+ * 测试通过 libSQL 驱动适配器连接临时 SQLite 文件，不需要 Prisma 的原生查询引擎。
+ * 为此从同一份 schema 单独生成一个启用 driverAdapters / queryCompiler 预览特性的客户端，
+ * 生产代码使用的 @prisma/client 不受影响。schema 变化后自动重新生成。
+ */
+function loadTestPrismaClient(): TestPrismaClientConstructor {
+  const schema = fs.readFileSync(SCHEMA_PATH, 'utf-8');
+  const schemaHash = crypto.createHash('sha256').update(schema).digest('hex');
+  const generatedHash = fs.existsSync(SCHEMA_HASH_FILE)
+    ? fs.readFileSync(SCHEMA_HASH_FILE, 'utf-8')
+    : null;
+  if (generatedHash !== schemaHash) {
+    fs.writeFileSync(
+      TEST_SCHEMA_PATH,
+      schema.replace(
+        'provider = "prisma-client-js"',
+        'provider = "prisma-client-js"\n  previewFeatures = ["driverAdapters", "queryCompiler"]\n  output = "./test-client"'
+      )
+    );
+    execFileSync('npx', ['--no-install', 'prisma', 'generate', '--schema', TEST_SCHEMA_PATH], {
+      cwd: REPO_ROOT,
+      stdio: 'pipe',
+      timeout: 5 * 60 * 1000,
+    });
+    fs.writeFileSync(SCHEMA_HASH_FILE, schemaHash);
+  }
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  return require(TEST_CLIENT_DIR).PrismaClient;
+}
+
+/**
+ * Prisma 6.8 的 queryCompiler 只把字符串 "0" 读作 false，而 libSQL 返回的布尔列是整数 0/1，
+ * 导致所有布尔字段都被读成 true。在适配器返回查询结果时先把布尔列转换为 JS 布尔值。
+ */
+function withBooleanColumns<T extends SqlQueryable>(queryable: T): T {
+  return new Proxy(queryable, {
+    get(target, property) {
+      if (property === 'queryRaw') {
+        return async (query: Parameters<SqlQueryable['queryRaw']>[0]): Promise<SqlResultSet> => {
+          const result = await target.queryRaw(query);
+          const booleanColumns = result.columnTypes.flatMap((type, index) =>
+            type === BOOLEAN_COLUMN_TYPE ? [index] : []
+          );
+          for (const row of result.rows) {
+            for (const index of booleanColumns) {
+              if (typeof row[index] === 'number') row[index] = row[index] !== 0;
+            }
+          }
+          return result;
+        };
+      }
+      if (property === 'startTransaction') {
+        return async (...args: Parameters<SqlDriverAdapter['startTransaction']>) =>
+          withBooleanColumns(
+            await (target as unknown as SqlDriverAdapter).startTransaction(...args)
+          );
+      }
+      const value = Reflect.get(target, property, target);
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+  });
+}
+
+class TestLibSQLAdapter extends PrismaLibSQL {
+  async connect(): Promise<SqlDriverAdapter> {
+    return withBooleanColumns(await super.connect());
+  }
+}
+
+export interface TestDatabase {
+  prisma: PrismaClient;
+  cleanup: () => Promise<void>;
+}
+
+/**
+ * 在临时目录中创建一个依次执行了所有迁移的 SQLite 数据库。
+ */
+export async function createTestDatabase(): Promise<TestDatabase> {
+  const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'qbcs-test-db-'));
+  const url = `file:${path.join(dir, 'test.db')}`;
+  const client = createClient({ url });
+  const migrations = fs
+    .readdirSync(MIGRATIONS_DIR, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => entry.name)
+    .sort();
+  for (const migration of migrations) {
+    await client.executeMultiple(
+      fs.readFileSync(path.join(MIGRATIONS_DIR, migration, 'migration.sql'), 'utf-8')
+    );
+  }
+  client.close();
+
+  const TestPrismaClient = loadTestPrismaClient();
+  const prisma = new TestPrismaClient({ adapter: new TestLibSQLAdapter({ url }) });
+  return {
+    prisma,
+    cleanup: async () => {
+      await prisma.$disconnect();
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    },
+  };
+}
+
+// 创建一个任务，未指定的必填字段使用测试默认值
+export function createTask(
+  prisma: PrismaClient,
+  data: Partial<Prisma.TorrentTaskUncheckedCreateInput> = {}
+): Promise<TorrentTask> {
+  const hash = data.hash ?? crypto.randomBytes(20).toString('hex');
+  return prisma.torrentTask.create({
+    data: {
+      hash,
+      name: `Torrent ${hash.slice(0, 8)}`,
+      addedAt: new Date(),
+      localPath: `/downloads/${hash}`,
+      ...data,
+    },
+  });
+}
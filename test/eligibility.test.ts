@@ -0,0 +1,94 @@
+// test/eligibility.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { evaluateEligibility, findEligibilityOverride } from '../src/core/eligibility';
+import { IEligibilityPolicy } from '../src/interfaces/config.types';
+import { makeTorrent } from './helpers';
+
+const DAY_SEC = 24 * 60 * 60;
+
+describe('evaluateEligibility', () => {
+  const policy = (criteria: Partial<IEligibilityPolicy> = {}): IEligibilityPolicy => ({
+    overrides: [],
+    ...criteria,
+  });
+
+  it('未配置任何条件时放行', () => {
+    const result = evaluateEligibility(makeTorrent(), policy());
+    assert.equal(result.eligible, true);
+    assert.equal(result.forced, false);
+    assert.deepEqual(result.reasons, []);
+  });
+
+  it('所有条件需同时满足，并说明每项检查的结果', () => {
+    const torrent = makeTorrent({
+      state: 'stalledUP',
+      ratio: 1.5,
+      seeding_time: 2 * DAY_SEC,
+      time_active: 3 * DAY_SEC,
+    });
+    const criteria = {
+      states: ['uploading', 'StalledUP'],
+      minRatio: 1,
+      minSeedingTimeSec: DAY_SEC,
+      minActiveTimeSec: DAY_SEC,
+    };
+    assert.equal(evaluateEligibility(torrent, policy(criteria)).eligible, true);
+
+    const result = evaluateEligibility({ ...torrent, ratio: 0.5 }, policy(criteria));
+    assert.equal(result.eligible, false);
+    assert.equal(result.reasons.length, 4);
+    assert.ok(result.reasons.includes('分享率 0.50 < 要求的 1'), result.reasons.join('\n'));
+  });
+
+  it('状态不在允许列表中时不放行 (不区分大小写)', () => {
+    const result = evaluateEligibility(
+      makeTorrent({ state: 'pausedUP' }),
+      policy({ states: ['UPLOADING', 'stalledUP'] })
+    );
+    assert.equal(result.eligible, false);
+    assert.match(result.reasons[0], /不在允许列表 \[uploading, stalledup\] 中/);
+  });
+
+  it('完成时间超过 forceAfterDays 时无视其他条件强制放行', () => {
+    const now = new Date('2024-01-31T00:00:00Z');
+    const completedDaysAgo = (days: number) =>
+      makeTorrent({ ratio: 0, completion_on: now.getTime() / 1000 - days * DAY_SEC });
+    const criteria = policy({ minRatio: 1, forceAfterDays: 30 });
+
+    const forced = evaluateEligibility(completedDaysAgo(31), criteria, now);
+    assert.equal(forced.eligible, true);
+    assert.equal(forced.forced, true);
+    assert.match(forced.reasons[forced.reasons.length - 1], /强制放行/);
+
+    assert.equal(evaluateEligibility(completedDaysAgo(29), criteria, now).eligible, false);
+    // qB 未记录完成时间 (completion_on 为 0 或 -1) 时不会强制放行
+    assert.equal(
+      evaluateEligibility(makeTorrent({ ratio: 0, completion_on: -1 }), criteria, now).eligible,
+      false
+    );
+  });
+
+  it('按分类或标签匹配的覆盖规则替换全局条件', () => {
+    const overrides = [
+      { category: 'Movies', minRatio: 2, description: '电影' },
+      { tag: 'keep', minRatio: 10 },
+      { category: 'TV', minRatio: 0 },
+    ];
+    const criteria = policy({ minRatio: 1, minSeedingTimeSec: 60, overrides });
+
+    const movie = makeTorrent({ category: 'movies', ratio: 1.5 });
+    const movieResult = evaluateEligibility(movie, criteria);
+    assert.equal(movieResult.override?.description, '电影');
+    assert.equal(movieResult.eligible, false);
+    // 覆盖规则未指定的条件沿用全局设置
+    assert.ok(movieResult.reasons.some((reason) => reason.startsWith('做种时间')));
+
+    // 第一条命中的覆盖规则生效
+    const tagged = makeTorrent({ category: 'TV', tags: 'a, Keep', ratio: 5 });
+    assert.equal(findEligibilityOverride(tagged, overrides), overrides[1]);
+    assert.equal(evaluateEligibility(tagged, criteria).eligible, false);
+
+    assert.equal(evaluateEligibility(makeTorrent({ ratio: 0.5 }), criteria).override, undefined);
+  });
+});
@@ -0,0 +1,114 @@
+// test/helpers.ts
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import winston, { Logger } from 'winston';
+import { QBittorrentTorrent } from '../src/core/qbittorrent.service';
+import { IAppConfig, IRcloneConfig } from '../src/interfaces/config.types';
+import config from '../src/services/config.service';
+
+// 测试中不输出日志
+export function createSilentLogger(): Logger {
+  return winston.createLogger({ silent: true, transports: [new winston.transports.Console()] });
+}
+
+/**
+ * 在临时目录中放置一个名为 rclone 的 shell 脚本，并把该目录加到 PATH 最前面。
+ * @returns 清理函数，恢复 PATH 并删除临时目录。
+ */
+export async function installFakeRclone(script: string): Promise<() => Promise<void>> {
+  const binDir = await fs.mkdtemp(path.join(os.tmpdir(), 'qbcs-fake-rclone-'));
+  await fs.writeFile(path.join(binDir, 'rclone'), `#!/bin/sh\n${script}\n`, { mode: 0o755 });
+  const originalPath = process.env.PATH;
+  process.env.PATH = `${binDir}${path.delimiter}${originalPath ?? ''}`;
+  return async () => {
+    process.env.PATH = originalPath;
+    await fs.rm(binDir, { recursive: true, force: true });
+  };
+}
+
+// 测试用的 rclone 配置: 一个名为 default 的上传目标，不限速
+export function makeRcloneConfig(overrides: Partial<IRcloneConfig> = {}): IRcloneConfig {
+  return {
+    destinations: [
+      { name: 'default', remoteName: 'remote', uploadPath: '/', required: true, always: false },
+    ],
+    pathSanitizeMode: 'default',
+    verifyMode: 'check',
+    verifyTimeoutMs: 10000,
+    bandwidthSchedule: [],
+    bandwidthStateDir: path.join(os.tmpdir(), 'qbcs-test-bandwidth'),
+    uploadTimeoutMs: 0,
+    uploadMinBytesPerSecond: 1024 * 1024,
+    ...overrides,
+  };
+}
+
+export type AppConfigOverrides = { [K in keyof IAppConfig]?: Partial<IAppConfig[K]> };
+
+/**
+ * 以环境变量加载的配置 (见 test/setup.ts) 为基础生成测试用配置，rclone 部分使用 makeRcloneConfig。
+ * 对象类型的配置段与覆盖值浅合并，其余 (包括数组) 直接替换。
+ */
+export function makeAppConfig(overrides: AppConfigOverrides = {}): IAppConfig {
+  const merged: Record<string, unknown> = { ...config, rclone: makeRcloneConfig() };
+  for (const [key, value] of Object.entries(overrides)) {
+    const base = merged[key];
+    merged[key] =
+      base && typeof base === 'object' && !Array.isArray(base) && !Array.isArray(value)
+        ? { ...base, ...(value as object) }
+        : value;
+  }
+  return merged as unknown as IAppConfig;
+}
+
+// 测试用的种子: 一个已下载完成、正在做种的单文件种子
+export function makeTorrent(overrides: Partial<QBittorrentTorrent> = {}): QBittorrentTorrent {
+  const size = 1024 * 1024 * 1024;
+  return {
+    added_on: 1700000000,
+    amount_left: 0,
+    auto_tmm: false,
+    category: '',
+    completed: size,
+    completion_on: 1700003600,
+    content_path: '/downloads/Example.mkv',
+    dl_limit: 0,
+    dlspeed: 0,
+    downloaded: size,
+    downloaded_session: 0,
+    eta: 8640000,
+    f_l_piece_prio: false,
+    force_start: false,
+    hash: 'a'.repeat(40),
+    last_activity: 1700003600,
+    magnet_uri: '',
+    max_ratio: -1,
+    max_seeding_time: -1,
+    name: 'Example',
+    num_complete: 1,
+    num_incomplete: 0,
+    num_leechs: 0,
+    num_seeds: 0,
+    priority: 0,
+    progress: 1,
+    ratio: 1,
+    ratio_limit: -2,
+    save_path: '/downloads',
+    seeding_time: 3600,
+    seen_complete: 1700003600,
+    seq_dl: false,
+    size,
+    state: 'uploading',
+    super_seeding: false,
+    tags: '',
+    time_active: 7200,
+    total_size: size,
+    tracker: '',
+    up_limit: 0,
+    uploaded: size,
+    uploaded_session: 0,
+    upspeed: 0,
+    ...overrides,
+  };
+}
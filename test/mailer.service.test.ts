@@ -0,0 +1,117 @@
+// test/mailer.service.test.ts
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import net from 'node:net';
+import { MailerService } from '../src/core/mailer.service';
+import { createSilentLogger } from './helpers';
+
+interface ReceivedMail {
+  from: string;
+  to: string[];
+  data: string;
+}
+
+/**
+ * 最小的 SMTP 替身: 不支持 TLS 和认证，接受所有邮件并记录下来。
+ */
+function startSmtpStandIn(): Promise<{ server: net.Server; port: number; mails: ReceivedMail[] }> {
+  const mails: ReceivedMail[] = [];
+  const server = net.createServer((socket) => {
+    let buffer = '';
+    let inData = false;
+    let current: ReceivedMail = { from: '', to: [], data: '' };
+    socket.setEncoding('utf8');
+    socket.write('220 localhost ESMTP stand-in\r\n');
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+      let index: number;
+      while ((index = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            mails.push(current);
+            current = { from: '', to: [], data: '' };
+            socket.write('250 OK: queued\r\n');
+          } else {
+            current.data += `${line.startsWith('..') ? line.slice(1) : line}\n`;
+          }
+          continue;
+        }
+        const command = line.slice(0, 4).toUpperCase();
+        if (command === 'EHLO' || command === 'HELO') {
+          socket.write('250 localhost\r\n');
+        } else if (command === 'MAIL') {
+          current.from = line.replace(/^MAIL FROM:\s*<([^>]*)>.*$/i, '$1');
+          socket.write('250 OK\r\n');
+        } else if (command === 'RCPT') {
+          current.to.push(line.replace(/^RCPT TO:\s*<([^>]*)>.*$/i, '$1'));
+          socket.write('250 OK\r\n');
+        } else if (command === 'DATA') {
+          inData = true;
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (command === 'QUIT') {
+          socket.end('221 Bye\r\n');
+        } else {
+          socket.write('250 OK\r\n');
+        }
+      }
+    });
+  });
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve({ server, port: (server.address() as net.AddressInfo).port, mails });
+    });
+  });
+}
+
+describe('MailerService (本地 SMTP 替身)', () => {
+  let smtp: Awaited<ReturnType<typeof startSmtpStandIn>>;
+
+  before(async () => {
+    smtp = await startSmtpStandIn();
+  });
+  after(async () => {
+    await new Promise<void>((resolve) => smtp.server.close(() => resolve()));
+  });
+
+  it('通过 SMTP 发送邮件', async () => {
+    const mailer = new MailerService(
+      {
+        host: '127.0.0.1',
+        port: smtp.port,
+        secure: false,
+        from: 'sync@example.com',
+        to: ['a@example.com', 'b@example.com'],
+      },
+      createSilentLogger()
+    );
+    assert.equal(mailer.isEnabled(), true);
+    const sent = await mailer.sendMail('上传完成', '任务已完成');
+    assert.equal(sent, true);
+    assert.equal(smtp.mails.length, 1);
+    const [mail] = smtp.mails;
+    assert.equal(mail.from, 'sync@example.com');
+    assert.deepEqual(mail.to, ['a@example.com', 'b@example.com']);
+    assert.match(mail.data, /^Subject: =\?UTF-8\?/m);
+    assert.match(mail.data, /^To: a@example\.com, b@example\.com$/m);
+  });
+
+  it('连接失败时返回 false 而不是抛出异常', async () => {
+    const closed = await startSmtpStandIn();
+    const port = closed.port;
+    await new Promise<void>((resolve) => closed.server.close(() => resolve()));
+    const mailer = new MailerService(
+      { host: '127.0.0.1', port, secure: false, to: ['a@example.com'] },
+      createSilentLogger()
+    );
+    assert.equal(await mailer.sendMail('subject', 'text'), false);
+  });
+
+  it('未配置时跳过发送', async () => {
+    const mailer = new MailerService({ host: undefined, to: [] }, createSilentLogger());
+    assert.equal(mailer.isEnabled(), false);
+    assert.equal(await mailer.sendMail('subject', 'text'), false);
+  });
+});
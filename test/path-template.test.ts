@@ -0,0 +1,99 @@
+// test/path-template.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  PathTemplateVariables,
+  parseReleaseName,
+  renderPathTemplate,
+  sanitizePathSegment,
+} from '../src/core/path-template';
+
+function makeVars(overrides: Partial<PathTemplateVariables> = {}): PathTemplateVariables {
+  const torrentName = overrides.torrentName ?? 'Show.Name.S02E05.2023.1080p.WEB-DL.x264-GROUP';
+  return {
+    torrentName,
+    category: 'TV',
+    tag: 'untagged',
+    hash: '0123456789abcdef0123456789abcdef01234567',
+    release: parseReleaseName(torrentName),
+    completedOn: new Date(2024, 2, 7),
+    ...overrides,
+  };
+}
+
+describe('parseReleaseName', () => {
+  it('解析场景发布名', () => {
+    const release = parseReleaseName('Show.Name.S02E05.2023.1080p.WEB-DL.x264-GROUP');
+    assert.equal(release.title, 'Show Name');
+    assert.equal(release.season, '02');
+    assert.equal(release.episode, '05');
+    assert.equal(release.year, '2023');
+    assert.equal(release.resolution, '1080p');
+    assert.equal(release.source, 'WEB-DL');
+    assert.equal(release.group, 'GROUP');
+  });
+
+  it('解析动漫风格的发布名', () => {
+    const release = parseReleaseName('[Group] Anime Title - 05 [1080p]');
+    assert.equal(release.group, 'Group');
+    assert.equal(release.title, 'Anime Title');
+    assert.equal(release.episode, '05');
+  });
+});
+
+describe('renderPathTemplate', () => {
+  it('渲染占位符、参数和修饰符', () => {
+    const rendered = renderPathTemplate(
+      '{category|lower}/{title} ({year})/Season {season}/{hash:8}/{completed:YYYY/MM}',
+      makeVars()
+    );
+    assert.equal(rendered, 'tv/Show Name (2023)/Season 02/01234567/2024/03');
+  });
+
+  it('缺失的值使用 default 修饰符，未知占位符原样保留', () => {
+    const vars = makeVars({ torrentName: 'Plain', release: parseReleaseName('Plain') });
+    assert.equal(
+      renderPathTemplate('{season|default:00}/{year}/{nope}', vars),
+      '00/UnknownYear/{nope}'
+    );
+  });
+
+  it('按模式清理非法字符', () => {
+    const vars = makeVars({ category: 'A:B?' });
+    assert.equal(renderPathTemplate('{category}', vars, 'windows'), 'A_B_');
+    assert.equal(renderPathTemplate('{category}', vars, 'none'), 'A:B?');
+  });
+
+  for (const mode of ['none', 'default', 'windows'] as const) {
+    it(`"." 和 ".." 段无法跳出上传根目录 (${mode})`, () => {
+      const rendered = renderPathTemplate(
+        '{category}/{tag}/./x',
+        makeVars({ category: '..', tag: '../..' }),
+        mode
+      );
+      const segments = rendered.split('/');
+      assert.ok(!segments.includes('..'), rendered);
+      assert.ok(!segments.includes('.'), rendered);
+      assert.equal(rendered, '__/__/__/_/x');
+    });
+  }
+
+  it('反斜杠按路径分隔符处理', () => {
+    assert.equal(
+      renderPathTemplate('{category}', makeVars({ category: '..\\..\\etc' })),
+      '__/__/etc'
+    );
+  });
+});
+
+describe('sanitizePathSegment', () => {
+  it('只由点组成的段替换为下划线', () => {
+    assert.equal(sanitizePathSegment('..', 'none'), '__');
+    assert.equal(sanitizePathSegment(' . ', 'default'), '_');
+    assert.equal(sanitizePathSegment('...', 'windows'), '___');
+  });
+
+  it('windows 模式去掉结尾的点和空格', () => {
+    assert.equal(sanitizePathSegment('Name. ', 'windows'), 'Name');
+  });
+});
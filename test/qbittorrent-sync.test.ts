@@ -0,0 +1,160 @@
+// test/qbittorrent-sync.test.ts
+import { beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { QBittorrentSyncClient } from '../src/core/qbittorrent-sync';
+import { QBittorrentMainData, QBittorrentService } from '../src/core/qbittorrent.service';
+import { createSilentLogger, makeAppConfig, makeTorrent } from './helpers';
+
+const HASH_A = 'a'.repeat(40);
+const HASH_B = 'b'.repeat(40);
+const HASH_C = 'c'.repeat(40);
+
+// maindata 中的种子对象不含 hash 字段 (hash 是对象的键)
+const torrentEntry = (name: string, overrides: Parameters<typeof makeTorrent>[0] = {}) => {
+  const { hash: _hash, ...torrent } = makeTorrent({ name, ...overrides });
+  return torrent;
+};
+
+describe('QBittorrentSyncClient', () => {
+  let responses: (QBittorrentMainData | Error)[];
+  let getMainData: ReturnType<typeof mock.method>;
+  let client: QBittorrentSyncClient;
+
+  beforeEach(() => {
+    responses = [];
+    const logger = createSilentLogger();
+    const qbService = new QBittorrentService(makeAppConfig().qbittorrentInstances[0], logger);
+    getMainData = mock.method(qbService, 'getMainData', async () => {
+      const response = responses.shift();
+      if (!response) throw new Error('没有更多的模拟响应');
+      if (response instanceof Error) throw response;
+      return response;
+    });
+    client = new QBittorrentSyncClient(qbService, logger);
+  });
+
+  const requestedRids = () => getMainData.mock.calls.map((call) => call.arguments[0]);
+  const initialData = (): QBittorrentMainData => ({
+    rid: 1,
+    full_update: true,
+    torrents: {
+      [HASH_A.toUpperCase()]: torrentEntry('Seeding', { state: 'uploading' }),
+      [HASH_B]: torrentEntry('Downloading', { state: 'downloading', progress: 0.5 }),
+    },
+    categories: { TV: { name: 'TV', savePath: '/downloads/tv' } },
+    tags: ['hd', 'keep'],
+  });
+
+  it('首次同步获取完整数据，所有种子都算作新增', async () => {
+    responses.push(initialData());
+    const result = await client.sync();
+
+    assert.deepEqual(requestedRids(), [0]);
+    assert.equal(result.initial, true);
+    assert.equal(result.fullUpdate, true);
+    assert.deepEqual(result.added, [HASH_A, HASH_B]);
+    assert.equal(result.torrentCount, 2);
+    assert.deepEqual(
+      result.stateChanges.map(({ hash, previousState, completed }) => [
+        hash,
+        previousState,
+        completed,
+      ]),
+      [
+        [HASH_A, null, true],
+        [HASH_B, null, false],
+      ]
+    );
+    // 哈希统一为小写，并写入种子对象
+    assert.equal(client.getTorrent(HASH_A.toUpperCase())?.hash, HASH_A);
+    assert.deepEqual(client.getCategories(), [{ name: 'TV', savePath: '/downloads/tv' }]);
+    assert.deepEqual(client.getTags(), ['hd', 'keep']);
+  });
+
+  it('增量同步只合并变化的字段，并报告状态变化、新增与移除', async () => {
+    responses.push(initialData(), {
+      rid: 2,
+      torrents: {
+        // 下载完成: 只包含变化的字段
+        [HASH_B]: { state: 'stalledUP', progress: 1 },
+        // 只有速度变化，不算状态变化
+        [HASH_A]: { upspeed: 1024 },
+        [HASH_C]: torrentEntry('New', { state: 'metaDL', progress: 0 }),
+      },
+      categories: { TV: { savePath: '/mnt/tv' } },
+      tags_removed: ['keep'],
+    });
+    await client.sync();
+    const result = await client.sync();
+
+    assert.deepEqual(requestedRids(), [0, 1]);
+    assert.equal(result.initial, false);
+    assert.equal(result.fullUpdate, false);
+    assert.deepEqual(result.added, [HASH_C]);
+    assert.deepEqual(result.removed, []);
+    assert.deepEqual(result.stateChanges, [
+      {
+        hash: HASH_B,
+        name: 'Downloading',
+        previousState: 'downloading',
+        state: 'stalledUP',
+        completed: true,
+      },
+      { hash: HASH_C, name: 'New', previousState: null, state: 'metaDL', completed: false },
+    ]);
+    assert.equal(client.getTorrent(HASH_A)?.upspeed, 1024);
+    assert.equal(client.getTorrent(HASH_A)?.name, 'Seeding');
+    assert.deepEqual(client.getCategories(), [{ name: 'TV', savePath: '/mnt/tv' }]);
+    assert.deepEqual(client.getTags(), ['hd']);
+
+    responses.push({
+      rid: 3,
+      torrents_removed: [HASH_A.toUpperCase()],
+      categories_removed: ['TV'],
+    });
+    const removal = await client.sync();
+    assert.deepEqual(removal.removed, [HASH_A]);
+    assert.equal(removal.torrentCount, 2);
+    assert.equal(client.getTorrent(HASH_A), undefined);
+    assert.deepEqual(client.getCategories(), []);
+  });
+
+  it('之后的完整更新替换整个视图，不在其中的种子算作移除', async () => {
+    responses.push(initialData(), {
+      rid: 5,
+      full_update: true,
+      torrents: { [HASH_B]: torrentEntry('Downloading', { state: 'downloading', progress: 0.6 }) },
+    });
+    await client.sync();
+    const result = await client.sync();
+
+    assert.equal(result.fullUpdate, true);
+    assert.equal(result.initial, false);
+    assert.deepEqual(result.added, []);
+    assert.deepEqual(result.removed, [HASH_A]);
+    assert.deepEqual(result.stateChanges, []);
+    assert.equal(client.getTorrent(HASH_B)?.progress, 0.6);
+    assert.deepEqual(client.getCategories(), []);
+    assert.deepEqual(client.getTags(), []);
+  });
+
+  it('同步出错后丢弃 rid，下次重新获取完整数据', async () => {
+    responses.push(initialData(), new Error('connect ECONNREFUSED'), {
+      ...initialData(),
+      rid: 7,
+    });
+    await client.sync();
+    await assert.rejects(client.sync(), /ECONNREFUSED/);
+    const result = await client.sync();
+
+    assert.deepEqual(requestedRids(), [0, 1, 0]);
+    // 缓存的视图仍在，重新获取的完整数据不会被当作首次同步
+    assert.equal(result.initial, false);
+    assert.deepEqual(result.added, []);
+
+    client.reset();
+    responses.push(initialData());
+    assert.equal((await client.sync()).initial, true);
+    assert.equal(requestedRids().at(-1), 0);
+  });
+});
@@ -0,0 +1,38 @@
+// test/rclone-progress.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseRcloneStatsLine } from '../src/core/rclone-progress';
+
+describe('parseRcloneStatsLine', () => {
+  it('解析 JSON 日志中的 stats 对象', () => {
+    const line = JSON.stringify({
+      level: 'notice',
+      msg: 'stats',
+      stats: { bytes: 250, totalBytes: 1000, speed: 50.5, eta: 14.6 },
+    });
+    assert.deepEqual(parseRcloneStatsLine(line), {
+      bytesTransferred: 250,
+      totalBytes: 1000,
+      percent: 25,
+      speedBps: 50.5,
+      etaSeconds: 15,
+    });
+  });
+
+  it('总大小未知时百分比为 null', () => {
+    const progress = parseRcloneStatsLine('{"stats":{"bytes":10,"totalBytes":0,"eta":null}}');
+    assert.equal(progress?.percent, null);
+    assert.equal(progress?.etaSeconds, null);
+  });
+
+  it('百分比不超过 100', () => {
+    const progress = parseRcloneStatsLine('{"stats":{"bytes":11,"totalBytes":10}}');
+    assert.equal(progress?.percent, 100);
+  });
+
+  it('非统计行返回 null', () => {
+    assert.equal(parseRcloneStatsLine('2024/01/01 INFO  : file.mkv: Copied (new)'), null);
+    assert.equal(parseRcloneStatsLine('{"level":"info","msg":"Copied"}'), null);
+    assert.equal(parseRcloneStatsLine('{not json'), null);
+  });
+});
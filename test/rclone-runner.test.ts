@@ -0,0 +1,122 @@
+// test/rclone-runner.test.ts
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RcloneRunResult, RcloneRunner, classifyRcloneFailure } from '../src/core/rclone-runner';
+import { createSilentLogger, installFakeRclone, makeRcloneConfig } from './helpers';
+
+// 假的 rclone: 行为由 FAKE_MODE 环境变量决定
+const FAKE_RCLONE = `
+case "$FAKE_MODE" in
+  args)
+    for arg in "$@"; do printf '%s\\n' "$arg"; done
+    ;;
+  fail)
+    echo 'ERROR : directory not found' >&2
+    exit 3
+    ;;
+  sleep)
+    exec sleep 30
+    ;;
+esac
+`;
+
+describe('RcloneRunner (假的 rclone)', () => {
+  let uninstall: () => Promise<void>;
+  const logger = createSilentLogger();
+
+  before(async () => {
+    uninstall = await installFakeRclone(FAKE_RCLONE);
+  });
+  after(async () => {
+    await uninstall();
+  });
+
+  it('以 argv 方式原样传递参数，并在前面加上 --config', async () => {
+    const runner = new RcloneRunner(makeRcloneConfig({ configPath: '/etc/rclone.conf' }), logger);
+    const lines: string[] = [];
+    const args = ['copy', "it's $HOME `id`", 'remote:a b/c'];
+    const result = await runner.run(args, {
+      env: { FAKE_MODE: 'args' },
+      onStdoutLine: (line) => lines.push(line),
+    });
+    assert.equal(result.success, true);
+    assert.equal(result.exitCode, 0);
+    assert.deepEqual(lines, ['--config', '/etc/rclone.conf', ...args]);
+  });
+
+  it('非零退出码体现在结果中', async () => {
+    const result = await new RcloneRunner(makeRcloneConfig(), logger).run(['lsjson', 'x:'], {
+      env: { FAKE_MODE: 'fail' },
+    });
+    assert.equal(result.success, false);
+    assert.equal(result.exitCode, 3);
+    assert.match(result.stderr, /directory not found/);
+  });
+
+  it('超时后终止进程', async () => {
+    const result = await new RcloneRunner(makeRcloneConfig(), logger).run(['copy'], {
+      env: { FAKE_MODE: 'sleep' },
+      timeoutMs: 200,
+    });
+    assert.equal(result.success, false);
+    assert.equal(result.timedOut, true);
+    assert.equal(result.signal, 'SIGTERM');
+  });
+
+  it('收到取消信号后终止进程，已取消的信号不会启动进程', async () => {
+    const runner = new RcloneRunner(makeRcloneConfig(), logger);
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 200);
+    const result = await runner.run(['copy'], {
+      env: { FAKE_MODE: 'sleep' },
+      signal: controller.signal,
+    });
+    assert.equal(result.aborted, true);
+    assert.equal(result.success, false);
+
+    const skipped = await runner.run(['copy'], { signal: controller.signal });
+    assert.equal(skipped.aborted, true);
+    assert.equal(skipped.durationMs, 0);
+  });
+
+  it('无法执行时返回错误而不是抛出异常', async () => {
+    const runner = new RcloneRunner(makeRcloneConfig(), logger, 'qbcs-no-such-rclone');
+    const result = await runner.run(['version']);
+    assert.equal(result.success, false);
+    assert.match(result.error ?? '', /无法执行/);
+  });
+});
+
+describe('classifyRcloneFailure', () => {
+  const failed = (exitCode: number, stderr: string): RcloneRunResult => ({
+    success: false,
+    exitCode,
+    signal: null,
+    timedOut: false,
+    aborted: false,
+    durationMs: 10,
+    stdout: '',
+    stderr,
+  });
+
+  it('copy 的退出码 1 为不可重试的参数错误，check 的退出码 1 表示存在差异', () => {
+    assert.equal(classifyRcloneFailure(failed(1, 'unknown flag'), 'copy').retryable, false);
+    assert.equal(classifyRcloneFailure(failed(1, '1 differences found'), 'check').retryable, true);
+  });
+
+  it('rc 端口被占用时可重试', () => {
+    const result = failed(
+      1,
+      'Failed to start remote control: listen tcp 127.0.0.1:5572: bind: address already in use'
+    );
+    assert.deepEqual(classifyRcloneFailure(result, 'copy'), {
+      retryable: true,
+      reason: 'rclone 远程控制端口被占用',
+    });
+  });
+
+  it('stderr 中的致命错误优先于退出码', () => {
+    const result = failed(5, "Failed to create file system: didn't find section in config file");
+    assert.equal(classifyRcloneFailure(result, 'copy').retryable, false);
+  });
+});
@@ -0,0 +1,231 @@
+// test/remote-audit.test.ts
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { DestinationStatus, TaskStatus } from '@prisma/client';
+import { saveTaskManifest } from '../src/core/checksum-manifest';
+import { compareWithExpectedSize, compareWithManifest } from '../src/core/remote-audit';
+import { TaskProcessorService } from '../src/core/task-processor.service';
+import { TestDatabase, createTask, createTestDatabase } from './db';
+import { installFakeRclone, makeAppConfig } from './helpers';
+
+const HASH_A = 'a'.repeat(64);
+const HASH_B = 'b'.repeat(64);
+
+// 假的 rclone lsjson: 按远程路径 (最后一个参数) 决定返回的内容
+const FAKE_RCLONE = `
+for remote in "$@"; do :; done
+case "$remote" in
+  *missing*)
+    echo 'ERROR : directory not found' >&2
+    exit 3
+    ;;
+  *unreachable*)
+    echo 'ERROR : connection reset by peer' >&2
+    exit 5
+    ;;
+  *corrupt*)
+    echo '[{"Path":"a.mkv","Size":5,"Hashes":{"sha256":"${HASH_A}"}},{"Path":"b.srt","Size":2}]'
+    ;;
+  *)
+    echo '[{"Path":"a.mkv","Size":5,"Hashes":{"sha256":"${HASH_A}"}},{"Path":"b.srt","Size":3}]'
+    ;;
+esac
+`;
+
+describe('compareWithManifest', () => {
+  const manifest = [
+    { relativePath: 'a.mkv', size: 5, sha256: HASH_A },
+    { relativePath: 'b.srt', size: 3, sha256: HASH_B },
+  ];
+
+  it('文件齐全且大小、哈希一致时通过，远程多出的文件不算问题', () => {
+    const comparison = compareWithManifest(
+      manifest,
+      [
+        { path: 'a.mkv', size: 5, sha256: HASH_A.toUpperCase() },
+        { path: 'b.srt', size: 3 },
+        { path: 'extra.nfo', size: 1 },
+      ],
+      false
+    );
+    assert.deepEqual(comparison, {
+      ok: true,
+      method: 'manifest (size+sha256)',
+      problems: [],
+      checkedFiles: 2,
+    });
+  });
+
+  it('报告缺失、大小不一致和哈希不一致', () => {
+    const comparison = compareWithManifest(
+      manifest,
+      [{ path: 'a.mkv', size: 5, sha256: HASH_B }],
+      false
+    );
+    assert.equal(comparison.ok, false);
+    assert.deepEqual(comparison.problems, ['SHA-256 不一致: a.mkv', '缺失: b.srt']);
+  });
+
+  it('单个文件不要求远程文件名与清单一致', () => {
+    const comparison = compareWithManifest(
+      [{ relativePath: 'Movie (2020).mkv', size: 5, sha256: HASH_A }],
+      [{ path: 'Movie 2020.mkv', size: 5 }],
+      true
+    );
+    assert.equal(comparison.ok, true);
+    assert.equal(comparison.method, 'manifest (size)');
+  });
+});
+
+describe('compareWithExpectedSize', () => {
+  it('远程总大小不小于上传大小时通过', () => {
+    const files = [
+      { path: 'a', size: 6 },
+      { path: 'b', size: 4 },
+    ];
+    assert.equal(compareWithExpectedSize(files, BigInt(10)).ok, true);
+    assert.equal(compareWithExpectedSize(files, null).ok, true);
+  });
+
+  it('远程为空或总大小变小时失败', () => {
+    assert.deepEqual(compareWithExpectedSize([], 10).problems, ['远程没有任何文件']);
+    assert.equal(compareWithExpectedSize([{ path: 'a', size: 6 }], 10).ok, false);
+  });
+});
+
+describe('TaskProcessorService.runRemoteAudit', () => {
+  let db: TestDatabase;
+  let uninstall: () => Promise<void>;
+
+  before(async () => {
+    db = await createTestDatabase();
+    uninstall = await installFakeRclone(FAKE_RCLONE);
+  });
+  after(async () => {
+    await uninstall();
+    await db.cleanup();
+  });
+
+  // 创建一个已完成、带清单和一个已验证目标的任务
+  const createCompletedTask = async (remotePath: string, remoteVerifiedAt: Date | null = null) => {
+    const task = await createTask(db.prisma, {
+      status: TaskStatus.COMPLETED,
+      localPath: '/downloads/deleted',
+      remoteVerifiedAt,
+    });
+    await db.prisma.taskDestination.create({
+      data: {
+        taskId: task.id,
+        destination: 'default',
+        remotePath,
+        status: DestinationStatus.VERIFIED,
+        uploadedAt: new Date(),
+        verifiedAt: new Date(),
+      },
+    });
+    await saveTaskManifest(db.prisma, task.id, [
+      { relativePath: 'a.mkv', size: 5, sha256: HASH_A },
+      { relativePath: 'b.srt', size: 3, sha256: HASH_B },
+    ]);
+    return task;
+  };
+
+  it('按结果更新任务: 通过、发现问题 (REMOTE_AUDIT_FAILED) 或无法确认', async () => {
+    const intact = await createCompletedTask('remote:intact');
+    const corrupt = await createCompletedTask('remote:corrupt');
+    const missing = await createCompletedTask('remote:missing');
+    const unreachable = await createCompletedTask('remote:unreachable');
+    // 最近刚确认过的任务不在本次巡检范围内
+    const recent = await createCompletedTask('remote:missing-recent', new Date());
+
+    const processor = new TaskProcessorService(
+      makeAppConfig({ remoteAudit: { minIntervalDays: 7, batchSize: 10 } }),
+      db.prisma
+    );
+    const result = await processor.runRemoteAudit();
+    assert.deepEqual(result, { checked: 4, passed: 1, failed: 2, inconclusive: 1 });
+
+    const load = (id: string) =>
+      db.prisma.torrentTask.findUniqueOrThrow({ where: { id }, include: { destinations: true } });
+
+    const intactAfter = await load(intact.id);
+    assert.equal(intactAfter.status, TaskStatus.COMPLETED);
+    assert.ok(intactAfter.remoteVerifiedAt);
+    assert.ok(intactAfter.destinations[0].auditedAt);
+
+    const corruptAfter = await load(corrupt.id);
+    assert.equal(corruptAfter.status, TaskStatus.REMOTE_AUDIT_FAILED);
+    assert.match(corruptAfter.errorMessage ?? '', /大小不一致: b\.srt/);
+    assert.equal(corruptAfter.destinations[0].status, DestinationStatus.FAILED);
+    assert.equal(corruptAfter.destinations[0].uploadedAt, null);
+
+    const missingAfter = await load(missing.id);
+    assert.equal(missingAfter.status, TaskStatus.REMOTE_AUDIT_FAILED);
+    assert.match(missingAfter.errorMessage ?? '', /远程路径不存在/);
+
+    const unreachableAfter = await load(unreachable.id);
+    assert.equal(unreachableAfter.status, TaskStatus.COMPLETED);
+    assert.ok(unreachableAfter.lastAuditAt);
+    assert.equal(unreachableAfter.remoteVerifiedAt, null);
+
+    assert.equal((await load(recent.id)).lastAuditAt, null);
+
+    // 无法确认的任务没有更新确认时间，下次巡检优先再次检查
+    const next = await processor.runRemoteAudit(1);
+    assert.deepEqual(next, { checked: 1, passed: 0, failed: 0, inconclusive: 1 });
+  });
+});
+
+describe('远程巡检失败后的手动重试', () => {
+  let db: TestDatabase;
+  let tempDir: string;
+  let processor: TaskProcessorService;
+
+  before(async () => {
+    db = await createTestDatabase();
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'qbcs-audit-test-'));
+    processor = new TaskProcessorService(makeAppConfig(), db.prisma);
+  });
+  after(async () => {
+    await db.cleanup();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('本地内容已删除时拒绝重试，任务保持 REMOTE_AUDIT_FAILED', async () => {
+    const task = await createTask(db.prisma, {
+      status: TaskStatus.REMOTE_AUDIT_FAILED,
+      localPath: path.join(tempDir, 'deleted'),
+    });
+    const result = await processor.retryTask(task.id);
+    assert.equal(result.success, false);
+    assert.match(result.message, /已不存在.*重新添加该种子/);
+    const current = await db.prisma.torrentTask.findUniqueOrThrow({ where: { id: task.id } });
+    assert.equal(current.status, TaskStatus.REMOTE_AUDIT_FAILED);
+  });
+
+  it('跳过后再重试同样会检查本地内容', async () => {
+    const task = await createTask(db.prisma, {
+      status: TaskStatus.SKIPPED,
+      lastFailedStatus: TaskStatus.REMOTE_AUDIT_FAILED,
+      localPath: path.join(tempDir, 'deleted'),
+    });
+    assert.equal((await processor.retryTask(task.id)).success, false);
+  });
+
+  it('本地内容仍在时重新上传', async () => {
+    const localPath = path.join(tempDir, 'kept');
+    await fs.mkdir(localPath);
+    const task = await createTask(db.prisma, {
+      status: TaskStatus.REMOTE_AUDIT_FAILED,
+      localPath,
+      uploadAttempts: 3,
+    });
+    const result = await processor.retryTask(task.id);
+    assert.equal(result.success, true);
+    assert.equal(result.task?.status, TaskStatus.PENDING_UPLOAD);
+    assert.equal(result.task?.uploadAttempts, 0);
+  });
+});
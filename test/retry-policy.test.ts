@@ -0,0 +1,48 @@
+// test/retry-policy.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { IRetryPolicy } from '../src/interfaces/config.types';
+import { computeBackoffDelayMs } from '../src/core/retry-policy';
+
+const policy: IRetryPolicy = {
+  maxUploadAttempts: 5,
+  maxVerificationAttempts: 3,
+  maxDeleteAttempts: 3,
+  backoffBaseMs: 1000,
+  backoffMaxMs: 10000,
+  backoffMultiplier: 2,
+  backoffJitter: 0.2,
+};
+
+describe('computeBackoffDelayMs', () => {
+  const noJitter = () => 0.5;
+
+  it('按倍数指数增长', () => {
+    assert.equal(computeBackoffDelayMs(policy, 1, noJitter), 1000);
+    assert.equal(computeBackoffDelayMs(policy, 2, noJitter), 2000);
+    assert.equal(computeBackoffDelayMs(policy, 3, noJitter), 4000);
+  });
+
+  it('不超过上限', () => {
+    assert.equal(computeBackoffDelayMs(policy, 10, noJitter), 10000);
+  });
+
+  it('抖动在 ±backoffJitter 范围内', () => {
+    assert.equal(
+      computeBackoffDelayMs(policy, 2, () => 0),
+      1600
+    );
+    assert.equal(
+      computeBackoffDelayMs(policy, 2, () => 1),
+      2400
+    );
+  });
+
+  it('attempt 小于 1 时按第一次处理，结果不为负', () => {
+    assert.equal(computeBackoffDelayMs(policy, 0, noJitter), 1000);
+    assert.equal(
+      computeBackoffDelayMs({ ...policy, backoffJitter: 2 }, 1, () => 0),
+      0
+    );
+  });
+});
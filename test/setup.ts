@@ -0,0 +1,35 @@
+// test/setup.ts
+// 通过 --require 在每个测试进程中先于测试文件加载: 提供加载配置所必需的环境变量，
+// 并切换到临时工作目录，使日志文件 (logs/) 不会写入仓库，也不会读取仓库中的 .env。
+// 测试运行器的主进程 (带 --test 参数) 需要在仓库目录下查找测试文件，不做任何设置
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+const TEST_ENV: Record<string, string> = {
+  NODE_ENV: 'test',
+  LOG_LEVEL: 'error',
+  DATABASE_URL: 'file:./test.db',
+  QB_URL: 'http://127.0.0.1:1',
+  RCLONE_REMOTE_NAME: 'remote',
+};
+
+if (!process.execArgv.includes('--test')) {
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qbcs-test-'));
+  process.chdir(workDir);
+  process.on('exit', () => fs.rmSync(workDir, { recursive: true, force: true }));
+
+  for (const [key, value] of Object.entries(TEST_ENV)) {
+    process.env[key] ??= value;
+  }
+
+  // 测试会刻意触发各种失败，控制台不输出日志 (需在设置环境变量之后加载日志服务)
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  const logger: import('winston').Logger = require('../src/services/logger.service').default;
+  for (const transport of logger.transports) {
+    transport.silent = true;
+  }
+  // 日志服务会接管未捕获的异常且不退出进程，测试中需要让它们照常使测试失败
+  logger.exceptions.unhandle();
+  logger.rejections.unhandle();
+}
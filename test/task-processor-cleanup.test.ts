@@ -0,0 +1,121 @@
+// test/task-processor-cleanup.test.ts
+import { after, afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { TaskStatus } from '@prisma/client';
+import { TaskProcessorService } from '../src/core/task-processor.service';
+import { TestDatabase, createTask, createTestDatabase } from './db';
+import { AppConfigOverrides, makeAppConfig } from './helpers';
+
+const exists = (target: string) =>
+  fs.access(target).then(
+    () => true,
+    () => false
+  );
+
+describe('TaskProcessorService 验证后的清理阶段', () => {
+  let db: TestDatabase;
+  let savePath: string;
+  let localPath: string;
+
+  before(async () => {
+    db = await createTestDatabase();
+  });
+  beforeEach(async () => {
+    await db.prisma.torrentTask.deleteMany();
+    // qB 的保存目录下，种子内容位于一层子目录中: <savePath>/Show/Season 1
+    savePath = await fs.mkdtemp(path.join(os.tmpdir(), 'qbcs-save-'));
+    localPath = path.join(savePath, 'Show', 'Season 1');
+    await fs.mkdir(localPath, { recursive: true });
+    await fs.writeFile(path.join(localPath, 'E01.mkv'), 'video');
+  });
+  afterEach(async () => {
+    mock.restoreAll();
+    await fs.rm(savePath, { recursive: true, force: true });
+  });
+  after(async () => {
+    await db.cleanup();
+  });
+
+  const newProcessor = (behavior: AppConfigOverrides['behavior'] = {}) => {
+    const processor = new TaskProcessorService(makeAppConfig({ behavior }), db.prisma);
+    const qbService = processor['qbInstances'].get('default')!.qbService;
+    const deleteTorrents = mock.method(qbService, 'deleteTorrents', async () => undefined);
+    return { processor, deleteTorrents };
+  };
+  const createVerifiedTask = () =>
+    createTask(db.prisma, { status: TaskStatus.UPLOAD_VERIFIED_SUCCESS, savePath, localPath });
+  const getTask = (id: string) => db.prisma.torrentTask.findUniqueOrThrow({ where: { id } });
+
+  it('依次删除本地内容、清理空目录并移除 qB 任务，最后标记为 COMPLETED', async () => {
+    const task = await createVerifiedTask();
+    const { processor, deleteTorrents } = newProcessor();
+
+    await processor['executePostVerificationSteps'](task);
+
+    assert.equal((await getTask(task.id)).status, TaskStatus.COMPLETED);
+    assert.equal(await exists(localPath), false);
+    // 内容所在的空目录被清理，保存目录本身保留
+    assert.equal(await exists(path.join(savePath, 'Show')), false);
+    assert.equal(await exists(savePath), true);
+    assert.equal(deleteTorrents.mock.callCount(), 1);
+    // 只移除 qB 中的任务，不让 qB 删除文件
+    assert.deepEqual(deleteTorrents.mock.calls[0].arguments, [[task.hash], false]);
+
+    const events = await db.prisma.taskEvent.findMany({
+      where: { taskId: task.id },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    });
+    assert.deepEqual(
+      events.map((event) => event.toStatus),
+      [
+        TaskStatus.DELETING_LOCAL,
+        TaskStatus.LOCAL_DELETED,
+        TaskStatus.DELETING_QB_TASK,
+        TaskStatus.QB_TASK_DELETED,
+        TaskStatus.COMPLETED,
+      ]
+    );
+  });
+
+  it('移除 qB 任务失败时进入退避重试，重试时不再重复删除本地内容', async () => {
+    const task = await createVerifiedTask();
+    const { processor, deleteTorrents } = newProcessor();
+    deleteTorrents.mock.mockImplementationOnce(async () => {
+      throw new Error('connect ECONNREFUSED');
+    });
+
+    await processor['executePostVerificationSteps'](task);
+    const failedTask = await getTask(task.id);
+    assert.equal(failedTask.status, TaskStatus.DELETE_QB_TASK_FAILED);
+    assert.equal(failedTask.deleteLocalAttempts, 1);
+    assert.equal(failedTask.deleteQbTaskAttempts, 1);
+    assert.match(failedTask.errorMessage ?? '', /ECONNREFUSED/);
+    assert.ok(failedTask.nextAttemptAt && failedTask.nextAttemptAt > new Date());
+    assert.equal(await exists(localPath), false);
+
+    await processor['executePostVerificationSteps'](failedTask);
+    const completedTask = await getTask(task.id);
+    assert.equal(completedTask.status, TaskStatus.COMPLETED);
+    assert.equal(completedTask.deleteLocalAttempts, 1);
+    assert.equal(completedTask.deleteQbTaskAttempts, 2);
+  });
+
+  it('关闭删除本地文件与删除 qB 任务时保留两者，任务同样完成', async () => {
+    const task = await createVerifiedTask();
+    const { processor, deleteTorrents } = newProcessor({
+      deleteLocalFiles: false,
+      deleteQbTask: false,
+    });
+
+    await processor['executePostVerificationSteps'](task);
+
+    const completedTask = await getTask(task.id);
+    assert.equal(completedTask.status, TaskStatus.COMPLETED);
+    assert.equal(completedTask.deleteLocalAttempts, 0);
+    assert.equal(await exists(path.join(localPath, 'E01.mkv')), true);
+    assert.equal(deleteTorrents.mock.callCount(), 0);
+  });
+});
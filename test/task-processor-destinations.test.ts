@@ -0,0 +1,153 @@
+// test/task-processor-destinations.test.ts
+import { after, afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { DestinationStatus, TaskStatus, TorrentTask } from '@prisma/client';
+import { TaskProcessorService } from '../src/core/task-processor.service';
+import { UploadResult, VerificationResult } from '../src/core/uploader.service';
+import { TestDatabase, createTask, createTestDatabase } from './db';
+import { makeAppConfig } from './helpers';
+
+describe('TaskProcessorService 多目标上传与验证', () => {
+  let db: TestDatabase;
+  let processor: TaskProcessorService;
+  // 按远程路径决定的 rclone 结果，未列出的路径成功
+  let failingRemotes: Set<string>;
+  let uploadedRemotes: string[];
+
+  before(async () => {
+    db = await createTestDatabase();
+  });
+  beforeEach(async () => {
+    await db.prisma.torrentTask.deleteMany();
+    failingRemotes = new Set();
+    uploadedRemotes = [];
+    processor = new TaskProcessorService(
+      makeAppConfig({ behavior: { buildManifest: false } }),
+      db.prisma
+    );
+    mock.method(
+      processor['uploaderService'],
+      'upload',
+      async (_localPath: string, remotePath: string): Promise<UploadResult> => {
+        uploadedRemotes.push(remotePath);
+        return failingRemotes.has(remotePath)
+          ? { success: false, message: '配额已满', exitCode: 1, retryable: true }
+          : { success: true, exitCode: 0, durationMs: 10 };
+      }
+    );
+    mock.method(
+      processor['uploaderService'],
+      'verifyUpload',
+      async (_localPath: string, remotePath: string): Promise<VerificationResult> =>
+        failingRemotes.has(remotePath)
+          ? { verified: false, message: '哈希不一致', exitCode: 1, retryable: true }
+          : { verified: true, method: 'hash (md5)', exitCode: 0 }
+    );
+  });
+  afterEach(() => {
+    mock.restoreAll();
+  });
+  after(async () => {
+    await db.cleanup();
+  });
+
+  // 一个必需目标 main 与一个非必需目标 backup
+  const createTaskWithDestinations = async (
+    status: TaskStatus,
+    destinationStatus: DestinationStatus = DestinationStatus.PENDING
+  ) => {
+    const task = await createTask(db.prisma, { status });
+    const uploadedAt = destinationStatus === DestinationStatus.PENDING ? null : new Date();
+    for (const [destination, required] of [
+      ['main', true],
+      ['backup', false],
+    ] as const) {
+      await db.prisma.taskDestination.create({
+        data: {
+          taskId: task.id,
+          destination,
+          remotePath: `${destination}:/${task.name}`,
+          required,
+          status: destinationStatus,
+          uploadedAt,
+        },
+      });
+    }
+    return task;
+  };
+  const getTask = (id: string) => db.prisma.torrentTask.findUniqueOrThrow({ where: { id } });
+  const getDestinationStatuses = async (task: TorrentTask) =>
+    Object.fromEntries(
+      (await db.prisma.taskDestination.findMany({ where: { taskId: task.id } })).map(
+        (destination) => [destination.destination, destination.status]
+      )
+    );
+
+  it('非必需目标上传失败不阻止任务进入验证阶段', async () => {
+    const task = await createTaskWithDestinations(TaskStatus.PENDING_UPLOAD);
+    failingRemotes.add(`backup:/${task.name}`);
+
+    await processor['executeUploadStep'](task);
+
+    assert.equal((await getTask(task.id)).status, TaskStatus.PENDING_VERIFICATION);
+    assert.deepEqual(await getDestinationStatuses(task), {
+      main: DestinationStatus.UPLOADED,
+      backup: DestinationStatus.FAILED,
+    });
+    const event = await db.prisma.taskEvent.findFirstOrThrow({
+      where: { taskId: task.id, toStatus: TaskStatus.PENDING_VERIFICATION },
+    });
+    assert.match(event.message ?? '', /非必需目标上传失败: backup/);
+  });
+
+  it('必需目标上传失败时任务失败，重试时不重复上传已成功的目标', async () => {
+    const task = await createTaskWithDestinations(TaskStatus.PENDING_UPLOAD);
+    failingRemotes.add(`main:/${task.name}`);
+
+    await processor['executeUploadStep'](task);
+    const failedTask = await getTask(task.id);
+    assert.equal(failedTask.status, TaskStatus.UPLOAD_FAILED);
+    assert.match(failedTask.errorMessage ?? '', /\[main\] 配额已满/);
+    assert.deepEqual(await getDestinationStatuses(task), {
+      main: DestinationStatus.FAILED,
+      backup: DestinationStatus.UPLOADED,
+    });
+
+    failingRemotes.clear();
+    uploadedRemotes = [];
+    await processor['executeUploadStep'](failedTask);
+    assert.deepEqual(uploadedRemotes, [`main:/${task.name}`]);
+    assert.equal((await getTask(task.id)).status, TaskStatus.PENDING_VERIFICATION);
+  });
+
+  it('非必需目标验证失败不阻止任务通过验证', async () => {
+    const task = await createTaskWithDestinations(
+      TaskStatus.PENDING_VERIFICATION,
+      DestinationStatus.UPLOADED
+    );
+    failingRemotes.add(`backup:/${task.name}`);
+
+    await processor['executeVerificationStep'](task);
+
+    assert.equal((await getTask(task.id)).status, TaskStatus.UPLOAD_VERIFIED_SUCCESS);
+    assert.deepEqual(await getDestinationStatuses(task), {
+      main: DestinationStatus.VERIFIED,
+      backup: DestinationStatus.FAILED,
+    });
+  });
+
+  it('必需目标验证失败时任务验证失败', async () => {
+    const task = await createTaskWithDestinations(
+      TaskStatus.PENDING_VERIFICATION,
+      DestinationStatus.UPLOADED
+    );
+    failingRemotes.add(`main:/${task.name}`);
+
+    await processor['executeVerificationStep'](task);
+
+    const failedTask = await getTask(task.id);
+    assert.equal(failedTask.status, TaskStatus.VERIFICATION_FAILED);
+    assert.match(failedTask.errorMessage ?? '', /\[main\] 哈希不一致/);
+    assert.equal((await getDestinationStatuses(task)).backup, DestinationStatus.VERIFIED);
+  });
+});
@@ -0,0 +1,105 @@
+// test/task-processor-manual-actions.test.ts
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { TaskStatus } from '@prisma/client';
+import { TaskProcessorService } from '../src/core/task-processor.service';
+import { TestDatabase, createTask, createTestDatabase } from './db';
+import { makeAppConfig } from './helpers';
+
+describe('TaskProcessorService 手动重试与跳过', () => {
+  let db: TestDatabase;
+  let processor: TaskProcessorService;
+  let localPath: string;
+
+  before(async () => {
+    db = await createTestDatabase();
+    localPath = await fs.mkdtemp(path.join(os.tmpdir(), 'qbcs-content-'));
+  });
+  beforeEach(async () => {
+    await db.prisma.torrentTask.deleteMany();
+    processor = new TaskProcessorService(makeAppConfig(), db.prisma);
+  });
+  after(async () => {
+    await fs.rm(localPath, { recursive: true, force: true });
+    await db.cleanup();
+  });
+
+  const getTask = (id: string) => db.prisma.torrentTask.findUniqueOrThrow({ where: { id } });
+
+  it('跳过时记录所处阶段，重试后回到该阶段并重置尝试次数', async () => {
+    const task = await createTask(db.prisma, {
+      status: TaskStatus.DELETE_LOCAL_FAILED,
+      uploadAttempts: 1,
+      verificationAttempts: 1,
+      deleteLocalAttempts: 2,
+      nextAttemptAt: new Date(Date.now() + 60 * 1000),
+    });
+
+    const skipped = await processor.skipTask(task.id);
+    assert.equal(skipped.success, true);
+    const skippedTask = await getTask(task.id);
+    assert.equal(skippedTask.status, TaskStatus.SKIPPED);
+    assert.equal(skippedTask.lastFailedStatus, TaskStatus.DELETE_LOCAL_FAILED);
+    assert.equal(skippedTask.nextAttemptAt, null);
+
+    const retried = await processor.retryTask(task.id);
+    assert.equal(retried.success, true);
+    const retriedTask = await getTask(task.id);
+    // 本地文件可能已部分删除，不会回到上传阶段
+    assert.equal(retriedTask.status, TaskStatus.DELETE_LOCAL_FAILED);
+    assert.equal(retriedTask.uploadAttempts, 0);
+    assert.equal(retriedTask.verificationAttempts, 0);
+    assert.equal(retriedTask.deleteLocalAttempts, 0);
+    assert.equal(retriedTask.errorMessage, null);
+    const event = await db.prisma.taskEvent.findFirstOrThrow({
+      where: { taskId: task.id, fromStatus: TaskStatus.SKIPPED },
+    });
+    assert.match(event.message ?? '', /手动重试/);
+  });
+
+  it('从 ERROR 重试时回到失败发生的阶段', async () => {
+    const task = await createTask(db.prisma, {
+      status: TaskStatus.ERROR,
+      lastFailedStatus: TaskStatus.VERIFICATION_FAILED,
+      verificationAttempts: 3,
+    });
+
+    assert.equal((await processor.retryTask(task.id)).success, true);
+    const retriedTask = await getTask(task.id);
+    assert.equal(retriedTask.status, TaskStatus.PENDING_VERIFICATION);
+    assert.equal(retriedTask.verificationAttempts, 0);
+  });
+
+  it('跳过尚未上传的任务后重试，从上传阶段重新开始', async () => {
+    const task = await createTask(db.prisma, { status: TaskStatus.PENDING_UPLOAD, localPath });
+
+    assert.equal((await processor.skipTask(task.id)).success, true);
+    assert.equal((await getTask(task.id)).lastFailedStatus, TaskStatus.UPLOAD_FAILED);
+    assert.equal((await processor.retryTask(task.id)).success, true);
+    assert.equal((await getTask(task.id)).status, TaskStatus.PENDING_UPLOAD);
+  });
+
+  it('拒绝处理中、已完成或不存在的任务', async () => {
+    const uploading = await createTask(db.prisma, { status: TaskStatus.UPLOADING });
+    const active = await createTask(db.prisma, { status: TaskStatus.UPLOAD_FAILED, localPath });
+    const completed = await createTask(db.prisma, { status: TaskStatus.COMPLETED });
+    processor['activeTasks'].set(active.id, 'upload');
+
+    // 中间状态的任务可能正由另一个进程处理
+    assert.equal((await processor.skipTask(uploading.id)).success, false);
+    assert.equal((await processor.retryTask(uploading.id)).success, false);
+    assert.equal((await processor.skipTask(active.id)).success, false);
+    assert.equal((await processor.retryTask(active.id)).success, false);
+    assert.equal((await processor.skipTask(completed.id)).success, false);
+    assert.equal((await processor.retryTask(completed.id)).success, false);
+    assert.equal((await processor.retryTask('missing')).notFound, true);
+    assert.equal((await processor.skipTask('missing')).notFound, true);
+
+    assert.equal((await getTask(uploading.id)).status, TaskStatus.UPLOADING);
+    assert.equal((await getTask(active.id)).status, TaskStatus.UPLOAD_FAILED);
+    assert.equal((await getTask(completed.id)).status, TaskStatus.COMPLETED);
+  });
+});
@@ -0,0 +1,100 @@
+// test/task-processor-recovery.test.ts
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TaskStatus } from '@prisma/client';
+import { TaskProcessorService } from '../src/core/task-processor.service';
+import { TestDatabase, createTask, createTestDatabase } from './db';
+import { makeAppConfig } from './helpers';
+
+describe('TaskProcessorService 中断任务回收', () => {
+  let db: TestDatabase;
+  const leaseTimeoutMs = 60 * 1000;
+  const longAgo = () => new Date(Date.now() - 2 * leaseTimeoutMs);
+
+  before(async () => {
+    db = await createTestDatabase();
+  });
+  beforeEach(async () => {
+    await db.prisma.torrentTask.deleteMany();
+  });
+  after(async () => {
+    await db.cleanup();
+  });
+
+  const newProcessor = () =>
+    new TaskProcessorService(makeAppConfig({ taskProcessor: { leaseTimeoutMs } }), db.prisma);
+  const getStatus = async (id: string) =>
+    (await db.prisma.torrentTask.findUniqueOrThrow({ where: { id } })).status;
+
+  it('启动时把所有中间状态的任务重置为对应阶段的入口状态，并记录状态变更', async () => {
+    const expected: [TaskStatus, TaskStatus][] = [
+      [TaskStatus.UPLOADING, TaskStatus.PENDING_UPLOAD],
+      [TaskStatus.VERIFYING, TaskStatus.PENDING_VERIFICATION],
+      [TaskStatus.DELETING_LOCAL, TaskStatus.UPLOAD_VERIFIED_SUCCESS],
+      [TaskStatus.DELETING_QB_TASK, TaskStatus.LOCAL_DELETED],
+    ];
+    // 启动恢复不看租约，刚刚更新过的任务同样会被重置
+    const tasks = await Promise.all(
+      expected.map(([status]) => createTask(db.prisma, { status, lastAttemptAt: new Date() }))
+    );
+    const untouched = await createTask(db.prisma, { status: TaskStatus.UPLOAD_FAILED });
+
+    assert.equal(await newProcessor()['recoverAbandonedTasks']('startup'), 4);
+
+    for (const [index, [fromStatus, toStatus]] of expected.entries()) {
+      assert.equal(await getStatus(tasks[index].id), toStatus);
+      const event = await db.prisma.taskEvent.findFirstOrThrow({
+        where: { taskId: tasks[index].id },
+      });
+      assert.equal(event.fromStatus, fromStatus);
+      assert.equal(event.toStatus, toStatus);
+      assert.match(event.message ?? '', /上次运行被中断/);
+    }
+    assert.equal(await getStatus(untouched.id), TaskStatus.UPLOAD_FAILED);
+  });
+
+  it('租约模式只回收超过租约时长未更新的任务', async () => {
+    const stale = await createTask(db.prisma, {
+      status: TaskStatus.VERIFYING,
+      lastAttemptAt: longAgo(),
+    });
+    const fresh = await createTask(db.prisma, {
+      status: TaskStatus.VERIFYING,
+      lastAttemptAt: new Date(),
+    });
+
+    assert.equal(await newProcessor()['recoverAbandonedTasks']('lease'), 1);
+    assert.equal(await getStatus(stale.id), TaskStatus.PENDING_VERIFICATION);
+    assert.equal(await getStatus(fresh.id), TaskStatus.VERIFYING);
+  });
+
+  it('不回收本进程正在处理的任务', async () => {
+    const task = await createTask(db.prisma, {
+      status: TaskStatus.UPLOADING,
+      lastAttemptAt: longAgo(),
+    });
+    const processor = newProcessor();
+    processor['activeTasks'].set(task.id, 'upload');
+
+    assert.equal(await processor['recoverAbandonedTasks']('startup'), 0);
+    assert.equal(await processor['recoverAbandonedTasks']('lease'), 0);
+    assert.equal(await getStatus(task.id), TaskStatus.UPLOADING);
+  });
+
+  it('上传进度写入会刷新租约', async () => {
+    const task = await createTask(db.prisma, {
+      status: TaskStatus.UPLOADING,
+      lastAttemptAt: longAgo(),
+    });
+    const processor = newProcessor();
+    await processor['saveUploadProgress'](task, {
+      bytesTransferred: 10,
+      totalBytes: 100,
+      percent: 10,
+      speedBps: 1,
+      etaSeconds: 90,
+    });
+    assert.equal(await processor['recoverAbandonedTasks']('lease'), 0);
+    assert.equal(await getStatus(task.id), TaskStatus.UPLOADING);
+  });
+});
@@ -0,0 +1,171 @@
+// test/task-processor-retry.test.ts
+import { after, afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { TaskStatus } from '@prisma/client';
+import { TaskProcessorService } from '../src/core/task-processor.service';
+import { UploadResult } from '../src/core/uploader.service';
+import { TestDatabase, createTask, createTestDatabase } from './db';
+import { makeAppConfig } from './helpers';
+
+describe('TaskProcessorService 失败重试与退避', () => {
+  let db: TestDatabase;
+  const backoffBaseMs = 60 * 1000;
+  const maxUploadAttempts = 3;
+
+  before(async () => {
+    db = await createTestDatabase();
+  });
+  beforeEach(async () => {
+    await db.prisma.torrentTask.deleteMany();
+  });
+  afterEach(() => {
+    mock.restoreAll();
+  });
+  after(async () => {
+    await db.cleanup();
+  });
+
+  const newProcessor = (uploadResult?: UploadResult) => {
+    const processor = new TaskProcessorService(
+      makeAppConfig({
+        behavior: { buildManifest: false },
+        taskProcessor: {
+          retryPolicy: {
+            ...makeAppConfig().taskProcessor.retryPolicy,
+            maxUploadAttempts,
+            backoffBaseMs,
+            backoffMultiplier: 2,
+            backoffJitter: 0,
+          },
+        },
+      }),
+      db.prisma
+    );
+    if (uploadResult) {
+      mock.method(processor['uploaderService'], 'upload', async () => uploadResult);
+    }
+    const notifyTask = mock.method(processor['mailerService'], 'notifyTask', async () => undefined);
+    return { processor, notifyTask };
+  };
+  const getTask = (id: string) => db.prisma.torrentTask.findUniqueOrThrow({ where: { id } });
+  const retryableFailure: UploadResult = {
+    success: false,
+    message: '网络中断',
+    exitCode: 1,
+    retryable: true,
+  };
+
+  it('可重试的失败转为 UPLOAD_FAILED，并按尝试次数计算下次重试时间', async () => {
+    const task = await createTask(db.prisma, {
+      status: TaskStatus.UPLOAD_FAILED,
+      uploadAttempts: 1,
+    });
+    const { processor, notifyTask } = newProcessor(retryableFailure);
+
+    const startedAt = Date.now();
+    await processor['executeUploadStep'](task);
+
+    const failedTask = await getTask(task.id);
+    assert.equal(failedTask.status, TaskStatus.UPLOAD_FAILED);
+    assert.equal(failedTask.lastFailedStatus, TaskStatus.UPLOAD_FAILED);
+    assert.equal(failedTask.uploadAttempts, 2);
+    assert.match(failedTask.errorMessage ?? '', /网络中断/);
+    // 第 2 次失败后等待 base * multiplier
+    const delayMs = failedTask.nextAttemptAt!.getTime() - startedAt;
+    assert.ok(delayMs >= 2 * backoffBaseMs && delayMs < 2 * backoffBaseMs + 5000, `${delayMs}`);
+
+    const event = await db.prisma.taskEvent.findFirstOrThrow({
+      where: { taskId: task.id, toStatus: TaskStatus.UPLOAD_FAILED },
+    });
+    assert.equal(event.attempt, 2);
+    assert.equal(event.exitCode, 1);
+    assert.equal(notifyTask.mock.callCount(), 0);
+  });
+
+  it('用尽最大尝试次数后转为 ERROR 并记录失败阶段', async () => {
+    const task = await createTask(db.prisma, {
+      status: TaskStatus.UPLOAD_FAILED,
+      uploadAttempts: maxUploadAttempts - 1,
+    });
+    const { processor, notifyTask } = newProcessor(retryableFailure);
+
+    await processor['executeUploadStep'](task);
+
+    const errorTask = await getTask(task.id);
+    assert.equal(errorTask.status, TaskStatus.ERROR);
+    assert.equal(errorTask.lastFailedStatus, TaskStatus.UPLOAD_FAILED);
+    assert.equal(errorTask.nextAttemptAt, null);
+    assert.match(errorTask.errorMessage ?? '', /已达到最大尝试次数 \(3\/3\)/);
+    assert.equal(notifyTask.mock.callCount(), 1);
+    assert.equal(notifyTask.mock.calls[0].arguments[0], 'retries_exhausted');
+  });
+
+  it('不可重试的失败直接转为 ERROR', async () => {
+    const task = await createTask(db.prisma, { status: TaskStatus.PENDING_UPLOAD });
+    const { processor, notifyTask } = newProcessor({
+      success: false,
+      message: '远程配置不存在',
+      exitCode: 1,
+      retryable: false,
+    });
+
+    await processor['executeUploadStep'](task);
+
+    const errorTask = await getTask(task.id);
+    assert.equal(errorTask.status, TaskStatus.ERROR);
+    assert.equal(errorTask.uploadAttempts, 1);
+    assert.match(errorTask.errorMessage ?? '', /不可重试的错误/);
+    assert.equal(notifyTask.mock.calls[0].arguments[0], 'error');
+  });
+
+  it('只领取退避时间已到且尝试次数未用尽的失败任务', async () => {
+    const due = await createTask(db.prisma, {
+      status: TaskStatus.UPLOAD_FAILED,
+      uploadAttempts: 1,
+      nextAttemptAt: new Date(Date.now() - 1000),
+    });
+    const legacy = await createTask(db.prisma, {
+      status: TaskStatus.UPLOAD_FAILED,
+      uploadAttempts: 1,
+      nextAttemptAt: null,
+    });
+    await createTask(db.prisma, {
+      status: TaskStatus.UPLOAD_FAILED,
+      uploadAttempts: 1,
+      nextAttemptAt: new Date(Date.now() + backoffBaseMs),
+    });
+    await createTask(db.prisma, {
+      status: TaskStatus.UPLOAD_FAILED,
+      uploadAttempts: maxUploadAttempts,
+      nextAttemptAt: null,
+    });
+    const { processor } = newProcessor();
+
+    const candidates = await db.prisma.torrentTask.findMany({
+      where: { OR: processor['getLaneFilters']('upload') },
+    });
+    assert.deepEqual(candidates.map((task) => task.id).sort(), [due.id, legacy.id].sort());
+  });
+
+  it('启动时把尝试次数已用尽的失败任务转为 ERROR，不发送通知', async () => {
+    const exhausted = await createTask(db.prisma, {
+      status: TaskStatus.UPLOAD_FAILED,
+      uploadAttempts: maxUploadAttempts,
+      nextAttemptAt: new Date(Date.now() + backoffBaseMs),
+    });
+    const pending = await createTask(db.prisma, {
+      status: TaskStatus.UPLOAD_FAILED,
+      uploadAttempts: 1,
+    });
+    const { processor, notifyTask } = newProcessor();
+
+    await processor['failExhaustedTasks']();
+
+    const errorTask = await getTask(exhausted.id);
+    assert.equal(errorTask.status, TaskStatus.ERROR);
+    assert.equal(errorTask.lastFailedStatus, TaskStatus.UPLOAD_FAILED);
+    assert.equal(errorTask.nextAttemptAt, null);
+    assert.equal((await getTask(pending.id)).status, TaskStatus.UPLOAD_FAILED);
+    assert.equal(notifyTask.mock.callCount(), 0);
+  });
+});
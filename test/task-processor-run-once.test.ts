@@ -0,0 +1,61 @@
+// test/task-processor-run-once.test.ts
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TaskStatus } from '@prisma/client';
+import { TaskProcessorService } from '../src/core/task-processor.service';
+import { TestDatabase, createTask, createTestDatabase } from './db';
+import { makeAppConfig } from './helpers';
+
+describe('TaskProcessorService.runOnce', () => {
+  let db: TestDatabase;
+
+  before(async () => {
+    db = await createTestDatabase();
+  });
+  after(async () => {
+    await db.cleanup();
+  });
+
+  const leaseTimeoutMs = 60 * 1000;
+  const createUploadingTasks = async () => ({
+    // 上次运行中断后遗留的任务
+    stale: await createTask(db.prisma, {
+      status: TaskStatus.UPLOADING,
+      lastAttemptAt: new Date(Date.now() - 2 * leaseTimeoutMs),
+    }),
+    // 另一个进程 (如守护进程) 正在上传的任务
+    fresh: await createTask(db.prisma, {
+      status: TaskStatus.UPLOADING,
+      lastAttemptAt: new Date(),
+    }),
+  });
+  const getStatus = async (id: string) =>
+    (await db.prisma.torrentTask.findUniqueOrThrow({ where: { id } })).status;
+
+  it('只按租约回收超时的中断任务，不重置其他进程正在处理的任务', async () => {
+    const { stale, fresh } = await createUploadingTasks();
+    const processor = new TaskProcessorService(
+      makeAppConfig({ taskProcessor: { leaseTimeoutMs } }),
+      db.prisma
+    );
+    await processor.runOnce();
+
+    const recovery = await db.prisma.taskEvent.findFirst({
+      where: { taskId: stale.id, fromStatus: TaskStatus.UPLOADING },
+    });
+    assert.equal(recovery?.toStatus, TaskStatus.PENDING_UPLOAD);
+    assert.match(recovery?.message ?? '', /超过租约时长/);
+    assert.notEqual(await getStatus(stale.id), TaskStatus.UPLOADING);
+    assert.equal(await getStatus(fresh.id), TaskStatus.UPLOADING);
+  });
+
+  it('试运行模式下不回收任何任务', async () => {
+    const { stale } = await createUploadingTasks();
+    const processor = new TaskProcessorService(
+      makeAppConfig({ dryRun: true, taskProcessor: { leaseTimeoutMs } }),
+      db.prisma
+    );
+    await processor.runOnce();
+    assert.equal(await getStatus(stale.id), TaskStatus.UPLOADING);
+  });
+});
@@ -0,0 +1,167 @@
+// test/task-processor-shutdown.test.ts
+import { after, afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { TaskStatus, TorrentTask } from '@prisma/client';
+import { TaskProcessorService } from '../src/core/task-processor.service';
+import {
+  UploadOptions,
+  UploadResult,
+  VerificationResult,
+  VerifyOptions,
+} from '../src/core/uploader.service';
+import { TestDatabase, createTask, createTestDatabase } from './db';
+import { AppConfigOverrides, makeAppConfig } from './helpers';
+
+// 轮询直到条件成立，超时则抛出
+async function waitFor(condition: () => boolean | Promise<boolean>, timeoutMs = 5000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await condition())) {
+    if (Date.now() > deadline) throw new Error('等待条件成立超时');
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+// 手动控制何时结束的上传，记录每次调用；上传与验证都在收到取消信号时以可重试的失败结束
+function mockRclone(processor: TaskProcessorService) {
+  const uploads: { localPath: string; finish: (result: UploadResult) => void }[] = [];
+  const cancelled = { success: false, message: 'rclone 已被取消', retryable: true };
+  mock.method(
+    processor['uploaderService'],
+    'upload',
+    (localPath: string, _remotePath: string, _flags: string[], options: UploadOptions) =>
+      new Promise<UploadResult>((resolve) => {
+        uploads.push({ localPath, finish: resolve });
+        options.signal?.addEventListener('abort', () => resolve(cancelled));
+      })
+  );
+  mock.method(
+    processor['uploaderService'],
+    'verifyUpload',
+    (_localPath: string, _remotePath: string, options: VerifyOptions) =>
+      new Promise<VerificationResult>((resolve) => {
+        options.signal?.addEventListener('abort', () => resolve({ verified: false, ...cancelled }));
+      })
+  );
+  return uploads;
+}
+
+describe('TaskProcessorService 工作池与停止', () => {
+  let db: TestDatabase;
+
+  before(async () => {
+    db = await createTestDatabase();
+  });
+  beforeEach(async () => {
+    await db.prisma.torrentTask.deleteMany();
+  });
+  afterEach(() => {
+    mock.restoreAll();
+    mock.timers.reset();
+  });
+  after(async () => {
+    await db.cleanup();
+  });
+
+  const newProcessor = (taskProcessor: AppConfigOverrides['taskProcessor'] = {}) =>
+    new TaskProcessorService(
+      makeAppConfig({
+        behavior: { buildManifest: false },
+        taskProcessor: { maxConcurrentUploads: 1, shutdownTimeoutMs: 10 * 1000, ...taskProcessor },
+      }),
+      db.prisma
+    );
+  const getTask = (id: string) => db.prisma.torrentTask.findUniqueOrThrow({ where: { id } });
+
+  it('每个通道最多同时处理配置数量的任务，任务结束后立即补位', async () => {
+    const tasks: TorrentTask[] = [];
+    for (let i = 0; i < 3; i++) {
+      tasks.push(await createTask(db.prisma, { status: TaskStatus.PENDING_UPLOAD }));
+    }
+    const processor = newProcessor({
+      maxConcurrentUploads: 2,
+      maxConcurrentCleanups: 3,
+      shutdownTimeoutMs: 200,
+    });
+    assert.equal(processor['getLaneConcurrency']('cleanup'), 3);
+    const uploads = mockRclone(processor);
+
+    await processor.start();
+    await waitFor(() => uploads.length === 2);
+    assert.deepEqual(
+      uploads.map((upload) => upload.localPath),
+      tasks.slice(0, 2).map((task) => task.localPath)
+    );
+    assert.equal(processor['activeTasks'].size, 2);
+
+    uploads[0].finish({ success: true, durationMs: 1 });
+    await waitFor(() => uploads.length === 3);
+    assert.equal(uploads[2].localPath, tasks[2].localPath);
+    // 上传完成的任务同时进入验证通道，不占用上传通道的槽位
+    await waitFor(() => processor['activeTasks'].get(tasks[0].id) === 'verification');
+    assert.deepEqual([...processor['activeTasks'].values()].sort(), [
+      'upload',
+      'upload',
+      'verification',
+    ]);
+    await processor.stop();
+  });
+
+  it('停止时等待正在进行的上传完成，且不再领取新任务', async () => {
+    const first = await createTask(db.prisma, { status: TaskStatus.PENDING_UPLOAD });
+    const second = await createTask(db.prisma, { status: TaskStatus.PENDING_UPLOAD });
+    const processor = newProcessor();
+    const uploads = mockRclone(processor);
+
+    await processor.start();
+    await waitFor(() => uploads.length === 1);
+    const stopped = processor.stop();
+    setTimeout(() => uploads[0].finish({ success: true, durationMs: 1 }), 100);
+    await stopped;
+
+    assert.equal(uploads.length, 1);
+    assert.equal((await getTask(first.id)).status, TaskStatus.PENDING_VERIFICATION);
+    assert.equal((await getTask(second.id)).status, TaskStatus.PENDING_UPLOAD);
+    assert.equal(processor['activeTasks'].size, 0);
+  });
+
+  it('等待超时后取消上传，任务按上传失败处理而不是停留在 UPLOADING', async () => {
+    const task = await createTask(db.prisma, { status: TaskStatus.PENDING_UPLOAD });
+    const processor = newProcessor({ shutdownTimeoutMs: 200 });
+    const uploads = mockRclone(processor);
+
+    await processor.start();
+    await waitFor(() => uploads.length === 1);
+    await processor.stop();
+
+    const stoppedTask = await getTask(task.id);
+    assert.equal(stoppedTask.status, TaskStatus.UPLOAD_FAILED);
+    assert.equal(stoppedTask.uploadAttempts, 1);
+  });
+
+  it('取消后仍未结束的任务被重置为对应阶段的入口状态', async () => {
+    const task = await createTask(db.prisma, { status: TaskStatus.PENDING_UPLOAD });
+    const processor = newProcessor({ shutdownTimeoutMs: 200 });
+    let uploadStarted = false;
+    // 不响应取消信号的上传
+    mock.method(processor['uploaderService'], 'upload', () => {
+      uploadStarted = true;
+      return new Promise<UploadResult>(() => undefined);
+    });
+
+    await processor.start();
+    await waitFor(() => uploadStarted);
+    mock.timers.enable({ apis: ['setTimeout'] });
+    const stopped = processor.stop();
+    // 依次跳过停止等待时间与取消后的宽限时间
+    for (let i = 0; i < 2; i++) {
+      await new Promise((resolve) => setImmediate(resolve));
+      mock.timers.tick(60 * 1000);
+    }
+    mock.timers.reset();
+    await stopped;
+
+    const stoppedTask = await getTask(task.id);
+    assert.equal(stoppedTask.status, TaskStatus.PENDING_UPLOAD);
+    assert.match(stoppedTask.errorMessage ?? '', /进程退出时任务仍处于 UPLOADING 状态/);
+  });
+});
@@ -0,0 +1,104 @@
+// test/uploader.service.test.ts
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { RcloneProgress } from '../src/core/rclone-progress';
+import { UploaderService } from '../src/core/uploader.service';
+import { createSilentLogger, installFakeRclone, makeRcloneConfig } from './helpers';
+
+// 假的 rclone: 行为由 FAKE_MODE 环境变量决定
+const FAKE_RCLONE = `
+case "$FAKE_MODE" in
+  progress)
+    echo '{"level":"notice","msg":"stats","stats":{"bytes":25,"totalBytes":100,"speed":5,"eta":15}}' >&2
+    printf '{"level":"info","msg":"file: Copied (new)"}\\n' >&2
+    printf '{"level":"notice","msg":"stats","stats":{"bytes":100,"totalBytes":100,"speed":5,"eta":0}}' >&2
+    ;;
+  fail)
+    echo 'ERROR : directory not found' >&2
+    exit 3
+    ;;
+  rcbusy)
+    # 第一次运行时模拟 rc 端口被占用，记录每次运行的参数
+    echo "$*" >> "$FAKE_ARGS_LOG"
+    if [ ! -f "$FAKE_ARGS_LOG.once" ]; then
+      touch "$FAKE_ARGS_LOG.once"
+      echo 'Failed to start remote control: listen tcp 127.0.0.1:5572: bind: address already in use' >&2
+      exit 1
+    fi
+    ;;
+esac
+`;
+
+describe('UploaderService.upload 进度 (假的 rclone)', () => {
+  let uninstall: () => Promise<void>;
+  let tempDir: string;
+  const originalMode = process.env.FAKE_MODE;
+
+  before(async () => {
+    uninstall = await installFakeRclone(FAKE_RCLONE);
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'qbcs-upload-test-'));
+  });
+  after(async () => {
+    process.env.FAKE_MODE = originalMode;
+    await uninstall();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('解析 stderr 中的统计信息 (包括没有换行结尾的最后一行)', async () => {
+    process.env.FAKE_MODE = 'progress';
+    const localFile = path.join(tempDir, 'file.bin');
+    await fs.writeFile(localFile, Buffer.alloc(100));
+    const uploader = new UploaderService(makeRcloneConfig(), createSilentLogger());
+    const progress: RcloneProgress[] = [];
+    const result = await uploader.upload(localFile, 'remote:dest/file.bin', [], {
+      onProgress: (p) => progress.push(p),
+    });
+    assert.equal(result.success, true);
+    assert.deepEqual(
+      progress.map((p) => p.percent),
+      [25, 100]
+    );
+    assert.equal(progress[0].etaSeconds, 15);
+  });
+
+  it('本地路径不存在时返回不可重试的失败', async () => {
+    const uploader = new UploaderService(makeRcloneConfig(), createSilentLogger());
+    const result = await uploader.upload(path.join(tempDir, 'missing'), 'remote:x');
+    assert.equal(result.success, false);
+    assert.equal(result.retryable, false);
+  });
+
+  it('失败时按退出码分类', async () => {
+    process.env.FAKE_MODE = 'fail';
+    const localFile = path.join(tempDir, 'file.bin');
+    const uploader = new UploaderService(makeRcloneConfig(), createSilentLogger());
+    const result = await uploader.upload(localFile, 'remote:dest/file.bin');
+    assert.equal(result.success, false);
+    assert.equal(result.exitCode, 3);
+  });
+
+  it('rc 端口被占用时换一个端口重新启动上传', async () => {
+    process.env.FAKE_MODE = 'rcbusy';
+    process.env.FAKE_ARGS_LOG = path.join(tempDir, 'args.log');
+    const localFile = path.join(tempDir, 'file.bin');
+    const uploader = new UploaderService(
+      makeRcloneConfig({
+        bandwidthSchedule: [{ minuteOfDay: 0, bytesPerSecond: 1024 * 1024 }],
+        bandwidthStateDir: path.join(tempDir, 'bandwidth'),
+      }),
+      createSilentLogger()
+    );
+    const result = await uploader.upload(localFile, 'remote:dest/file.bin');
+    assert.equal(result.success, true);
+
+    const runs = (await fs.readFile(process.env.FAKE_ARGS_LOG, 'utf-8')).trim().split('\n');
+    assert.equal(runs.length, 2);
+    const rcAddrs = runs.map((args) => args.match(/--rc-addr (\S+)/)?.[1]);
+    assert.ok(rcAddrs[0] && rcAddrs[1]);
+    assert.notEqual(rcAddrs[0], rcAddrs[1]);
+    assert.deepEqual(await fs.readdir(path.join(tempDir, 'bandwidth')), []);
+  });
+});